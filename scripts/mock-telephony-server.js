@@ -0,0 +1,332 @@
+/**
+ * Local stand-in for a carrier API, for offline development and tests.
+ *
+ *   npm run mock:telephony                      (port 4010, bundled scenario)
+ *   node scripts/mock-telephony-server.js --port 4010 --scenario path/to/scenario.json
+ *
+ * Point the app at it with VITE_MOCK_TELEPHONY_URL=http://localhost:4010.
+ *
+ * HTTP
+ *   GET    /health                 server status and active call count
+ *   POST   /calls                  { callId?, clientId, phoneNumber, record? } -> 201 { callId }
+ *   DELETE /calls/:callId          hang up; stops the rest of the script
+ *   POST   /calls/:callId/voicemail { audioUrl } leave a message once a machine has picked up
+ *   GET    /calls/:callId/recording silent WAV for recorded calls that were answered
+ *   GET    /scenario               the scenario currently playing
+ *   PUT    /scenario               replace the scenario (tests drive it this way)
+ *   POST   /reset                  reload the scenario file and forget all calls
+ *
+ * WebSocket /events
+ *   Every call event as JSON: { callId, type, timestamp, detail? }
+ *
+ * Scenario file
+ *   { "defaultScript": { "steps": [{ "type": "ringing", "afterMs": 0 }, ...] },
+ *     "numbers": { "+12025550101": <script> | [<script>, ...] } }
+ *   A list of scripts for one number is played in order, one per dial, the last one repeating.
+ *
+ * Ended calls are forgotten after ENDED_CALL_RETENTION_MS, long enough to fetch their recording.
+ */
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer } from 'ws';
+
+const EVENT_TYPES = ['dialing', 'ringing', 'answered', 'machine', 'busy', 'no-answer', 'failed', 'completed'];
+const TERMINAL_TYPES = ['busy', 'no-answer', 'failed', 'completed'];
+const MAX_RECORDING_SECONDS = 600;
+const SAMPLE_RATE = 8000;
+const VOICEMAIL_DROP_MS = 3000; // how long a dropped message takes to play
+const ENDED_CALL_RETENTION_MS = 10 * 60 * 1000;
+
+const FALLBACK_SCRIPT = {
+  steps: [
+    { type: 'ringing', afterMs: 0 },
+    { type: 'no-answer', afterMs: 3000 },
+  ],
+};
+
+const parseArgs = (argv) => {
+  const args = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i += 1;
+    }
+  }
+  return args;
+};
+
+const args = parseArgs(process.argv.slice(2));
+const port = Number(args.port || process.env.MOCK_TELEPHONY_PORT || 4010);
+const scenarioPath = args.scenario || process.env.MOCK_TELEPHONY_SCENARIO;
+
+// Numbers are matched on digits only so "+1 (202) 555-0101" and "+12025550101" are the same line
+const normalizeNumber = (phoneNumber) => String(phoneNumber).replace(/[^\d]/g, '');
+
+const validateScript = (script, where) => {
+  if (!script || !Array.isArray(script.steps)) {
+    throw new Error(`${where}: a script needs a "steps" list`);
+  }
+  script.steps.forEach((step, index) => {
+    if (!EVENT_TYPES.includes(step.type)) {
+      throw new Error(`${where}: step ${index + 1} has unknown type "${step.type}"`);
+    }
+    if (typeof step.afterMs !== 'number' || step.afterMs < 0) {
+      throw new Error(`${where}: step ${index + 1} needs a non-negative "afterMs"`);
+    }
+  });
+  return script;
+};
+
+const validateScenario = (scenario) => {
+  const numbers = {};
+  Object.entries(scenario.numbers || {}).forEach(([phoneNumber, scripts]) => {
+    const list = Array.isArray(scripts) ? scripts : [scripts];
+    if (list.length === 0) {
+      throw new Error(`numbers["${phoneNumber}"]: at least one script is required`);
+    }
+    numbers[normalizeNumber(phoneNumber)] = list.map((script, index) =>
+      validateScript(script, `numbers["${phoneNumber}"][${index}]`)
+    );
+  });
+  return {
+    defaultScript: scenario.defaultScript
+      ? validateScript(scenario.defaultScript, 'defaultScript')
+      : FALLBACK_SCRIPT,
+    numbers,
+  };
+};
+
+const loadScenarioFile = () => {
+  if (!scenarioPath) {
+    return validateScenario({});
+  }
+  return validateScenario(JSON.parse(readFileSync(scenarioPath, 'utf8')));
+};
+
+let scenario = loadScenarioFile();
+let dialCounts = new Map(); // normalized number -> dials so far
+const calls = new Map(); // callId -> { request, timers, answeredAt, endedAt }
+
+const nextScript = (phoneNumber) => {
+  const key = normalizeNumber(phoneNumber);
+  const scripts = scenario.numbers[key];
+  if (!scripts) {
+    return scenario.defaultScript;
+  }
+  const count = dialCounts.get(key) || 0;
+  dialCounts.set(key, count + 1);
+  return scripts[Math.min(count, scripts.length - 1)];
+};
+
+const wss = new WebSocketServer({ noServer: true });
+
+const broadcast = (event) => {
+  const message = JSON.stringify(event);
+  wss.clients.forEach(client => {
+    if (client.readyState === client.OPEN) {
+      client.send(message);
+    }
+  });
+};
+
+const emit = (callId, type, detail) => {
+  const call = calls.get(callId);
+  if (!call || call.endedAt) return;
+
+  const timestamp = new Date();
+  if (type === 'answered') {
+    call.answeredAt = timestamp;
+  }
+  if (type === 'machine') {
+    call.machineAt = timestamp;
+  }
+  if (TERMINAL_TYPES.includes(type)) {
+    call.endedAt = timestamp;
+    call.timers.forEach(clearTimeout);
+    call.timers = [setTimeout(() => calls.delete(callId), ENDED_CALL_RETENTION_MS)];
+  }
+  console.log(`📞 ${callId} ${call.request.phoneNumber} → ${type}${detail ? ` (${detail})` : ''}`);
+  broadcast({ callId, type, timestamp: timestamp.toISOString(), ...(detail ? { detail } : {}) });
+};
+
+// 16-bit mono PCM of silence, as long as the call was connected
+const buildSilentWav = (seconds) => {
+  const samples = Math.round(Math.min(Math.max(seconds, 1), MAX_RECORDING_SECONDS) * SAMPLE_RATE);
+  const dataSize = samples * 2;
+  const buffer = Buffer.alloc(44 + dataSize);
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataSize, 40);
+  return buffer;
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const handleDial = async (req, res) => {
+  const body = await readJson(req);
+  if (!body.clientId || !body.phoneNumber) {
+    return sendJson(res, 400, { error: 'clientId and phoneNumber are required' });
+  }
+  const callId = body.callId || `mock_${randomUUID()}`;
+  if (calls.has(callId)) {
+    return sendJson(res, 409, { error: `Call ${callId} already exists` });
+  }
+
+  const script = nextScript(body.phoneNumber);
+  const call = {
+    request: { clientId: body.clientId, phoneNumber: body.phoneNumber, record: !!body.record },
+    timers: [],
+    answeredAt: null,
+    machineAt: null,
+    endedAt: null,
+  };
+  calls.set(callId, call);
+  sendJson(res, 201, { callId });
+
+  emit(callId, 'dialing');
+  call.timers = script.steps.map(step =>
+    setTimeout(() => emit(callId, step.type, step.detail), step.afterMs)
+  );
+};
+
+const handleHangUp = (res, callId) => {
+  const call = calls.get(callId);
+  if (!call) {
+    return sendJson(res, 404, { error: `Unknown call ${callId}` });
+  }
+  emit(callId, call.answeredAt || call.machineAt ? 'completed' : 'failed', 'hung up by caller');
+  sendJson(res, 204);
+};
+
+// The rest of the script is dropped; the call completes once the message has played
+const handleVoicemailDrop = async (req, res, callId) => {
+  const body = await readJson(req);
+  const call = calls.get(callId);
+  if (!call) {
+    return sendJson(res, 404, { error: `Unknown call ${callId}` });
+  }
+  if (!call.machineAt || call.endedAt) {
+    return sendJson(res, 409, { error: 'No answering machine is on the line' });
+  }
+  if (!body.audioUrl) {
+    return sendJson(res, 400, { error: 'audioUrl is required' });
+  }
+  call.timers.forEach(clearTimeout);
+  call.voicemailAudioUrl = body.audioUrl;
+  call.timers = [setTimeout(() => emit(callId, 'completed', 'voicemail left'), VOICEMAIL_DROP_MS)];
+  console.log(`📼 ${callId} leaving voicemail ${body.audioUrl}`);
+  sendJson(res, 202, { callId });
+};
+
+const handleRecording = (res, callId) => {
+  const call = calls.get(callId);
+  if (!call || !call.request.record || !call.answeredAt) {
+    return sendJson(res, 404, { error: 'No recording for this call' });
+  }
+  if (!call.endedAt) {
+    return sendJson(res, 409, { error: 'The call is still in progress' });
+  }
+  const audio = buildSilentWav((call.endedAt - call.answeredAt) / 1000);
+  res.writeHead(200, { 'Content-Type': 'audio/wav', 'Content-Length': audio.length });
+  res.end(audio);
+};
+
+const resetCalls = () => {
+  calls.forEach(call => call.timers.forEach(clearTimeout));
+  calls.clear();
+  dialCounts = new Map();
+};
+
+const route = async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const [resource, callId, action] = url.pathname.split('/').filter(Boolean);
+
+  if (req.method === 'GET' && resource === 'health') {
+    const activeCalls = [...calls.values()].filter(call => !call.endedAt).length;
+    return sendJson(res, 200, { ok: true, activeCalls, scenario: scenarioPath || null });
+  }
+  if (resource === 'calls') {
+    if (req.method === 'POST' && !callId) return handleDial(req, res);
+    if (req.method === 'DELETE' && callId && !action) return handleHangUp(res, callId);
+    if (req.method === 'GET' && callId && action === 'recording') return handleRecording(res, callId);
+    if (req.method === 'POST' && callId && action === 'voicemail') return handleVoicemailDrop(req, res, callId);
+  }
+  if (resource === 'scenario') {
+    if (req.method === 'GET') return sendJson(res, 200, scenario);
+    if (req.method === 'PUT') {
+      scenario = validateScenario(await readJson(req));
+      resetCalls();
+      return sendJson(res, 200, scenario);
+    }
+  }
+  if (req.method === 'POST' && resource === 'reset') {
+    scenario = loadScenarioFile();
+    resetCalls();
+    return sendJson(res, 204);
+  }
+  sendJson(res, 404, { error: `No route for ${req.method} ${url.pathname}` });
+};
+
+const server = createServer((req, res) => {
+  // The app runs on the Vite dev server, so every origin is allowed
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  route(req, res).catch(error => sendJson(res, 400, { error: error.message }));
+});
+
+server.on('upgrade', (req, socket, head) => {
+  if (new URL(req.url, `http://${req.headers.host}`).pathname !== '/events') {
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req));
+});
+
+server.listen(port, () => {
+  console.log(`☎️  Mock telephony server on http://localhost:${port} (events: ws://localhost:${port}/events)`);
+  console.log(scenarioPath ? `📄 Scenario: ${scenarioPath}` : '📄 No scenario file, every call rings out unanswered');
+});
+
+const shutdown = () => {
+  resetCalls();
+  wss.clients.forEach(client => client.terminate());
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -1,17 +1,26 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useCallSystem } from './hooks/useCallSystem';
 import { EmployeeCard } from './components/EmployeeCard';
 import { CallStatus } from './components/CallStatus';
 import { ControlPanel } from './components/ControlPanel';
 import { ContactManager } from './components/ContactManager';
+import { ContactForm } from './components/ContactForm';
+import { CallQueuePanel } from './components/CallQueuePanel';
+import { DispositionForm } from './components/DispositionForm';
 import { ClientHistoryModal } from './components/ClientHistoryModal';
 import { AppointmentScheduler } from './components/AppointmentScheduler';
 import { CalendarModal } from './components/CalendarModal';
 import { DetailModal } from './components/DetailModal';
 import { ClientReviewModal } from './components/ClientReviewModal';
 import { AuthWrapper } from './components/AuthWrapper';
+import { DoNotCallManager } from './components/DoNotCallManager';
+import { DispositionCodeManager } from './components/DispositionCodeManager';
+import { ScheduleCallbackModal } from './components/ScheduleCallbackModal';
+import { buildDoNotCallIndex, findDoNotCallEntry } from './lib/doNotCall';
+import { buildDispositionCodeIndex, hasSkippedPriority } from './lib/dispositions';
+import { toE164, toWhatsAppUrl } from './lib/phoneNumbers';
 import { PhoneCall, Users, Zap, Phone } from 'lucide-react';
-import { Employee, WorkHistory, Appointment, ClientFeedback, ClientReview } from './types/Employee';
+import { Employee, CallOutcomeStatus, ContactFilterType, WorkHistory, Appointment, ClientFeedback, ClientReview, CallLog, CallDisposition, CallRecording } from './types/Employee';
 
 // Connection status component
 const ConnectionStatus: React.FC<{ employees: Employee[] }> = ({ employees }) => {
@@ -72,20 +81,65 @@ function App() {
   const {
     employees,
     isAutoCallActive,
-    currentCallingId,
+    isAutoCallPaused,
+    currentCallingIds,
+    queuedClientIds,
+    pendingDispositions,
+    submitDisposition,
     currentEmployeeIndex,
     stats,
+    pacing,
+    campaignSettings,
+    deferredContacts,
+    doNotCallEntries,
+    isAdmin,
+    dispositionCodes,
+    callbacks,
+    resumableSession,
+    callLists,
+    selectedCallListId,
+    selectCallList,
+    createCallList,
+    deleteCallList,
+    setCallListMembership,
+    resumeSession,
+    discardSession,
+    updateCampaignSettings,
     startAutoCalling,
     stopAutoCalling,
+    pauseAutoCalling,
+    resumeAutoCalling,
+    moveInQueue,
+    callNextInQueue,
+    moveToEndOfQueue,
+    skipInQueue,
     callEmployee,
     resetSystem,
     addContact,
+    updateContact,
+    importContacts,
+    mergeContacts,
     deleteContact,
     updatePriority,
+    addDoNotCallNumbers,
+    removeDoNotCallEntry,
+    addDispositionCode,
+    updateDispositionCode,
+    removeDispositionCode,
+    scheduleCallback,
+    resolveCallback,
+    setCallOutcome,
     addWorkHistory,
     addAppointment,
     addFeedback,
     getClientHistory,
+    getClientRecords,
+    setRecordingConsent,
+    setVoicemailDrop,
+    getVoicemailDropUrl,
+    attachRecording,
+    deleteRecording,
+    getRecordingUrl,
   } = useCallSystem();
 
   const [selectedClient, setSelectedClient] = useState<Employee | null>(null);
@@ -93,15 +147,22 @@ function App() {
   const [showAppointmentModal, setShowAppointmentModal] = useState(false);
   const [showCalendarModal, setShowCalendarModal] = useState(false);
   const [showDetailModal, setShowDetailModal] = useState(false);
+  const [showDoNotCallModal, setShowDoNotCallModal] = useState(false);
+  const [showDispositionCodesModal, setShowDispositionCodesModal] = useState(false);
+  const [callbackTarget, setCallbackTarget] = useState<{ client: Employee; callLog?: CallLog } | null>(null);
+  const [editingClient, setEditingClient] = useState<Employee | null>(null);
   const [detailModalType, setDetailModalType] = useState<'total' | 'answered' | 'missed' | 'pending' | 'round' | 'current' | 'monthly' | 'completed' | 'urgent'>('total');
   const [detailModalTitle, setDetailModalTitle] = useState('');
   const [markedDates, setMarkedDates] = useState<Date[]>([]);
-  const [contactFilter, setContactFilter] = useState<'all' | 'default' | 'custom' | 'completed' | 'answered' | 'missed' | 'pending' | 'urgent'>('all');
+  const [contactFilter, setContactFilter] = useState<ContactFilterType>('all');
   const [clientHistory, setClientHistory] = useState<{
     workHistory: WorkHistory[];
     appointments: Appointment[];
     feedback: ClientFeedback[];
-  }>({ workHistory: [], appointments: [], feedback: [] });
+    callLogs: CallLog[];
+    dispositions: CallDisposition[];
+    recordings: CallRecording[];
+  }>({ workHistory: [], appointments: [], feedback: [], callLogs: [], dispositions: [], recordings: [] });
 
   // Load marked dates from localStorage on mount
   useEffect(() => {
@@ -121,6 +182,30 @@ function App() {
     localStorage.setItem('markedDates', JSON.stringify(markedDates.map(date => date.toISOString())));
   }, [markedDates]);
 
+  // P pauses or resumes auto calling, unless the user is typing somewhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== 'p' || event.ctrlKey || event.metaKey || event.altKey || event.repeat) {
+        return;
+      }
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+      if (!isAutoCallActive) {
+        return;
+      }
+      event.preventDefault();
+      if (isAutoCallPaused) {
+        resumeAutoCalling();
+      } else {
+        pauseAutoCalling();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isAutoCallActive, isAutoCallPaused, pauseAutoCalling, resumeAutoCalling]);
+
   const handleMarkDate = (date: Date) => {
     setMarkedDates(prev => [...prev, date]);
   };
@@ -154,6 +239,16 @@ function App() {
     setContactFilter('urgent');
   };
 
+  const handleFilterStatus = (status: CallOutcomeStatus) => {
+    console.log(`Setting filter to ${status}`);
+    setContactFilter(status);
+  };
+
+  const handleFilterDisposition = (code: string) => {
+    console.log(`Setting filter to disposition ${code}`);
+    setContactFilter(`disposition:${code}`);
+  };
+
   const handleShowTotalDetails = () => {
     setDetailModalType('total');
     setDetailModalTitle('Total Contacts');
@@ -177,11 +272,90 @@ function App() {
     setDetailModalTitle('Round Information');
     setShowDetailModal(true);
   };
+
+  const doNotCallIndex = useMemo(() => buildDoNotCallIndex(doNotCallEntries), [doNotCallEntries]);
+  const priorityIndex = useMemo(() => buildDispositionCodeIndex(dispositionCodes, 'priority'), [dispositionCodes]);
+
+  const handleToggleDoNotCall = async (employeeId: string) => {
+    const client = employees.find(emp => emp.id === employeeId);
+    if (!client) return;
+
+    const entry = findDoNotCallEntry(client, doNotCallIndex, campaignSettings.defaultCountry);
+    try {
+      if (entry) {
+        if (window.confirm(`Allow calls to ${client.name} again?`)) {
+          await removeDoNotCallEntry(entry.id);
+        }
+      } else {
+        await addDoNotCallNumbers([client.phoneNumber], {
+          scope: 'user',
+          reason: `Blocked from ${client.name}'s card`,
+          source: hasSkippedPriority(client, priorityIndex) ? 'not-interested' : 'manual',
+        });
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to update the do-not-call list. Please try again.');
+    }
+  };
+
+  const handleScheduleCallback = (employeeId: string) => {
+    const client = employees.find(emp => emp.id === employeeId);
+    if (client) {
+      setCallbackTarget({ client });
+    }
+  };
+
+  const handleEditContact = (employeeId: string) => {
+    const client = employees.find(emp => emp.id === employeeId);
+    if (client) {
+      setEditingClient(client);
+    }
+  };
+
+  const handleScheduleCallbackFromLog = (callLog: CallLog) => {
+    if (selectedClient) {
+      setCallbackTarget({ client: selectedClient, callLog });
+    }
+  };
+
+  // Recording a callback request goes straight on to scheduling it
+  const handleSetCallOutcome = async (employeeId: string, status: CallOutcomeStatus) => {
+    await setCallOutcome(employeeId, status);
+    if (status === 'callback-requested') {
+      handleScheduleCallback(employeeId);
+    }
+  };
+
+  const handleRecordingConsentChange = async (consent: boolean) => {
+    if (!selectedClient) return;
+    await setRecordingConsent(selectedClient.id, consent);
+    setSelectedClient(prev => prev && { ...prev, recordingConsent: consent });
+  };
+
+  const handleAttachRecording = async (callLog: CallLog, audio: File) => {
+    if (!selectedClient) return;
+    const recording = await attachRecording(selectedClient.id, callLog, audio);
+    setClientHistory(prev => ({
+      ...prev,
+      recordings: [...prev.recordings.filter(item => item.callLogId !== callLog.id), recording],
+    }));
+  };
+
+  const handleDeleteRecording = async (recording: CallRecording) => {
+    await deleteRecording(recording);
+    setClientHistory(prev => ({
+      ...prev,
+      recordings: prev.recordings.filter(item => item.id !== recording.id),
+    }));
+  };
+
   const handleOpenWhatsApp = (phoneNumber: string) => {
-    // Clean phone number for WhatsApp
-    const cleanNumber = phoneNumber.replace(/[^\d+]/g, '');
-    const whatsappUrl = `https://wa.me/${cleanNumber}`;
-    window.open(whatsappUrl, '_blank');
+    const e164 = toE164(phoneNumber, campaignSettings.defaultCountry);
+    if (!e164) {
+      alert(`${phoneNumber} is not a complete international number, so WhatsApp cannot open it.`);
+      return;
+    }
+    window.open(toWhatsAppUrl(e164), '_blank');
   };
 
   const handleViewHistory = async (employeeId: string) => {
@@ -234,6 +408,9 @@ function App() {
     }
   };
   
+  const activeDisposition = pendingDispositions[0];
+  const activeDispositionClient = activeDisposition && employees.find(emp => emp.id === activeDisposition.clientId);
+
   return (
     <AuthWrapper>
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
@@ -266,16 +443,33 @@ function App() {
           isAutoCallActive={isAutoCallActive}
           currentEmployeeIndex={currentEmployeeIndex}
           totalEmployees={employees.length}
+          currentRound={stats.currentRound}
+          maxRounds={campaignSettings.maxRounds}
+          onStartAutoCall={startAutoCalling}
+          onPauseAutoCall={pauseAutoCalling}
+          onResumeAutoCall={resumeAutoCalling}
+          isAutoCallPaused={isAutoCallPaused}
           onFilterCompleted={handleFilterCompleted}
           onFilterAnswered={handleFilterAnswered}
           onFilterMissed={handleFilterMissed}
           onFilterPending={handleFilterPending}
           onFilterUrgent={handleFilterUrgent}
+          onFilterStatus={handleFilterStatus}
+          onFilterDisposition={handleFilterDisposition}
           onShowMonthlyAppointments={handleShowMonthlyAppointments}
           onShowCurrentClient={handleShowCurrentClient}
           onShowRoundInfo={handleShowRoundInfo}
           onShowTotalDetails={handleShowTotalDetails}
           employees={employees}
+          callbacks={callbacks}
+          onResolveCallback={resolveCallback}
+          callLists={callLists}
+          selectedCallListId={selectedCallListId}
+          activeCallIds={currentCallingIds}
+          maxConcurrentCalls={pacing.linesInFlight}
+          dispositionCodes={dispositionCodes}
+          pacing={pacing}
+          predictivePacing={campaignSettings.predictivePacing}
         />
 
         {/* Control Panel */}
@@ -283,22 +477,59 @@ function App() {
           isAutoCallActive={isAutoCallActive}
           onStartAutoCalling={startAutoCalling}
           onStopAutoCalling={stopAutoCalling}
+          isPaused={isAutoCallPaused}
+          onPauseAutoCalling={pauseAutoCalling}
+          onResumeAutoCalling={resumeAutoCalling}
           onResetSystem={resetSystem}
           hasEmployees={employees.length > 0}
           currentRound={stats.currentRound}
           currentEmployeeIndex={currentEmployeeIndex}
           totalEmployees={employees.length}
           onShowCalendar={handleShowCalendar}
+          onShowDoNotCall={() => setShowDoNotCallModal(true)}
+          onShowDispositionCodes={() => setShowDispositionCodesModal(true)}
+          campaignSettings={campaignSettings}
+          onSaveCampaignSettings={updateCampaignSettings}
+          onSetVoicemailDrop={setVoicemailDrop}
+          onLoadVoicemailDropUrl={getVoicemailDropUrl}
+          resumableSession={resumableSession}
+          onResumeSession={resumeSession}
+          onDiscardSession={discardSession}
+          callLists={callLists}
+          selectedCallListId={selectedCallListId}
+          onSelectCallList={selectCallList}
         />
 
+        {/* Live call queue */}
+        {isAutoCallActive && (
+          <CallQueuePanel
+            employees={employees}
+            queuedClientIds={queuedClientIds}
+            currentRound={stats.currentRound}
+            onMove={moveInQueue}
+            onCallNext={callNextInQueue}
+            onMoveToEnd={moveToEndOfQueue}
+            onSkip={skipInQueue}
+          />
+        )}
+
         {/* Contact Management */}
         <ContactManager
           employees={employees}
           onAddContact={addContact}
           onDeleteContact={deleteContact}
+          onImportContacts={importContacts}
+          onMergeContacts={mergeContacts}
+          onLoadExportRecords={getClientRecords}
           isAutoCallActive={isAutoCallActive}
           filterType={contactFilter}
           onFilterChange={setContactFilter}
+          callLists={callLists}
+          onCreateCallList={createCallList}
+          onDeleteCallList={deleteCallList}
+          onSetCallListMembership={setCallListMembership}
+          dispositionCodes={dispositionCodes}
+          defaultCountry={campaignSettings.defaultCountry}
         />
 
         {/* Client List */}
@@ -308,7 +539,7 @@ function App() {
             <span>Client Directory</span>
             {isAutoCallActive && (
               <span className="text-sm bg-blue-100 text-blue-800 px-3 py-1 rounded-full animate-pulse">
-                Auto Calling Active
+                {isAutoCallPaused ? 'Auto Calling Paused' : 'Auto Calling Active'}
               </span>
             )}
           </h2>
@@ -319,14 +550,22 @@ function App() {
                 <EmployeeCard
                   key={employee.id}
                   employee={employee}
-                  isCurrentlyCalling={currentCallingId === employee.id}
+                  isCurrentlyCalling={currentCallingIds.includes(employee.id)}
                   isCurrentEmployee={index === currentEmployeeIndex}
                   onCallEmployee={callEmployee}
                   onUpdatePriority={updatePriority}
+                  onSetCallOutcome={handleSetCallOutcome}
                   isAutoCallActive={isAutoCallActive}
+                  ringTimeoutSeconds={campaignSettings.ringTimeoutSeconds}
                   onOpenWhatsApp={handleOpenWhatsApp}
                   onViewHistory={handleViewHistory}
                   onScheduleAppointment={handleScheduleAppointment}
+                  doNotCallEntry={findDoNotCallEntry(employee, doNotCallIndex, campaignSettings.defaultCountry)}
+                  onToggleDoNotCall={handleToggleDoNotCall}
+                  nextCallback={callbacks.find(callback => callback.clientId === employee.id)}
+                  onScheduleCallback={handleScheduleCallback}
+                  onEditContact={handleEditContact}
+                  dispositionCodes={dispositionCodes}
                 />
               ))}
             </div>
@@ -352,7 +591,7 @@ function App() {
               </h4>
               <ul className="space-y-2 text-sm pl-7">
                 <li>• 🚀 Click "Start Auto Call" to begin automatic sequence</li>
-                <li>• ⏱️ Each call has exactly 10-second timeout</li>
+                <li>• ⏱️ Each call rings for the timeout set in Campaign Settings</li>
                 <li>• 🔄 System automatically moves to next unanswered client</li>
                 <li>• 🎯 Skips clients who have already answered</li>
                 <li>• 🛑 Click "Stop Auto Call" to halt the process</li>
@@ -366,7 +605,7 @@ function App() {
               </h4>
               <ul className="space-y-2 text-sm pl-7">
                 <li>• 📞 Click "Call" button on any client card</li>
-                <li>• ⏳ Wait for 10-second timeout or call completion</li>
+                <li>• ⏳ Wait for the ring timeout or call completion</li>
                 <li>• ✅ Status updates to "Answered" (green) if picked up</li>
                 <li>• ❌ Status updates to "Missed" (red) if timeout</li>
                 <li>• 🔄 Manual calls work alongside auto calling</li>
@@ -406,6 +645,30 @@ function App() {
                 <div className="w-4 h-4 bg-red-500 rounded-full"></div>
                 <span>Red = Missed</span>
               </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 bg-orange-500 rounded-full"></div>
+                <span>Orange = Busy</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 bg-yellow-500 rounded-full"></div>
+                <span>Yellow = Voicemail</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 bg-pink-500 rounded-full"></div>
+                <span>Pink = Declined</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 bg-teal-500 rounded-full"></div>
+                <span>Teal = Callback Requested</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 bg-stone-600 rounded-full"></div>
+                <span>Stone = Wrong Number (not retried)</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <div className="w-4 h-4 bg-slate-700 rounded-full"></div>
+                <span>Slate = Disconnected (not retried)</span>
+              </div>
             </div>
             <div className="mt-4">
               <h4 className="font-semibold text-blue-900 mb-2">Priority Color Guide:</h4>
@@ -438,6 +701,75 @@ function App() {
             workHistory={clientHistory.workHistory}
             appointments={clientHistory.appointments}
             feedback={clientHistory.feedback}
+            callLogs={clientHistory.callLogs}
+            dispositions={clientHistory.dispositions}
+            dispositionCodes={dispositionCodes}
+            onScheduleCallback={handleScheduleCallbackFromLog}
+            recordings={clientHistory.recordings}
+            recordingConsent={!!selectedClient.recordingConsent}
+            onRecordingConsentChange={handleRecordingConsentChange}
+            onAttachRecording={handleAttachRecording}
+            onDeleteRecording={handleDeleteRecording}
+            onLoadRecordingUrl={getRecordingUrl}
+          />
+        )}
+
+        {/* Post-call disposition, one answered call at a time */}
+        {activeDisposition && activeDispositionClient && (
+          <DispositionForm
+            key={activeDisposition.callLogId}
+            client={activeDispositionClient}
+            pending={activeDisposition}
+            codes={dispositionCodes}
+            wrapUpSeconds={campaignSettings.wrapUpSeconds}
+            queuedCount={pendingDispositions.length - 1}
+            onSubmit={submitDisposition}
+          />
+        )}
+
+        {/* Edit Contact Modal */}
+        {editingClient && (
+          <ContactForm
+            employees={employees}
+            employee={editingClient}
+            onUpdateContact={updateContact}
+            onClose={() => setEditingClient(null)}
+            defaultCountry={campaignSettings.defaultCountry}
+            dispositionCodes={dispositionCodes}
+          />
+        )}
+
+        {/* Schedule Callback Modal */}
+        {callbackTarget && (
+          <ScheduleCallbackModal
+            client={callbackTarget.client}
+            callLog={callbackTarget.callLog}
+            onSchedule={scheduleCallback}
+            onClose={() => setCallbackTarget(null)}
+          />
+        )}
+
+        {/* Do-Not-Call Modal */}
+        {showDoNotCallModal && (
+          <DoNotCallManager
+            entries={doNotCallEntries}
+            isAdmin={isAdmin}
+            defaultCountry={campaignSettings.defaultCountry}
+            onAddNumbers={addDoNotCallNumbers}
+            onRemoveEntry={removeDoNotCallEntry}
+            onClose={() => setShowDoNotCallModal(false)}
+          />
+        )}
+
+        {/* Disposition Codes Modal */}
+        {showDispositionCodesModal && (
+          <DispositionCodeManager
+            codes={dispositionCodes}
+            isAdmin={isAdmin}
+            onAddCode={addDispositionCode}
+            onUpdateCode={updateDispositionCode}
+            onRemoveCode={removeDispositionCode}
+            onClose={() => setShowDispositionCodesModal(false)}
           />
         )}
 
@@ -451,6 +783,9 @@ function App() {
           stats={stats}
           currentEmployeeIndex={currentEmployeeIndex}
           isAutoCallActive={isAutoCallActive}
+          deferredContacts={deferredContacts}
+          retryRules={campaignSettings.retryRules}
+          dispositionCodes={dispositionCodes}
         />
 
         {/* Appointment Scheduler Modal */}
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { ListOrdered, GripVertical, SkipForward, ArrowDownToLine, PhoneOutgoing } from 'lucide-react';
+import { Employee } from '../types/Employee';
+import { CALL_STATUS_META } from '../lib/callOutcomes';
+
+interface CallQueuePanelProps {
+  employees: Employee[];
+  queuedClientIds: string[];
+  currentRound: number;
+  onMove: (clientId: string, toIndex: number) => void;
+  onCallNext: (clientId: string) => void;
+  onMoveToEnd: (clientId: string) => void;
+  onSkip: (clientId: string) => void;
+}
+
+export const CallQueuePanel: React.FC<CallQueuePanelProps> = ({
+  employees,
+  queuedClientIds,
+  currentRound,
+  onMove,
+  onCallNext,
+  onMoveToEnd,
+  onSkip,
+}) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const queuedClients = queuedClientIds
+    .map(id => employees.find(emp => emp.id === id))
+    .filter((emp): emp is Employee => !!emp);
+
+  const handleDrop = (index: number) => {
+    if (draggedId) {
+      // Indexes are into the full queue, which may still hold since-deleted clients
+      onMove(draggedId, queuedClientIds.indexOf(queuedClients[index].id));
+    }
+    setDraggedId(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center space-x-2">
+          <ListOrdered className="w-6 h-6 text-indigo-600" />
+          <span>Up Next - Round {currentRound}</span>
+        </h2>
+        <span className="text-sm text-gray-600">{queuedClients.length} clients left this round</span>
+      </div>
+
+      {queuedClients.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">Nobody left to dial this round</div>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {queuedClients.map((client, index) => (
+            <div
+              key={client.id}
+              draggable
+              onDragStart={() => setDraggedId(client.id)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDragEnd={() => {
+                setDraggedId(null);
+                setDropIndex(null);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(index);
+              }}
+              className={`flex items-center justify-between p-3 rounded-lg border transition-colors cursor-move ${
+                draggedId === client.id
+                  ? 'opacity-50 border-indigo-300 bg-indigo-50'
+                  : dropIndex === index && draggedId
+                    ? 'border-indigo-400 bg-indigo-50'
+                    : index === 0 ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center space-x-3">
+                <GripVertical className="w-4 h-4 text-gray-400" />
+                <span className="w-6 text-sm font-semibold text-gray-500">{index + 1}</span>
+                <div>
+                  <div className="font-medium text-gray-800">{client.name}</div>
+                  <div className="text-xs text-gray-500">{client.phoneNumber}</div>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CALL_STATUS_META[client.status].softClass}`}>
+                  {CALL_STATUS_META[client.status].label}
+                </span>
+              </div>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => onCallNext(client.id)}
+                  disabled={index === 0}
+                  className="p-2 text-green-600 hover:bg-green-100 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Call next"
+                >
+                  <PhoneOutgoing className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onMoveToEnd(client.id)}
+                  disabled={index === queuedClients.length - 1}
+                  className="p-2 text-blue-600 hover:bg-blue-100 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Move to end"
+                >
+                  <ArrowDownToLine className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onSkip(client.id)}
+                  className="p-2 text-orange-600 hover:bg-orange-100 rounded-lg transition-colors"
+                  title="Skip this round"
+                >
+                  <SkipForward className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
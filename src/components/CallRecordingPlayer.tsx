@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Play, Trash2 } from 'lucide-react';
+import { CallRecording } from '../types/Employee';
+
+interface CallRecordingPlayerProps {
+  recording: CallRecording;
+  onLoadUrl: (recording: CallRecording) => Promise<string>;
+  onDelete?: (recording: CallRecording) => Promise<void>;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1048576 ? `${(bytes / 1048576).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Playback links are fetched on demand so opening the history never downloads audio
+export const CallRecordingPlayer: React.FC<CallRecordingPlayerProps> = ({
+  recording,
+  onLoadUrl,
+  onDelete,
+}) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handlePlay = async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      setUrl(await onLoadUrl(recording));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the recording');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete || !window.confirm('Delete this recording? This cannot be undone.')) return;
+    try {
+      await onDelete(recording);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the recording');
+    }
+  };
+
+  return (
+    <div className="mt-2 p-2 bg-indigo-50 rounded text-sm">
+      <div className="flex items-center justify-between gap-2">
+        {url ? (
+          <audio controls autoPlay src={url} className="h-8 flex-1 min-w-0">
+            Your browser cannot play this recording.
+          </audio>
+        ) : (
+          <button
+            onClick={handlePlay}
+            disabled={isLoading}
+            className="flex items-center space-x-1 text-indigo-700 hover:text-indigo-900 font-medium disabled:opacity-50"
+          >
+            <Play className="w-4 h-4" />
+            <span>{isLoading ? 'Loading...' : 'Play recording'}</span>
+          </button>
+        )}
+        {onDelete && (
+          <button
+            onClick={handleDelete}
+            className="text-red-500 hover:text-red-700 p-1"
+            title="Delete recording"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      <div className="text-xs text-gray-500 mt-1">
+        {formatSize(recording.sizeBytes)}
+        {recording.expiresAt ? ` · kept until ${recording.expiresAt.toLocaleDateString()}` : ''}
+      </div>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
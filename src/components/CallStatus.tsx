@@ -1,6 +1,19 @@
 import React from 'react';
-import { Users, CheckCircle, XCircle, Clock, RotateCcw, Phone, Calendar, AlertTriangle, Filter, Play, Pause, SkipForward } from 'lucide-react';
-import { CallSystemStats } from '../types/Employee';
+import { Users, CheckCircle, XCircle, Clock, RotateCcw, Phone, Calendar, AlertTriangle, Filter, Play, Pause, SkipForward, PhoneForwarded, List, Tags, Gauge } from 'lucide-react';
+import { Callback, CallList, CallOutcomeStatus, CallSystemStats, DispositionCode, Employee, PacingSnapshot } from '../types/Employee';
+import { CALL_STATUS_META, isRetryableStatus } from '../lib/callOutcomes';
+import { DISPOSITION_COLORS, buildDispositionCodeIndex, listDispositionCodes } from '../lib/dispositions';
+
+// Counters shown under the main grid for the outcomes beyond answered/missed
+const OUTCOME_COUNTERS: { status: CallOutcomeStatus; key: keyof CallSystemStats }[] = [
+  { status: 'busy', key: 'busy' },
+  { status: 'voicemail', key: 'voicemail' },
+  { status: 'machine', key: 'machine' },
+  { status: 'wrong-number', key: 'wrongNumber' },
+  { status: 'disconnected', key: 'disconnected' },
+  { status: 'declined', key: 'declined' },
+  { status: 'callback-requested', key: 'callbackRequested' },
+];
 
 interface CallStatusProps {
   stats: CallSystemStats;
@@ -8,22 +21,41 @@ interface CallStatusProps {
   currentEmployeeIndex: number;
   totalEmployees: number;
   currentRound: number;
-  maxRounds: number;
+  maxRounds?: number; // unlimited when not set
   onStartAutoCall: () => void;
-  onPauseAutoCall: () => void;
-  onNextRound: () => void;
+  onPauseAutoCall?: () => void;
+  onResumeAutoCall?: () => void;
+  isAutoCallPaused?: boolean;
+  onNextRound?: () => void;
   onFilterCompleted?: () => void;
   onFilterAnswered?: () => void;
   onFilterMissed?: () => void;
   onFilterPending?: () => void;
   onFilterUrgent?: () => void;
+  onFilterStatus?: (status: CallOutcomeStatus) => void;
+  onFilterDisposition?: (code: string) => void;
   onShowMonthlyAppointments?: () => void;
   onShowCurrentClient?: () => void;
   onShowRoundInfo?: () => void;
   onShowTotalDetails?: () => void;
-  employees?: any[];
+  employees?: Employee[];
+  callbacks?: Callback[];
+  onResolveCallback?: (callbackId: string, status: 'completed' | 'cancelled') => void;
+  callLists?: CallList[];
+  selectedCallListId?: string | null;
+  activeCallIds?: string[];
+  maxConcurrentCalls?: number;
+  dispositionCodes?: DispositionCode[];
+  pacing?: PacingSnapshot;
+  predictivePacing?: boolean;
 }
 
+const formatSeconds = (seconds: number) => {
+  const rounded = Math.round(seconds);
+  const minutes = Math.floor(rounded / 60);
+  return minutes > 0 ? `${minutes}m ${rounded % 60}s` : `${rounded}s`;
+};
+
 export const CallStatus: React.FC<CallStatusProps> = ({ 
   stats, 
   isAutoCallActive, 
@@ -33,17 +65,30 @@ export const CallStatus: React.FC<CallStatusProps> = ({
   maxRounds,
   onStartAutoCall,
   onPauseAutoCall,
+  onResumeAutoCall,
+  isAutoCallPaused = false,
   onNextRound,
   onFilterCompleted,
   onFilterAnswered,
   onFilterMissed,
   onFilterPending,
   onFilterUrgent,
+  onFilterStatus,
+  onFilterDisposition,
   onShowMonthlyAppointments,
   onShowCurrentClient,
   onShowRoundInfo,
   onShowTotalDetails,
-  employees = []
+  employees = [],
+  callbacks = [],
+  onResolveCallback,
+  callLists = [],
+  selectedCallListId = null,
+  activeCallIds = [],
+  maxConcurrentCalls = 1,
+  dispositionCodes = [],
+  pacing,
+  predictivePacing = false,
 }) => {
   const completionPercentage = stats.totalEmployees > 0 
     ? Math.round((stats.answered / stats.totalEmployees) * 100)
@@ -59,6 +104,38 @@ export const CallStatus: React.FC<CallStatusProps> = ({
   const shouldStopCalling = isFinalRound && allClientsCalled;
   const canProceedToNextRound = isAutoCallActive && allClientsCalled && !allClientsAnswered && !isFinalRound;
 
+  // Callbacks due before the end of today, oldest first
+  const now = new Date();
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+  const dueCallbacks = callbacks.filter(callback => callback.dueAt <= endOfToday);
+  const overdueCount = dueCallbacks.filter(callback => callback.dueAt <= now).length;
+
+  const activeCalls = activeCallIds
+    .map(id => employees.find(emp => emp.id === id))
+    .filter((emp): emp is Employee => !!emp);
+
+  const listStats = callLists.map(list => {
+    const members = employees.filter(emp => list.clientIds.includes(emp.id));
+    const answered = members.filter(emp => emp.status === 'answered').length;
+    return {
+      list,
+      total: members.length,
+      answered,
+      unanswered: members.filter(emp => isRetryableStatus(emp.status)).length,
+      percentage: members.length > 0 ? Math.round((answered / members.length) * 100) : 0,
+    };
+  });
+
+  // Clients by their latest disposition; "reached" follows each code's own setting
+  const dispositionStats = listDispositionCodes(buildDispositionCodeIndex(dispositionCodes)).map(code => ({
+    code,
+    count: employees.filter(emp => emp.lastDispositionCode === code.code).length,
+  }));
+  const reachedCount = dispositionStats
+    .filter(({ code }) => code.countsAsReached)
+    .reduce((total, { count }) => total + count, 0);
+
   return (
     <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
       <h2 className="text-2xl font-bold text-gray-800 mb-6 flex items-center space-x-2">
@@ -73,7 +150,7 @@ export const CallStatus: React.FC<CallStatusProps> = ({
             <div className="bg-white rounded-lg px-4 py-2 border-2 border-blue-300">
               <div className="text-sm text-gray-600">Current Round</div>
               <div className="text-2xl font-bold text-blue-800 text-center">
-                {currentRound} / {maxRounds}
+                {currentRound} / {maxRounds ?? '∞'}
               </div>
             </div>
             
@@ -85,6 +162,31 @@ export const CallStatus: React.FC<CallStatusProps> = ({
                  `Round ${currentRound} - Unanswered Only`}
               </div>
             </div>
+
+            {pacing && (
+              <div
+                className="bg-white rounded-lg px-4 py-2 border-2 border-teal-300"
+                title={pacing.sampleSize > 0
+                  ? `Last ${pacing.sampleSize} auto calls: ${Math.round(pacing.answerRate * 100)}% answered, ` +
+                    `${formatSeconds(pacing.averageTalkSeconds)} average talk time`
+                  : 'No auto calls yet'}
+              >
+                <div className="text-sm text-gray-600 flex items-center space-x-1">
+                  <Gauge className="w-4 h-4 text-teal-600" />
+                  <span>{predictivePacing ? 'Predictive Pacing' : 'Fixed Pacing'}</span>
+                </div>
+                <div className="text-lg font-bold text-teal-800">
+                  {pacing.isLearning
+                    ? `Learning (${pacing.sampleSize} calls)`
+                    : `×${pacing.pacingFactor.toFixed(1)} · ${pacing.linesInFlight} line${pacing.linesInFlight === 1 ? '' : 's'} · ${pacing.interCallDelaySeconds}s gap`}
+                </div>
+                {pacing.sampleSize > 0 && (
+                  <div className="text-xs text-gray-500">
+                    {Math.round(pacing.answerRate * 100)}% answer rate · {formatSeconds(pacing.averageTalkSeconds)} avg talk
+                  </div>
+                )}
+              </div>
+            )}
           </div>
           
           <div className="flex items-center space-x-3">
@@ -98,18 +200,27 @@ export const CallStatus: React.FC<CallStatusProps> = ({
                 <Play className="w-4 h-4" />
                 <span>Start Calling</span>
               </button>
-            ) : (
+            ) : isAutoCallPaused ? onResumeAutoCall && (
+              <button
+                onClick={onResumeAutoCall}
+                className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
+                title="Resume auto-calling (P)"
+              >
+                <Play className="w-4 h-4" />
+                <span>Resume</span>
+              </button>
+            ) : onPauseAutoCall && (
               <button
                 onClick={onPauseAutoCall}
                 className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
-                title="Pause auto-calling"
+                title="Pause auto-calling (P)"
               >
                 <Pause className="w-4 h-4" />
                 <span>Pause</span>
               </button>
             )}
             
-            {canProceedToNextRound && (
+            {canProceedToNextRound && onNextRound && (
               <button
                 onClick={onNextRound}
                 className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
@@ -143,6 +254,29 @@ export const CallStatus: React.FC<CallStatusProps> = ({
         </div>
       </div>
 
+      {/* Calls in flight */}
+      {activeCalls.length > 0 && (
+        <div className="mb-6 rounded-lg border-2 border-blue-200 bg-blue-50 p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-2 font-semibold text-blue-900">
+              <Phone className="w-5 h-5 animate-pulse" />
+              <span>Active Calls</span>
+            </div>
+            <span className="text-sm font-medium text-blue-800">
+              {activeCalls.length} / {Math.max(maxConcurrentCalls, activeCalls.length)} lines
+            </span>
+          </div>
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-2">
+            {activeCalls.map(client => (
+              <div key={client.id} className="flex items-center justify-between bg-white rounded-lg p-2 text-sm">
+                <span className="font-medium text-gray-800">{client.name}</span>
+                <span className="text-gray-500">{client.phoneNumber}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Real-time stats grid */}
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-9 gap-4 mb-6">
         <button 
@@ -320,6 +454,158 @@ export const CallStatus: React.FC<CallStatusProps> = ({
         </button>
       </div>
 
+      {/* Detailed call outcomes */}
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3 mb-6">
+        {OUTCOME_COUNTERS.map(({ status, key }) => (
+          <button
+            key={status}
+            onClick={() => {
+              try {
+                if (onFilterStatus) {
+                  onFilterStatus(status);
+                }
+              } catch (error) {
+                console.error(`Error filtering ${status} contacts:`, error);
+              }
+            }}
+            className={`rounded-lg p-3 text-center transition-all duration-200 hover:shadow-md cursor-pointer ${CALL_STATUS_META[status].softClass}`}
+            title={`Click to view ${CALL_STATUS_META[status].label.toLowerCase()} contacts`}
+          >
+            <div className="text-xl font-bold">{stats[key]}</div>
+            <div className="text-xs">{CALL_STATUS_META[status].label}</div>
+          </button>
+        ))}
+        <div
+          className="rounded-lg p-3 text-center bg-violet-50 text-violet-800 border border-violet-200"
+          title="Voicemail messages left on answering machines this session"
+        >
+          <div className="text-xl font-bold">{stats.voicemailDrops}</div>
+          <div className="text-xs">Voicemails Left</div>
+        </div>
+      </div>
+
+      {/* Latest dispositions */}
+      {dispositionStats.length > 0 && (
+        <div className="mb-6">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-2 font-semibold text-gray-800">
+              <Tags className="w-5 h-5 text-teal-600" />
+              <span>Dispositions</span>
+            </div>
+            <span className="text-sm text-gray-600">{reachedCount} reached</span>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+            {dispositionStats.map(({ code, count }) => (
+              <button
+                key={code.code}
+                onClick={() => {
+                  if (onFilterDisposition) {
+                    onFilterDisposition(code.code);
+                  }
+                }}
+                className={`rounded-lg p-3 text-center transition-all duration-200 hover:shadow-md cursor-pointer ${DISPOSITION_COLORS[code.color].softClass}`}
+                title={`Click to view contacts whose last disposition is ${code.label.toLowerCase()}`}
+              >
+                <div className="text-xl font-bold">{count}</div>
+                <div className="text-xs">{code.label}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Due and overdue callbacks */}
+      {dueCallbacks.length > 0 && (
+        <div className="mb-6 rounded-lg border-2 border-teal-200 bg-teal-50 p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-2 font-semibold text-teal-900">
+              <PhoneForwarded className="w-5 h-5" />
+              <span>Callbacks Due Today ({dueCallbacks.length})</span>
+            </div>
+            {overdueCount > 0 && (
+              <span className="px-2 py-1 rounded-full text-xs font-bold bg-red-500 text-white">
+                {overdueCount} overdue
+              </span>
+            )}
+          </div>
+          <div className="space-y-2 max-h-48 overflow-y-auto">
+            {dueCallbacks.map(callback => {
+              const client = employees.find(emp => emp.id === callback.clientId);
+              const isOverdue = callback.dueAt <= now;
+              return (
+                <div key={callback.id} className="flex items-center justify-between bg-white rounded-lg p-2 text-sm">
+                  <div>
+                    <div className="font-medium text-gray-800">
+                      {client?.name || 'Unknown client'}
+                      <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${
+                        isOverdue ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {isOverdue ? 'Overdue' : 'Due'} {callback.dueAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {callback.reason || 'No reason given'}{callback.assignedTo ? ` · ${callback.assignedTo}` : ''}
+                    </div>
+                  </div>
+                  {onResolveCallback && (
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => onResolveCallback(callback.id, 'completed')}
+                        className="px-2 py-1 rounded bg-teal-500 hover:bg-teal-600 text-white text-xs"
+                      >
+                        Done
+                      </button>
+                      <button
+                        onClick={() => onResolveCallback(callback.id, 'cancelled')}
+                        className="px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 text-gray-700 text-xs"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Per-list progress */}
+      {listStats.length > 0 && (
+        <div className="mb-6">
+          <div className="flex items-center space-x-2 font-semibold text-gray-800 mb-3">
+            <List className="w-5 h-5 text-indigo-600" />
+            <span>Call Lists</span>
+          </div>
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {listStats.map(({ list, total, answered, unanswered, percentage }) => (
+              <div
+                key={list.id}
+                className={`rounded-lg p-3 border-2 ${
+                  list.id === selectedCallListId ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200 bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium text-gray-800">{list.name}</span>
+                  {list.id === selectedCallListId && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-500 text-white">Dialing</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-600 mb-2">
+                  {total} clients · {answered} answered · {unanswered} unanswered
+                </div>
+                <div className="bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-gradient-to-r from-indigo-400 to-indigo-600 h-2 rounded-full transition-all duration-500"
+                    style={{ width: `${percentage}%` }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Overall Progress bar */}
       <div className="mb-4">
         <div className="flex justify-between items-center mb-2">
@@ -335,23 +621,13 @@ export const CallStatus: React.FC<CallStatusProps> = ({
       </div>
 
       {/* Status indicators */}
-      <div className="grid md:grid-cols-4 gap-3 text-sm">
-        <div className="flex items-center space-x-2 bg-gray-100 rounded-lg p-2">
-          <div className="w-3 h-3 bg-gray-500 rounded-full"></div>
-          <span>Pending</span>
-        </div>
-        <div className="flex items-center space-x-2 bg-blue-100 rounded-lg p-2">
-          <div className="w-3 h-3 bg-blue-500 rounded-full animate-pulse"></div>
-          <span>Calling</span>
-        </div>
-        <div className="flex items-center space-x-2 bg-green-100 rounded-lg p-2">
-          <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-          <span>Answered</span>
-        </div>
-        <div className="flex items-center space-x-2 bg-red-100 rounded-lg p-2">
-          <div className="w-3 h-3 bg-red-500 rounded-full"></div>
-          <span>Missed</span>
-        </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+        {(Object.keys(CALL_STATUS_META) as (keyof typeof CALL_STATUS_META)[]).map(status => (
+          <div key={status} className="flex items-center space-x-2 bg-gray-100 rounded-lg p-2">
+            <div className={`w-3 h-3 rounded-full ${CALL_STATUS_META[status].dotClass}`}></div>
+            <span>{CALL_STATUS_META[status].label}</span>
+          </div>
+        ))}
       </div>
 
       {/* System Status Message */}
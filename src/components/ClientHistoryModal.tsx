@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { X, History, Star, Calendar, MessageSquare, Plus, Trash2, Edit } from 'lucide-react';
-import { Employee, WorkHistory, Appointment, ClientFeedback } from '../types/Employee';
+import { X, History, Star, Calendar, MessageSquare, Plus, Trash2, Edit, Mic, MicOff, Upload } from 'lucide-react';
+import { Employee, WorkHistory, Appointment, ClientFeedback, CallLog, CallDisposition, DispositionCode, CallRecording } from '../types/Employee';
+import { CALL_STATUS_META } from '../lib/callOutcomes';
+import { CallRecordingPlayer } from './CallRecordingPlayer';
+import { DISPOSITION_COLORS, NEXT_ACTION_LABELS, buildDispositionCodeIndex, dispositionCodeLabel } from '../lib/dispositions';
 
 interface ClientHistoryModalProps {
   client: Employee;
@@ -11,6 +14,16 @@ interface ClientHistoryModalProps {
   workHistory: WorkHistory[];
   appointments: Appointment[];
   feedback: ClientFeedback[];
+  callLogs?: CallLog[];
+  dispositions?: CallDisposition[];
+  dispositionCodes?: DispositionCode[];
+  onScheduleCallback?: (callLog: CallLog) => void;
+  recordings?: CallRecording[];
+  recordingConsent?: boolean;
+  onRecordingConsentChange?: (consent: boolean) => Promise<void>;
+  onAttachRecording?: (callLog: CallLog, audio: File) => Promise<void>;
+  onDeleteRecording?: (recording: CallRecording) => Promise<void>;
+  onLoadRecordingUrl?: (recording: CallRecording) => Promise<string>;
 }
 
 export const ClientHistoryModal: React.FC<ClientHistoryModalProps> = ({
@@ -22,8 +35,20 @@ export const ClientHistoryModal: React.FC<ClientHistoryModalProps> = ({
   workHistory,
   appointments,
   feedback,
+  callLogs = [],
+  dispositions = [],
+  dispositionCodes = [],
+  onScheduleCallback,
+  recordings = [],
+  recordingConsent = false,
+  onRecordingConsentChange,
+  onAttachRecording,
+  onDeleteRecording,
+  onLoadRecordingUrl,
 }) => {
-  const [activeTab, setActiveTab] = useState<'history' | 'appointments' | 'feedback'>('history');
+  const dispositionCodeIndex = buildDispositionCodeIndex(dispositionCodes);
+  const [recordingError, setRecordingError] = useState('');
+  const [activeTab, setActiveTab] = useState<'history' | 'appointments' | 'feedback' | 'calls'>('history');
   const [showAddForm, setShowAddForm] = useState(false);
   const [formData, setFormData] = useState({
     workType: '',
@@ -36,6 +61,32 @@ export const ClientHistoryModal: React.FC<ClientHistoryModalProps> = ({
     feedbackText: '',
   });
 
+  const handleRecordingConsentChange = async (consent: boolean) => {
+    if (!onRecordingConsentChange) return;
+    setRecordingError('');
+    try {
+      await onRecordingConsentChange(consent);
+    } catch (error) {
+      setRecordingError(error instanceof Error ? error.message : 'Failed to update recording consent');
+    }
+  };
+
+  const handleAttachRecording = async (callLog: CallLog, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !onAttachRecording) return;
+    if (!file.type.startsWith('audio/')) {
+      setRecordingError(`${file.name} is not an audio file`);
+      return;
+    }
+    setRecordingError('');
+    try {
+      await onAttachRecording(callLog, file);
+    } catch (error) {
+      setRecordingError(error instanceof Error ? error.message : 'Failed to attach the recording');
+    }
+  };
+
   const handleAddWork = async () => {
     if (!formData.workType.trim()) return;
     
@@ -76,6 +127,12 @@ export const ClientHistoryModal: React.FC<ClientHistoryModalProps> = ({
     setShowAddForm(false);
   };
 
+  const formatDuration = (seconds: number) => {
+    const rounded = Math.round(seconds);
+    const minutes = Math.floor(rounded / 60);
+    return minutes > 0 ? `${minutes}m ${rounded % 60}s` : `${rounded}s`;
+  };
+
   const renderStars = (rating: number) => {
     return Array.from({ length: 5 }, (_, i) => (
       <Star
@@ -142,26 +199,38 @@ export const ClientHistoryModal: React.FC<ClientHistoryModalProps> = ({
             >
               Feedback ({feedback.length})
             </button>
+            <button
+              onClick={() => setActiveTab('calls')}
+              className={`py-4 px-2 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'calls'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              Calls ({callLogs.length})
+            </button>
           </div>
         </div>
 
         {/* Content */}
         <div className="p-6 overflow-y-auto max-h-96">
           {/* Add Button */}
-          <div className="mb-4">
-            <button
-              onClick={() => setShowAddForm(!showAddForm)}
-              className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
-            >
-              <Plus className="w-4 h-4" />
-              <span>
-                Add {activeTab === 'history' ? 'Work' : activeTab === 'appointments' ? 'Appointment' : 'Feedback'}
-              </span>
-            </button>
-          </div>
+          {activeTab !== 'calls' && (
+            <div className="mb-4">
+              <button
+                onClick={() => setShowAddForm(!showAddForm)}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                <span>
+                  Add {activeTab === 'history' ? 'Work' : activeTab === 'appointments' ? 'Appointment' : 'Feedback'}
+                </span>
+              </button>
+            </div>
+          )}
 
           {/* Add Forms */}
-          {showAddForm && (
+          {showAddForm && activeTab !== 'calls' && (
             <div className="mb-6 p-4 bg-gray-50 rounded-lg">
               {activeTab === 'history' && (
                 <div className="space-y-3">
@@ -355,6 +424,111 @@ export const ClientHistoryModal: React.FC<ClientHistoryModalProps> = ({
               )}
             </div>
           )}
+
+          {activeTab === 'calls' && (
+            <div className="space-y-3">
+              {onRecordingConsentChange && (
+                <label className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={recordingConsent}
+                    onChange={(e) => handleRecordingConsentChange(e.target.checked)}
+                    className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                  />
+                  {recordingConsent
+                    ? <Mic className="w-4 h-4 text-indigo-600" />
+                    : <MicOff className="w-4 h-4 text-gray-400" />}
+                  <span>
+                    {recordingConsent
+                      ? 'Client consents to call recording'
+                      : 'No recording consent - calls with this client are not recorded'}
+                  </span>
+                </label>
+              )}
+              {recordingError && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                  <p className="text-red-600 text-sm">{recordingError}</p>
+                </div>
+              )}
+              {callLogs.length > 0 ? (
+                callLogs.map((log) => {
+                  const disposition = dispositions.find(item => item.callLogId === log.id);
+                  const recording = recordings.find(item => item.callLogId === log.id);
+                  return (
+                    <div key={log.id} className="p-4 border rounded-lg bg-white">
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <h4 className="font-semibold text-gray-800">
+                            {new Date(log.startedAt).toLocaleString()}
+                          </h4>
+                          <div className="flex flex-wrap items-center gap-x-4 mt-2 text-xs text-gray-500">
+                            <span>{log.callMode === 'auto' ? `Auto call${log.roundNumber ? ` - Round ${log.roundNumber}` : ''}` : 'Manual call'}</span>
+                            <span>Ring: {formatDuration(log.ringDurationSeconds)}</span>
+                            <span>Talk: {formatDuration(log.talkDurationSeconds)}</span>
+                            {log.voicemailDropped && <span className="text-violet-700 font-medium">📼 Voicemail left</span>}
+                          </div>
+                          {log.notes && (
+                            <p className="text-gray-600 text-sm mt-1">{log.notes}</p>
+                          )}
+                          {disposition && (
+                            <div className="mt-2 p-2 bg-green-50 rounded text-sm text-gray-700">
+                              <div className="font-medium flex flex-wrap items-center gap-1">
+                                {disposition.outcomeCode && (
+                                  <span className={`w-2 h-2 rounded-full ${
+                                    DISPOSITION_COLORS[dispositionCodeIndex.get(disposition.outcomeCode)?.color || 'gray'].dotClass
+                                  }`} />
+                                )}
+                                {disposition.outcomeCode ? dispositionCodeLabel(disposition.outcomeCode, dispositionCodeIndex) : 'No outcome recorded'}
+                                <span className="text-gray-500 font-normal"> · {NEXT_ACTION_LABELS[disposition.nextAction]}</span>
+                                {disposition.autoDismissed && (
+                                  <span className="ml-2 text-xs text-yellow-700">(wrap-up timed out)</span>
+                                )}
+                              </div>
+                              {disposition.summary && <p className="mt-1">{disposition.summary}</p>}
+                            </div>
+                          )}
+                          {recording && onLoadRecordingUrl && (
+                            <CallRecordingPlayer
+                              recording={recording}
+                              onLoadUrl={onLoadRecordingUrl}
+                              onDelete={onDeleteRecording}
+                            />
+                          )}
+                        </div>
+                        <div className="flex flex-col items-end space-y-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${CALL_STATUS_META[log.outcome].softClass}`}>
+                            {CALL_STATUS_META[log.outcome].label}
+                          </span>
+                          {onScheduleCallback && (
+                            <button
+                              onClick={() => onScheduleCallback(log)}
+                              className="text-xs text-teal-600 hover:text-teal-800 font-medium"
+                            >
+                              Schedule callback
+                            </button>
+                          )}
+                          {!recording && recordingConsent && onAttachRecording && log.outcome === 'answered' && (
+                            <label className="flex items-center space-x-1 text-xs text-indigo-600 hover:text-indigo-800 font-medium cursor-pointer">
+                              <Upload className="w-3 h-3" />
+                              <span>Attach recording</span>
+                              <input
+                                type="file"
+                                accept="audio/*"
+                                onChange={(e) => handleAttachRecording(log, e)}
+                                className="hidden"
+                              />
+                            </label>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })
+              ) : (
+                <p className="text-gray-500 text-center py-8">No calls recorded</p>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,74 +1,74 @@
 import React, { useState } from 'react';
-import { UserPlus, Phone, Mail, User, Building, X, Check, MessageCircle, AlertTriangle } from 'lucide-react';
-import { Employee } from '../types/Employee';
+import { UserPlus, Phone, Mail, User, Building, Briefcase, X, Check, MessageCircle, AlertTriangle, Globe, Mic, Pencil } from 'lucide-react';
+import { ClientProfileUpdate, DispositionCode, Employee } from '../types/Employee';
+import { KNOWN_TIME_ZONES, getLocalTimeZone, inferTimeZoneFromPhone, isValidTimeZone } from '../lib/callingHours';
+import { DEFAULT_COUNTRY, getClientE164, normalizePhoneNumber } from '../lib/phoneNumbers';
+import { validateEmail } from '../lib/clientProfile';
+import { buildDispositionCodeIndex, getDefaultWorkStatus, listDispositionCodes } from '../lib/dispositions';
 
 interface ContactFormProps {
   employees: Employee[];
-  onAddContact: (contact: {
+  onAddContact?: (contact: {
     name: string;
     phoneNumber: string;
+    phoneE164: string;
     whatsappNumber?: string;
-    workStatus?: 'new' | 'in_progress' | 'completed' | 'repeat_client';
+    whatsappE164?: string;
+    email?: string;
+    position?: string;
+    department?: string;
+    workStatus?: string;
     isUrgent?: boolean;
+    timeZone?: string;
+    recordingConsent?: boolean;
   }) => Promise<boolean>;
+  employee?: Employee; // the form edits this client instead of adding one
+  onUpdateContact?: (employeeId: string, updates: ClientProfileUpdate) => Promise<Employee>;
   onClose: () => void;
+  dispositionCodes?: DispositionCode[]; // work status options come from the catalogue
+  defaultCountry?: string; // numbers typed without a country code are read in this country
 }
 
 export const ContactForm: React.FC<ContactFormProps> = ({
   employees,
   onAddContact,
+  employee,
+  onUpdateContact,
   onClose,
+  dispositionCodes = [],
+  defaultCountry = DEFAULT_COUNTRY,
 }) => {
+  const isEditing = !!employee;
+  const workStatusIndex = buildDispositionCodeIndex(dispositionCodes, 'work_status');
+  const defaultWorkStatus = getDefaultWorkStatus(workStatusIndex) || 'new';
   const [formData, setFormData] = useState({
-    name: '',
-    phoneNumber: '',
-    whatsappNumber: '',
-    workStatus: 'new' as 'new' | 'in_progress' | 'completed' | 'repeat_client',
-    isUrgent: false,
+    name: employee?.name || '',
+    phoneNumber: employee?.phoneNumber || '',
+    whatsappNumber: employee?.whatsappNumber || '',
+    email: employee?.email || '',
+    position: employee?.position || '',
+    department: employee?.department || '',
+    workStatus: employee?.workStatus || defaultWorkStatus,
+    isUrgent: employee?.isUrgent || false,
+    timeZone: employee?.timeZone || '',
+    recordingConsent: employee?.recordingConsent || false,
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
-
-  const validatePhoneNumber = (phone: string): boolean => {
-    // Supports formats: +1 (555) 123-4567, +1-555-123-4567, +15551234567, etc.
-    const phoneRegex = /^[\+]?[1-9][\d]{0,15}$|^[\+]?[(]?[\d\s\-\(\)]{10,20}$/;
-    const cleanPhone = phone.replace(/[\s\-\(\)]/g, '');
-    return phoneRegex.test(cleanPhone) && cleanPhone.length >= 10;
-  };
-
-  const validateEmail = (email: string): boolean => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-  };
-
-  const formatPhoneNumber = (phone: string): string => {
-    // Remove all non-digit characters except +
-    const cleaned = phone.replace(/[^\d+]/g, '');
-    
-    // If it starts with +1, format as +1 (XXX) XXX-XXXX
-    if (cleaned.startsWith('+1') && cleaned.length === 12) {
-      return `+1 (${cleaned.slice(2, 5)}) ${cleaned.slice(5, 8)}-${cleaned.slice(8)}`;
-    }
-    
-    // If it's 10 digits, assume US number and add +1
-    if (cleaned.length === 10) {
-      return `+1 (${cleaned.slice(0, 3)}) ${cleaned.slice(3, 6)}-${cleaned.slice(6)}`;
-    }
-    
-    // If it's 11 digits starting with 1, format as +1 (XXX) XXX-XXXX
-    if (cleaned.length === 11 && cleaned.startsWith('1')) {
-      return `+1 (${cleaned.slice(1, 4)}) ${cleaned.slice(4, 7)}-${cleaned.slice(7)}`;
-    }
-    
-    // Return as-is for international numbers
-    return phone;
-  };
+  const phonePreview = normalizePhoneNumber(formData.phoneNumber, defaultCountry);
+  // Numbers saved before they were validated are left as they are unless edited,
+  // so they never block changes to other fields
+  const phoneChanged = !employee || formData.phoneNumber.trim() !== employee.phoneNumber.trim();
+  const whatsappChanged = !employee || formData.whatsappNumber.trim() !== (employee.whatsappNumber || '').trim();
 
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
 
-    // Get the most up-to-date lists
-    const existingPhoneNumbers = employees.map(emp => emp.phoneNumber);
+    // Compare canonical numbers so the same number written differently is still caught
+    const existingPhoneNumbers = employees
+      .filter(emp => emp.id !== employee?.id)
+      .map(emp => getClientE164(emp, defaultCountry));
+    const phone = normalizePhoneNumber(formData.phoneNumber, defaultCountry);
 
     // Name validation
     if (!formData.name.trim()) {
@@ -76,12 +76,26 @@ export const ContactForm: React.FC<ContactFormProps> = ({
     }
 
     // Phone validation
-    if (!formData.phoneNumber.trim()) {
-      newErrors.phoneNumber = 'Phone number is required';
-    } else if (!validatePhoneNumber(formData.phoneNumber)) {
-      newErrors.phoneNumber = 'Please enter a valid phone number';
-    } else if (existingPhoneNumbers.includes(formatPhoneNumber(formData.phoneNumber))) {
-      newErrors.phoneNumber = 'This phone number already exists';
+    if (phoneChanged) {
+      if (!formData.phoneNumber.trim()) {
+        newErrors.phoneNumber = 'Phone number is required';
+      } else if (!phone) {
+        newErrors.phoneNumber = 'Please enter a valid phone number';
+      } else if (existingPhoneNumbers.includes(phone.e164)) {
+        newErrors.phoneNumber = 'This phone number already exists';
+      }
+    }
+
+    if (whatsappChanged && formData.whatsappNumber.trim() && !normalizePhoneNumber(formData.whatsappNumber, defaultCountry)) {
+      newErrors.whatsappNumber = 'Please enter a valid WhatsApp number';
+    }
+
+    if (formData.email.trim() && !validateEmail(formData.email.trim())) {
+      newErrors.email = 'Please enter a valid email address';
+    }
+
+    if (formData.timeZone.trim() && !isValidTimeZone(formData.timeZone.trim())) {
+      newErrors.timeZone = 'Unknown time zone - use a name like Europe/London';
     }
 
     setErrors(newErrors);
@@ -99,23 +113,47 @@ export const ContactForm: React.FC<ContactFormProps> = ({
     setErrors({}); // Clear any previous errors
     
     try {
-      const contactData = {
+      // Checked by validateForm whenever they changed; a new contact always counts as changed
+      const phone = normalizePhoneNumber(formData.phoneNumber, defaultCountry)!;
+      const whatsapp = formData.whatsappNumber.trim()
+        ? normalizePhoneNumber(formData.whatsappNumber, defaultCountry) ?? undefined
+        : undefined;
+      const profile: ClientProfileUpdate = {
         name: formData.name.trim(),
-        phoneNumber: formatPhoneNumber(formData.phoneNumber),
-        whatsappNumber: formData.whatsappNumber.trim() || undefined,
+        email: formData.email.trim(),
+        position: formData.position.trim(),
+        department: formData.department.trim(),
         workStatus: formData.workStatus,
         isUrgent: formData.isUrgent,
+        timeZone: formData.timeZone.trim() || undefined,
+        recordingConsent: formData.recordingConsent,
       };
+      if (whatsappChanged) {
+        profile.whatsappNumber = whatsapp?.display;
+        profile.whatsappE164 = whatsapp?.e164;
+      }
 
-      await onAddContact(contactData);
+      if (employee && onUpdateContact) {
+        await onUpdateContact(
+          employee.id,
+          phoneChanged ? { ...profile, phoneNumber: phone.display, phoneE164: phone.e164 } : profile
+        );
+      } else if (onAddContact) {
+        await onAddContact({ ...profile, name: formData.name.trim(), phoneNumber: phone.display, phoneE164: phone.e164 });
+      }
       
       // Reset form on success
       setFormData({
         name: '',
         phoneNumber: '',
         whatsappNumber: '',
-        workStatus: 'new',
+        email: '',
+        position: '',
+        department: '',
+        workStatus: defaultWorkStatus,
         isUrgent: false,
+        timeZone: '',
+        recordingConsent: false,
       });
       setErrors({});
       onClose();
@@ -144,9 +182,13 @@ export const ContactForm: React.FC<ContactFormProps> = ({
           <div className="flex items-center justify-between mb-6">
             <div className="flex items-center space-x-3">
               <div className="bg-indigo-100 p-2 rounded-full">
-                <UserPlus className="w-6 h-6 text-indigo-600" />
+                {isEditing ? (
+                  <Pencil className="w-6 h-6 text-indigo-600" />
+                ) : (
+                  <UserPlus className="w-6 h-6 text-indigo-600" />
+                )}
               </div>
-              <h2 className="text-2xl font-bold text-gray-800">Add New Contact</h2>
+              <h2 className="text-2xl font-bold text-gray-800">{isEditing ? 'Edit Contact' : 'Add New Contact'}</h2>
             </div>
             <button
               onClick={onClose}
@@ -191,13 +233,15 @@ export const ContactForm: React.FC<ContactFormProps> = ({
                 className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors ${
                   errors.phoneNumber ? 'border-red-500' : 'border-gray-300'
                 }`}
-                placeholder="+1 (555) 123-4567"
+                placeholder="+1 202 555 0143"
               />
               {errors.phoneNumber && (
                 <p className="text-red-500 text-sm mt-1">{errors.phoneNumber}</p>
               )}
               <p className="text-gray-500 text-xs mt-1">
-                Supports US and international formats
+                {phonePreview
+                  ? `Saved as ${phonePreview.display}`
+                  : `Numbers without a country code are read as ${defaultCountry} numbers`}
               </p>
             </div>
 
@@ -211,14 +255,69 @@ export const ContactForm: React.FC<ContactFormProps> = ({
                 type="tel"
                 value={formData.whatsappNumber}
                 onChange={(e) => handleInputChange('whatsappNumber', e.target.value)}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
-                placeholder="+1 (555) 123-4567"
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors ${
+                  errors.whatsappNumber ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder="+1 202 555 0143"
               />
+              {errors.whatsappNumber && (
+                <p className="text-red-500 text-sm mt-1">{errors.whatsappNumber}</p>
+              )}
               <p className="text-gray-500 text-xs mt-1">
                 For WhatsApp messaging (leave empty if same as phone)
               </p>
             </div>
 
+            {/* Email Field */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <Mail className="w-4 h-4 inline mr-2" />
+                Email (Optional)
+              </label>
+              <input
+                type="email"
+                value={formData.email}
+                onChange={(e) => handleInputChange('email', e.target.value)}
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors ${
+                  errors.email ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder="name@example.com"
+              />
+              {errors.email && (
+                <p className="text-red-500 text-sm mt-1">{errors.email}</p>
+              )}
+            </div>
+
+            {/* Position and Department Fields */}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Briefcase className="w-4 h-4 inline mr-2" />
+                  Position
+                </label>
+                <input
+                  type="text"
+                  value={formData.position}
+                  onChange={(e) => handleInputChange('position', e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                  placeholder="Optional"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Building className="w-4 h-4 inline mr-2" />
+                  Department
+                </label>
+                <input
+                  type="text"
+                  value={formData.department}
+                  onChange={(e) => handleInputChange('department', e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+
             {/* Work Status Field */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -230,13 +329,45 @@ export const ContactForm: React.FC<ContactFormProps> = ({
                 onChange={(e) => handleInputChange('workStatus', e.target.value)}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors"
               >
-                <option value="new">New Client</option>
-                <option value="in_progress">Work In Progress</option>
-                <option value="completed">Work Completed</option>
-                <option value="repeat_client">Repeat Client</option>
+                {/* A status since removed from the catalogue stays selectable so it is not lost */}
+                {!workStatusIndex.has(formData.workStatus) && (
+                  <option value={formData.workStatus}>{formData.workStatus}</option>
+                )}
+                {listDispositionCodes(workStatusIndex).map(status => (
+                  <option key={status.code} value={status.code}>{status.label}</option>
+                ))}
               </select>
             </div>
 
+            {/* Time Zone Field */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <Globe className="w-4 h-4 inline mr-2" />
+                Time Zone (Optional)
+              </label>
+              <input
+                type="text"
+                list="known-time-zones"
+                value={formData.timeZone}
+                onChange={(e) => handleInputChange('timeZone', e.target.value)}
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-colors ${
+                  errors.timeZone ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder={inferTimeZoneFromPhone(phonePreview?.e164 || formData.phoneNumber) || getLocalTimeZone()}
+              />
+              <datalist id="known-time-zones">
+                {KNOWN_TIME_ZONES.map(zone => (
+                  <option key={zone} value={zone} />
+                ))}
+              </datalist>
+              {errors.timeZone && (
+                <p className="text-red-500 text-sm mt-1">{errors.timeZone}</p>
+              )}
+              <p className="text-gray-500 text-xs mt-1">
+                Used for calling hours (leave empty to detect from the phone number)
+              </p>
+            </div>
+
             {/* Urgent Flag */}
             <div className="flex items-center space-x-3">
               <input
@@ -252,6 +383,21 @@ export const ContactForm: React.FC<ContactFormProps> = ({
               </label>
             </div>
 
+            {/* Recording Consent */}
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                id="recordingConsent"
+                checked={formData.recordingConsent}
+                onChange={(e) => handleInputChange('recordingConsent', e.target.checked)}
+                className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              />
+              <label htmlFor="recordingConsent" className="flex items-center text-sm font-medium text-gray-700">
+                <Mic className="w-4 h-4 mr-2 text-indigo-500" />
+                Client consents to call recording
+              </label>
+            </div>
+
             {/* Submit Error */}
             {errors.submit && (
               <div className="bg-red-50 border border-red-200 rounded-lg p-3">
@@ -276,12 +422,12 @@ export const ContactForm: React.FC<ContactFormProps> = ({
                 {isSubmitting ? (
                   <>
                     <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                    <span>Adding...</span>
+                    <span>{isEditing ? 'Saving...' : 'Adding...'}</span>
                   </>
                 ) : (
                   <>
                     <Check className="w-4 h-4" />
-                    <span>Add Contact</span>
+                    <span>{isEditing ? 'Save Changes' : 'Add Contact'}</span>
                   </>
                 )}
               </button>
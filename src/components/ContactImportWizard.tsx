@@ -0,0 +1,372 @@
+import React, { useState } from 'react';
+import { FileUp, X, Upload, AlertTriangle, CheckCircle, ArrowLeft } from 'lucide-react';
+import { ClientImportResult, DispositionCode, Employee, NewClient } from '../types/Employee';
+import { buildDispositionCodeIndex } from '../lib/dispositions';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRowResult,
+  ParsedImportFile,
+  guessColumnMapping,
+  parseImportFile,
+  validateImportRows,
+} from '../lib/contactImport';
+
+interface ContactImportWizardProps {
+  employees: Employee[];
+  onImport: (
+    contacts: NewClient[],
+    onProgress: (processed: number, total: number) => void
+  ) => Promise<ClientImportResult>;
+  onClose: () => void;
+  dispositionCodes?: DispositionCode[]; // work statuses in the file are matched against the catalogue
+  defaultCountry?: string;
+}
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done';
+
+const STEP_LABELS: Record<WizardStep, string> = {
+  upload: '1. Choose file',
+  map: '2. Map columns',
+  preview: '3. Review',
+  done: '4. Import',
+};
+
+// Rows shown in the preview table; validation still covers the whole file
+const PREVIEW_ROWS = 50;
+
+export const ContactImportWizard: React.FC<ContactImportWizardProps> = ({
+  employees,
+  onImport,
+  onClose,
+  dispositionCodes = [],
+  defaultCountry,
+}) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImportFile>({ headers: [], rows: [] });
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+  const [importResult, setImportResult] = useState<ClientImportResult | null>(null);
+  const [error, setError] = useState('');
+
+  const validRows = results.filter(result => result.errors.length === 0);
+  const invalidRows = results.filter(result => result.errors.length > 0);
+  const visibleRows = (showErrorsOnly ? invalidRows : results).slice(0, PREVIEW_ROWS);
+  const missingRequired = IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined);
+  const isImporting = progress !== null && importResult === null;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    try {
+      const contents = parseImportFile(file.name, await file.text());
+      if (contents.rows.length === 0) {
+        throw new Error(`No contacts found in ${file.name}`);
+      }
+      setFileName(file.name);
+      setParsed(contents);
+      setMapping(guessColumnMapping(contents.headers));
+      setStep('map');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleReview = () => {
+    setResults(validateImportRows(
+      parsed.rows,
+      mapping,
+      employees,
+      buildDispositionCodeIndex(dispositionCodes, 'work_status'),
+      defaultCountry
+    ));
+    setShowErrorsOnly(false);
+    setStep('preview');
+  };
+
+  const handleImport = async () => {
+    setError('');
+    setProgress({ processed: 0, total: validRows.length });
+    setStep('done');
+    try {
+      const result = await onImport(
+        validRows.map(row => row.contact),
+        (processed, total) => setProgress({ processed, total })
+      );
+      setImportResult(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed. Please try again.');
+      setProgress(null);
+      setStep('preview');
+    }
+  };
+
+  const sampleValue = (columnIndex: number) =>
+    parsed.rows.find(row => row[columnIndex])?.[columnIndex] || '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="bg-purple-100 p-2 rounded-full">
+                <FileUp className="w-6 h-6 text-purple-600" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-gray-800">Import Contacts</h2>
+                <p className="text-sm text-gray-600">
+                  {fileName ? `${fileName} · ${parsed.rows.length} rows` : 'CSV, TSV or vCard files'}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isImporting}
+              className="text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Steps */}
+          <div className="flex flex-wrap gap-2 mb-6 text-sm">
+            {(Object.keys(STEP_LABELS) as WizardStep[]).map(key => (
+              <span
+                key={key}
+                className={`px-3 py-1 rounded-full ${
+                  key === step ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-600'
+                }`}
+              >
+                {STEP_LABELS[key]}
+              </span>
+            ))}
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 rounded-lg text-sm bg-red-50 text-red-700">{error}</div>
+          )}
+
+          {step === 'upload' && (
+            <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+              <Upload className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-700 mb-1">Choose a file exported from a spreadsheet or address book</p>
+              <p className="text-sm text-gray-500 mb-4">
+                CSV and TSV files need a header row. vCard files (.vcf) may hold many contacts.
+              </p>
+              <label className="inline-flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg font-medium cursor-pointer">
+                <FileUp className="w-4 h-4" />
+                <span>Choose file</span>
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt,.vcf,text/csv,text/tab-separated-values,text/vcard"
+                  onChange={handleFile}
+                  className="hidden"
+                />
+              </label>
+            </div>
+          )}
+
+          {step === 'map' && (
+            <div>
+              <p className="text-sm text-gray-600 mb-4">
+                Pick the column that holds each field. Fields left unmapped get the usual defaults.
+              </p>
+              <div className="space-y-3">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="grid md:grid-cols-3 gap-3 items-center">
+                    <label className="text-sm font-medium text-gray-700">
+                      {label}{required && <span className="text-red-500"> *</span>}
+                    </label>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      className="px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                    >
+                      <option value="">Don't import</option>
+                      {parsed.headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                      ))}
+                    </select>
+                    <span className="text-sm text-gray-500 truncate">
+                      {mapping[field] !== undefined ? sampleValue(mapping[field] as number) : ''}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-red-600 mt-4">
+                  Map {missingRequired.map(({ label }) => label).join(' and ')} to continue
+                </p>
+              )}
+              <div className="flex justify-between mt-6">
+                <button
+                  onClick={() => setStep('upload')}
+                  className="flex items-center space-x-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  <span>Back</span>
+                </button>
+                <button
+                  onClick={handleReview}
+                  disabled={missingRequired.length > 0}
+                  className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-lg font-medium"
+                >
+                  Review contacts
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex items-center space-x-4 text-sm">
+                  <span className="flex items-center space-x-1 text-green-700">
+                    <CheckCircle className="w-4 h-4" />
+                    <span>{validRows.length} ready to import</span>
+                  </span>
+                  {invalidRows.length > 0 && (
+                    <span className="flex items-center space-x-1 text-red-600">
+                      <AlertTriangle className="w-4 h-4" />
+                      <span>{invalidRows.length} with problems (skipped)</span>
+                    </span>
+                  )}
+                </div>
+                {invalidRows.length > 0 && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={showErrorsOnly}
+                      onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                      className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                    />
+                    <span>Show problems only</span>
+                  </label>
+                )}
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Row</th>
+                      <th className="px-3 py-2 text-left">Name</th>
+                      <th className="px-3 py-2 text-left">Phone</th>
+                      <th className="px-3 py-2 text-left">Email</th>
+                      <th className="px-3 py-2 text-left">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map(({ rowNumber, contact, errors }) => (
+                      <tr key={rowNumber} className={`border-t border-gray-100 ${errors.length > 0 ? 'bg-red-50' : ''}`}>
+                        <td className="px-3 py-2 text-gray-500">{rowNumber}</td>
+                        <td className="px-3 py-2">{contact.name}</td>
+                        <td className="px-3 py-2">{contact.phoneNumber}</td>
+                        <td className="px-3 py-2">{contact.email || ''}</td>
+                        <td className="px-3 py-2">
+                          {errors.length > 0 ? (
+                            <ul className="text-red-600 text-xs space-y-0.5">
+                              {errors.map(message => <li key={message}>{message}</li>)}
+                            </ul>
+                          ) : (
+                            <span className="text-green-700 text-xs">OK</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {(showErrorsOnly ? invalidRows : results).length > PREVIEW_ROWS && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Showing the first {PREVIEW_ROWS} of {(showErrorsOnly ? invalidRows : results).length} rows
+                </p>
+              )}
+
+              <div className="flex justify-between mt-6">
+                <button
+                  onClick={() => setStep('map')}
+                  className="flex items-center space-x-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  <span>Back</span>
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={validRows.length === 0}
+                  className="px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-lg font-medium"
+                >
+                  Import {validRows.length} contacts
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && progress && (
+            <div>
+              <div className="mb-2 flex justify-between text-sm text-gray-600">
+                <span>{importResult ? 'Import finished' : 'Importing...'}</span>
+                <span>{progress.processed} / {progress.total}</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-3 mb-6">
+                <div
+                  className="bg-purple-600 h-3 rounded-full transition-all duration-300"
+                  style={{ width: `${progress.total > 0 ? (progress.processed / progress.total) * 100 : 100}%` }}
+                />
+              </div>
+
+              {importResult && (
+                <div className="space-y-3">
+                  <div className="p-3 rounded-lg text-sm bg-green-50 text-green-700">
+                    Added {importResult.added.length} contacts
+                    {importResult.skipped > 0 && ` · ${importResult.skipped} skipped as already in your contacts`}
+                    {invalidRows.length > 0 && ` · ${invalidRows.length} rows with problems not imported`}
+                  </div>
+                  {importResult.failed.length > 0 && (
+                    <div className="p-3 rounded-lg text-sm bg-red-50 text-red-700">
+                      <p className="font-medium mb-1">{importResult.failed.length} contacts could not be saved:</p>
+                      <ul className="space-y-0.5">
+                        {importResult.failed.map(({ contact, error: message }) => (
+                          <li key={contact.phoneNumber}>{contact.name} ({contact.phoneNumber}): {message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  <div className="flex justify-end">
+                    <button
+                      onClick={onClose}
+                      className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium"
+                    >
+                      Done
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,30 +1,64 @@
 import React, { useState } from 'react';
-import { UserPlus, Users, Search, Filter, Trash2, Edit } from 'lucide-react';
-import { Employee } from '../types/Employee';
+import { UserPlus, Users, Search, Filter, Trash2, Edit, ListPlus, X, FileUp, Download, GitMerge } from 'lucide-react';
+import { CallList, ClientImportResult, ClientMergeValues, ContactFilterType, DispositionCode, Employee, NewClient } from '../types/Employee';
+import { CALL_STATUS_META, MANUAL_CALL_OUTCOMES } from '../lib/callOutcomes';
+import { DISPOSITION_COLORS, buildDispositionCodeIndex, isWorkDone, listDispositionCodes } from '../lib/dispositions';
 import { ContactForm } from './ContactForm';
+import { ContactImportWizard } from './ContactImportWizard';
+import { DataExportModal } from './DataExportModal';
+import { DuplicateMergeModal } from './DuplicateMergeModal';
+import { ExportRecords } from '../lib/dataExport';
 
 interface ContactManagerProps {
   employees: Employee[];
   onAddContact: (contact: {
     name: string;
     phoneNumber: string;
+    phoneE164: string;
   }) => Promise<boolean>;
   onDeleteContact: (employeeId: string) => Promise<boolean>;
+  onImportContacts?: (
+    contacts: NewClient[],
+    onProgress: (processed: number, total: number) => void
+  ) => Promise<ClientImportResult>;
+  onLoadExportRecords?: (clientIds: string[]) => Promise<Omit<ExportRecords, 'clients'>>;
+  onMergeContacts?: (keepId: string, mergeIds: string[], values: ClientMergeValues) => Promise<Employee>;
   isAutoCallActive: boolean;
-  filterType?: 'all' | 'default' | 'custom' | 'completed' | 'answered' | 'missed' | 'pending' | 'urgent';
-  onFilterChange?: (filterType: 'all' | 'default' | 'custom' | 'completed' | 'answered' | 'missed' | 'pending' | 'urgent') => void;
+  filterType?: ContactFilterType;
+  onFilterChange?: (filterType: ContactFilterType) => void;
+  callLists?: CallList[];
+  onCreateCallList?: (name: string, description?: string) => Promise<CallList>;
+  onDeleteCallList?: (callListId: string) => Promise<void>;
+  onSetCallListMembership?: (callListId: string, clientId: string, isMember: boolean) => Promise<void>;
+  dispositionCodes?: DispositionCode[];
+  defaultCountry?: string;
 }
 
 export const ContactManager: React.FC<ContactManagerProps> = ({
   employees,
   onAddContact,
   onDeleteContact,
+  onImportContacts,
+  onLoadExportRecords,
+  onMergeContacts,
   isAutoCallActive,
   filterType = 'all',
   onFilterChange,
+  callLists = [],
+  onCreateCallList,
+  onDeleteCallList,
+  onSetCallListMembership,
+  dispositionCodes = [],
+  defaultCountry,
 }) => {
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [listFilterId, setListFilterId] = useState('all');
+  const [newListName, setNewListName] = useState('');
+  const [listError, setListError] = useState('');
 
   // Use external filter type or default to 'all'
   const currentFilterType = filterType;
@@ -32,12 +66,25 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
 
   const userAddedEmployees = employees.filter(emp => !emp.isDefault);
 
+  const listFilter = callLists.find(list => list.id === listFilterId);
+  const listsOf = (employeeId: string) => callLists.filter(list => list.clientIds.includes(employeeId));
+  const dispositionCodeIndex = buildDispositionCodeIndex(dispositionCodes);
+  const workStatusIndex = buildDispositionCodeIndex(dispositionCodes, 'work_status');
+
+  // Digits typed into the search also match numbers written another way
+  const searchDigits = searchTerm.replace(/\D/g, '');
+
   const filteredEmployees = employees.filter(emp => {
+    if (listFilter && !listFilter.clientIds.includes(emp.id)) {
+      return false;
+    }
+
     const matchesSearch = emp.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          emp.phoneNumber.includes(searchTerm) ||
-                         emp.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         emp.position.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         emp.department.toLowerCase().includes(searchTerm.toLowerCase());
+                         (searchDigits.length > 0 && (emp.phoneE164 || emp.phoneNumber).replace(/\D/g, '').includes(searchDigits)) ||
+                         (emp.email || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (emp.position || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (emp.department || '').toLowerCase().includes(searchTerm.toLowerCase());
 
     let matchesFilter = false;
     switch (currentFilterType) {
@@ -48,22 +95,19 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
         matchesFilter = !emp.isDefault;
         break;
       case 'completed':
-        matchesFilter = emp.workStatus === 'completed';
-        break;
-      case 'answered':
-        matchesFilter = emp.status === 'answered';
-        break;
-      case 'missed':
-        matchesFilter = emp.status === 'missed';
-        break;
-      case 'pending':
-        matchesFilter = emp.status === 'pending';
+        matchesFilter = isWorkDone(emp, workStatusIndex);
         break;
       case 'urgent':
         matchesFilter = emp.isUrgent === true;
         break;
-      default:
+      case 'default':
         matchesFilter = true;
+        break;
+      default:
+        // Every remaining filter is a disposition code or a call status
+        matchesFilter = currentFilterType.startsWith('disposition:')
+          ? emp.lastDispositionCode === currentFilterType.slice('disposition:'.length)
+          : emp.status === currentFilterType;
     }
 
     return matchesSearch && matchesFilter;
@@ -80,9 +124,53 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
     }
   };
 
+  const handleCreateList = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onCreateCallList) return;
+    if (!newListName.trim()) {
+      setListError('Please enter a list name');
+      return;
+    }
+    if (callLists.some(list => list.name.toLowerCase() === newListName.trim().toLowerCase())) {
+      setListError('A list with this name already exists');
+      return;
+    }
+    try {
+      await onCreateCallList(newListName);
+      setNewListName('');
+      setListError('');
+    } catch (error) {
+      setListError(error instanceof Error ? error.message : 'Failed to create list. Please try again.');
+    }
+  };
+
+  const handleDeleteList = async (callList: CallList) => {
+    if (!onDeleteCallList) return;
+    if (!window.confirm(`Delete the list "${callList.name}"? Its clients are kept.`)) return;
+    try {
+      await onDeleteCallList(callList.id);
+      if (listFilterId === callList.id) {
+        setListFilterId('all');
+      }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to delete list. Please try again.');
+    }
+  };
+
+  const handleMembershipChange = async (callListId: string, clientId: string, isMember: boolean) => {
+    if (!onSetCallListMembership) return;
+    try {
+      await onSetCallListMembership(callListId, clientId, isMember);
+    } catch (error) {
+      console.error('Failed to update list membership:', error);
+      alert('Failed to update the call list. Please try again.');
+    }
+  };
+
   const handleAddContact = async (contactData: {
     name: string;
     phoneNumber: string;
+    phoneE164: string;
   }) => {
     try {
       const success = await onAddContact(contactData);
@@ -112,14 +200,45 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
           </div>
         </div>
         
-        <button
-          onClick={() => setShowForm(true)}
-          disabled={isAutoCallActive}
-          className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-lg font-semibold flex items-center space-x-2 transition-all duration-300 shadow-lg hover:shadow-xl"
-        >
-          <UserPlus className="w-5 h-5" />
-          <span>Add Contact</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          {onMergeContacts && (
+            <button
+              onClick={() => setShowDuplicates(true)}
+              disabled={isAutoCallActive}
+              className="border border-purple-600 text-purple-700 hover:bg-purple-50 disabled:border-gray-400 disabled:text-gray-400 disabled:cursor-not-allowed px-6 py-3 rounded-lg font-semibold flex items-center space-x-2 transition-all duration-300"
+            >
+              <GitMerge className="w-5 h-5" />
+              <span>Duplicates</span>
+            </button>
+          )}
+          {onLoadExportRecords && (
+            <button
+              onClick={() => setShowExport(true)}
+              className="border border-purple-600 text-purple-700 hover:bg-purple-50 px-6 py-3 rounded-lg font-semibold flex items-center space-x-2 transition-all duration-300"
+            >
+              <Download className="w-5 h-5" />
+              <span>Export</span>
+            </button>
+          )}
+          {onImportContacts && (
+            <button
+              onClick={() => setShowImport(true)}
+              disabled={isAutoCallActive}
+              className="border border-purple-600 text-purple-700 hover:bg-purple-50 disabled:border-gray-400 disabled:text-gray-400 disabled:cursor-not-allowed px-6 py-3 rounded-lg font-semibold flex items-center space-x-2 transition-all duration-300"
+            >
+              <FileUp className="w-5 h-5" />
+              <span>Import</span>
+            </button>
+          )}
+          <button
+            onClick={() => setShowForm(true)}
+            disabled={isAutoCallActive}
+            className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-6 py-3 rounded-lg font-semibold flex items-center space-x-2 transition-all duration-300 shadow-lg hover:shadow-xl"
+          >
+            <UserPlus className="w-5 h-5" />
+            <span>Add Contact</span>
+          </button>
+        </div>
       </div>
 
       {/* Search and Filter */}
@@ -139,20 +258,91 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
           <Filter className="w-5 h-5 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
           <select
             value={currentFilterType}
-            onChange={(e) => handleFilterChange(e.target.value as 'all' | 'default' | 'custom' | 'completed' | 'answered' | 'missed' | 'pending' | 'urgent')}
+            onChange={(e) => handleFilterChange(e.target.value as ContactFilterType)}
             className="pl-10 pr-8 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 bg-white"
           >
             <option value="all">All Contacts</option>
             <option value="custom">Custom Contacts</option>
             <option value="completed">Completed Work</option>
-            <option value="answered">Answered Calls</option>
-            <option value="missed">Missed Calls</option>
             <option value="pending">Pending Calls</option>
+            {MANUAL_CALL_OUTCOMES.map(outcome => (
+              <option key={outcome} value={outcome}>
+                {CALL_STATUS_META[outcome].label} Calls
+              </option>
+            ))}
             <option value="urgent">Urgent Contacts</option>
+            {dispositionCodeIndex.size > 0 && (
+              <optgroup label="Last Disposition">
+                {listDispositionCodes(dispositionCodeIndex).map(code => (
+                  <option key={code.code} value={`disposition:${code.code}`}>{code.label}</option>
+                ))}
+              </optgroup>
+            )}
           </select>
         </div>
+
+        {callLists.length > 0 && (
+          <select
+            value={listFilterId}
+            onChange={(e) => setListFilterId(e.target.value)}
+            className="px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 bg-white"
+          >
+            <option value="all">All Lists</option>
+            {callLists.map(list => (
+              <option key={list.id} value={list.id}>{list.name}</option>
+            ))}
+          </select>
+        )}
       </div>
 
+      {/* Call Lists */}
+      {onCreateCallList && (
+        <div className="bg-gray-50 rounded-lg p-4 mb-6">
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <h3 className="font-semibold text-gray-800 md:mr-2">Call Lists</h3>
+            <div className="flex flex-wrap gap-2 flex-1">
+              {callLists.length === 0 && (
+                <span className="text-sm text-gray-500">No lists yet - auto calling dials every contact</span>
+              )}
+              {callLists.map(list => (
+                <span
+                  key={list.id}
+                  className="inline-flex items-center space-x-1 px-3 py-1 rounded-full text-sm bg-indigo-100 text-indigo-800"
+                >
+                  <span>{list.name} ({list.clientIds.length})</span>
+                  {onDeleteCallList && (
+                    <button
+                      onClick={() => handleDeleteList(list)}
+                      className="text-indigo-500 hover:text-red-600"
+                      title="Delete list"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+            <form onSubmit={handleCreateList} className="flex gap-2">
+              <input
+                type="text"
+                value={newListName}
+                onChange={(e) => setNewListName(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                placeholder="New list name"
+              />
+              <button
+                type="submit"
+                className="bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-2 rounded-lg text-sm font-medium flex items-center space-x-1 transition-colors"
+              >
+                <ListPlus className="w-4 h-4" />
+                <span>Create</span>
+              </button>
+            </form>
+          </div>
+          {listError && <p className="text-red-600 text-sm mt-2">{listError}</p>}
+        </div>
+      )}
+
       {/* Statistics */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
         <div className="bg-blue-50 rounded-lg p-4 text-center border border-blue-200">
@@ -190,14 +380,16 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
                     <span className="px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
                       Contact
                     </span>
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                      employee.status === 'answered' ? 'bg-green-100 text-green-800' :
-                      employee.status === 'missed' ? 'bg-red-100 text-red-800' :
-                      employee.status === 'calling' ? 'bg-blue-100 text-blue-800' :
-                      'bg-gray-100 text-gray-800'
-                    }`}>
-                      {employee.status}
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${CALL_STATUS_META[employee.status].softClass}`}>
+                      {CALL_STATUS_META[employee.status].label}
                     </span>
+                    {employee.lastDispositionCode && (
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        DISPOSITION_COLORS[dispositionCodeIndex.get(employee.lastDispositionCode)?.color || 'gray'].softClass
+                      }`}>
+                        {dispositionCodeIndex.get(employee.lastDispositionCode)?.label || employee.lastDispositionCode}
+                      </span>
+                    )}
                   </div>
                   
                   <div className="grid md:grid-cols-2 gap-2 text-sm text-gray-600">
@@ -205,6 +397,42 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
                     <div>👤 {employee.name}</div>
                   </div>
                   
+                  {callLists.length > 0 && (
+                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                      {listsOf(employee.id).map(list => (
+                        <span
+                          key={list.id}
+                          className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs bg-indigo-100 text-indigo-800"
+                        >
+                          <span>{list.name}</span>
+                          {onSetCallListMembership && (
+                            <button
+                              onClick={() => handleMembershipChange(list.id, employee.id, false)}
+                              className="text-indigo-500 hover:text-red-600"
+                              title={`Remove from ${list.name}`}
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                      {onSetCallListMembership && listsOf(employee.id).length < callLists.length && (
+                        <select
+                          value=""
+                          onChange={(e) => handleMembershipChange(e.target.value, employee.id, true)}
+                          className="px-2 py-0.5 border border-gray-300 rounded-lg text-xs bg-white"
+                        >
+                          <option value="">+ Add to list</option>
+                          {callLists
+                            .filter(list => !list.clientIds.includes(employee.id))
+                            .map(list => (
+                              <option key={list.id} value={list.id}>{list.name}</option>
+                            ))}
+                        </select>
+                      )}
+                    </div>
+                  )}
+
                   {employee.callAttempts > 0 && (
                     <div className="mt-2 text-xs text-gray-500">
                       Call attempts: {employee.callAttempts}
@@ -235,7 +463,7 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
         <div className="text-center py-8">
           <Users className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <p className="text-gray-500">
-            {searchTerm || filterType !== 'all' 
+            {searchTerm || filterType !== 'all' || listFilter
               ? 'No contacts match your search criteria' 
               : 'No contacts added yet. Click "Add Contact" to get started.'}
           </p>
@@ -248,6 +476,38 @@ export const ContactManager: React.FC<ContactManagerProps> = ({
           employees={employees}
           onAddContact={handleAddContact}
           onClose={() => setShowForm(false)}
+          dispositionCodes={dispositionCodes}
+          defaultCountry={defaultCountry}
+        />
+      )}
+
+      {/* Import Wizard Modal */}
+      {showImport && onImportContacts && (
+        <ContactImportWizard
+          employees={employees}
+          onImport={onImportContacts}
+          onClose={() => setShowImport(false)}
+          dispositionCodes={dispositionCodes}
+          defaultCountry={defaultCountry}
+        />
+      )}
+
+      {/* Export Modal */}
+      {showExport && onLoadExportRecords && (
+        <DataExportModal
+          employees={filteredEmployees}
+          onLoadRecords={onLoadExportRecords}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {/* Duplicate Finder Modal */}
+      {showDuplicates && onMergeContacts && (
+        <DuplicateMergeModal
+          employees={employees}
+          onMerge={onMergeContacts}
+          onClose={() => setShowDuplicates(false)}
+          defaultCountry={defaultCountry}
         />
       )}
     </div>
@@ -1,29 +1,221 @@
-import React from 'react';
-import { Play, Square, RotateCcw, Phone, Clock, Repeat, Target, Calendar } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Play, Pause, Square, RotateCcw, Phone, Clock, Repeat, Target, Calendar, Settings, Save, Moon, Ban, History, List, Tags, Gauge, Voicemail, Upload, Trash2 } from 'lucide-react';
+import { CallList, CallSession, CampaignSettings, DialingStrategy, RetryableOutcome, RetryRules } from '../types/Employee';
+import { MAX_CONCURRENT_CALLS, validateCampaignSettings } from '../lib/campaignSettings';
+import { DIALING_STRATEGIES } from '../lib/dialingStrategies';
+import { CALL_STATUS_META } from '../lib/callOutcomes';
+import { RETRYABLE_OUTCOMES } from '../lib/retryPolicy';
+import { COUNTRY_OPTIONS } from '../lib/phoneNumbers';
 
 interface ControlPanelProps {
   isAutoCallActive: boolean;
   onStartAutoCalling: () => void;
   onStopAutoCalling: () => void;
+  isPaused?: boolean;
+  onPauseAutoCalling?: () => void;
+  onResumeAutoCalling?: () => void;
   onResetSystem: () => void;
   hasEmployees: boolean;
   currentRound: number;
   currentEmployeeIndex: number;
   totalEmployees: number;
   onShowCalendar?: () => void;
+  onShowDoNotCall?: () => void;
+  onShowDispositionCodes?: () => void;
+  campaignSettings: CampaignSettings;
+  onSaveCampaignSettings: (settings: CampaignSettings) => Promise<void>;
+  onSetVoicemailDrop?: (audio: File | null) => Promise<void>;
+  onLoadVoicemailDropUrl?: (storagePath: string) => Promise<string>;
+  resumableSession?: CallSession | null;
+  onResumeSession?: () => void;
+  onDiscardSession?: () => void;
+  callLists?: CallList[];
+  selectedCallListId?: string | null;
+  onSelectCallList?: (callListId: string | null) => void;
 }
 
+type NumericSettingKey =
+  | 'ringTimeoutSeconds'
+  | 'interCallDelaySeconds'
+  | 'interRoundDelaySeconds'
+  | 'maxRounds'
+  | 'maxAttemptsPerContact'
+  | 'stopAfterAnswered'
+  | 'stopAfterMinutes'
+  | 'maxConcurrentCalls'
+  | 'wrapUpSeconds'
+  | 'recordingRetentionDays';
+
+type RetryRulesForm = Record<RetryableOutcome, { retry: boolean; delayMinutes: string; maxAttempts: string }>;
+
+type SettingsForm = Record<NumericSettingKey, string> &
+  Omit<CampaignSettings, NumericSettingKey | 'retryRules'> & { retryRules: RetryRulesForm };
+
+const toRetryRulesForm = (rules: RetryRules): RetryRulesForm =>
+  RETRYABLE_OUTCOMES.reduce((form, outcome) => ({
+    ...form,
+    [outcome]: {
+      retry: rules[outcome].retry,
+      delayMinutes: String(rules[outcome].delayMinutes),
+      maxAttempts: rules[outcome].maxAttempts?.toString() ?? '',
+    },
+  }), {} as RetryRulesForm);
+
+const toSettingsForm = (settings: CampaignSettings): SettingsForm => ({
+  ringTimeoutSeconds: String(settings.ringTimeoutSeconds),
+  interCallDelaySeconds: String(settings.interCallDelaySeconds),
+  interRoundDelaySeconds: String(settings.interRoundDelaySeconds),
+  maxRounds: settings.maxRounds?.toString() ?? '',
+  maxAttemptsPerContact: settings.maxAttemptsPerContact?.toString() ?? '',
+  stopAfterAnswered: settings.stopAfterAnswered?.toString() ?? '',
+  stopAfterMinutes: settings.stopAfterMinutes?.toString() ?? '',
+  maxConcurrentCalls: String(settings.maxConcurrentCalls),
+  wrapUpSeconds: String(settings.wrapUpSeconds),
+  recordingRetentionDays: settings.recordingRetentionDays?.toString() ?? '',
+  dialingStrategy: settings.dialingStrategy,
+  skipNotInterested: settings.skipNotInterested,
+  callingWindowStart: settings.callingWindowStart,
+  callingWindowEnd: settings.callingWindowEnd,
+  enforceCallingWindow: settings.enforceCallingWindow,
+  predictivePacing: settings.predictivePacing,
+  defaultCountry: settings.defaultCountry,
+  retryRules: toRetryRulesForm(settings.retryRules),
+});
+
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const SETTINGS_FIELDS: { key: NumericSettingKey; label: string; hint: string; step: string }[] = [
+  { key: 'ringTimeoutSeconds', label: 'Ring Timeout (s)', hint: 'Hang up unanswered calls after', step: '1' },
+  { key: 'interCallDelaySeconds', label: 'Delay Between Calls (s)', hint: 'Pause before dialing the next client', step: '0.5' },
+  { key: 'interRoundDelaySeconds', label: 'Delay Between Rounds (s)', hint: 'Pause before starting the next round', step: '0.5' },
+  { key: 'maxRounds', label: 'Max Rounds', hint: 'Leave empty for unlimited', step: '1' },
+  { key: 'maxAttemptsPerContact', label: 'Max Attempts Per Contact', hint: 'Leave empty for unlimited', step: '1' },
+  { key: 'stopAfterAnswered', label: 'Stop After Answered Calls', hint: 'Leave empty to keep going', step: '1' },
+  { key: 'stopAfterMinutes', label: 'Stop After Minutes', hint: 'Leave empty for no time limit', step: '1' },
+  { key: 'maxConcurrentCalls', label: 'Concurrent Calls', hint: `Calls ringing at once, 1-${MAX_CONCURRENT_CALLS}`, step: '1' },
+  { key: 'wrapUpSeconds', label: 'Wrap-Up Time (s)', hint: 'Time to fill in the call disposition; 0 waits for you', step: '1' },
+  { key: 'recordingRetentionDays', label: 'Keep Recordings (days)', hint: 'Leave empty to keep them forever', step: '1' },
+];
+
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   isAutoCallActive,
   onStartAutoCalling,
   onStopAutoCalling,
+  isPaused = false,
+  onPauseAutoCalling,
+  onResumeAutoCalling,
   onResetSystem,
   hasEmployees,
   currentRound,
   currentEmployeeIndex,
   totalEmployees,
   onShowCalendar,
+  onShowDoNotCall,
+  onShowDispositionCodes,
+  campaignSettings,
+  onSaveCampaignSettings,
+  onSetVoicemailDrop,
+  onLoadVoicemailDropUrl,
+  resumableSession,
+  onResumeSession,
+  onDiscardSession,
+  callLists = [],
+  selectedCallListId = null,
+  onSelectCallList,
 }) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const [settingsForm, setSettingsForm] = useState<SettingsForm>(toSettingsForm(campaignSettings));
+  const [settingsError, setSettingsError] = useState('');
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [voicemailDropUrl, setVoicemailDropUrl] = useState<string | null>(null);
+  const [voicemailDropError, setVoicemailDropError] = useState('');
+  const [isUpdatingVoicemailDrop, setIsUpdatingVoicemailDrop] = useState(false);
+
+  // Refresh the form once the saved settings have loaded
+  useEffect(() => {
+    setSettingsForm(toSettingsForm(campaignSettings));
+  }, [campaignSettings]);
+
+  useEffect(() => {
+    setVoicemailDropUrl(null);
+  }, [campaignSettings.voicemailDropPath]);
+
+  const handleVoicemailDropChange = async (audio: File | null) => {
+    if (!onSetVoicemailDrop) return;
+    setIsUpdatingVoicemailDrop(true);
+    setVoicemailDropError('');
+    try {
+      await onSetVoicemailDrop(audio);
+    } catch (error) {
+      setVoicemailDropError(error instanceof Error ? error.message : 'Failed to update the voicemail message');
+    } finally {
+      setIsUpdatingVoicemailDrop(false);
+    }
+  };
+
+  const handlePreviewVoicemailDrop = async () => {
+    if (!onLoadVoicemailDropUrl || !campaignSettings.voicemailDropPath) return;
+    setVoicemailDropError('');
+    try {
+      setVoicemailDropUrl(await onLoadVoicemailDropUrl(campaignSettings.voicemailDropPath));
+    } catch (error) {
+      setVoicemailDropError(error instanceof Error ? error.message : 'Failed to load the voicemail message');
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    const settings: CampaignSettings = {
+      ringTimeoutSeconds: Number(settingsForm.ringTimeoutSeconds),
+      interCallDelaySeconds: Number(settingsForm.interCallDelaySeconds),
+      interRoundDelaySeconds: Number(settingsForm.interRoundDelaySeconds),
+      maxRounds: optionalNumber(settingsForm.maxRounds),
+      maxAttemptsPerContact: optionalNumber(settingsForm.maxAttemptsPerContact),
+      stopAfterAnswered: optionalNumber(settingsForm.stopAfterAnswered),
+      stopAfterMinutes: optionalNumber(settingsForm.stopAfterMinutes),
+      dialingStrategy: settingsForm.dialingStrategy,
+      skipNotInterested: settingsForm.skipNotInterested,
+      callingWindowStart: settingsForm.callingWindowStart,
+      callingWindowEnd: settingsForm.callingWindowEnd,
+      enforceCallingWindow: settingsForm.enforceCallingWindow,
+      maxConcurrentCalls: Number(settingsForm.maxConcurrentCalls),
+      predictivePacing: settingsForm.predictivePacing,
+      wrapUpSeconds: Number(settingsForm.wrapUpSeconds),
+      recordingRetentionDays: optionalNumber(settingsForm.recordingRetentionDays),
+      // Uploaded and removed on its own, straight away
+      voicemailDropPath: campaignSettings.voicemailDropPath,
+      defaultCountry: settingsForm.defaultCountry,
+      retryRules: RETRYABLE_OUTCOMES.reduce((rules, outcome) => ({
+        ...rules,
+        [outcome]: {
+          retry: settingsForm.retryRules[outcome].retry,
+          delayMinutes: Number(settingsForm.retryRules[outcome].delayMinutes),
+          maxAttempts: optionalNumber(settingsForm.retryRules[outcome].maxAttempts),
+        },
+      }), {} as RetryRules),
+    };
+
+    const validationError = validateCampaignSettings(settings);
+    if (validationError) {
+      setSettingsError(validationError);
+      return;
+    }
+
+    setIsSavingSettings(true);
+    setSettingsError('');
+    try {
+      await onSaveCampaignSettings(settings);
+      setShowSettings(false);
+    } catch (error) {
+      setSettingsError(error instanceof Error ? error.message : 'Failed to save settings. Please try again.');
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const resumableListName = resumableSession?.callListId
+    ? callLists.find(list => list.id === resumableSession.callListId)?.name
+    : undefined;
+
   return (
     <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
       <h2 className="text-xl font-bold text-gray-800 mb-4 flex items-center space-x-2">
@@ -31,6 +223,69 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         <span>Auto Call Controls</span>
       </h2>
       
+      {/* Interrupted session */}
+      {resumableSession && !isAutoCallActive && (
+        <div className="mb-6 p-4 bg-amber-50 border-l-4 border-amber-500 rounded-lg flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-start space-x-3">
+            <History className="w-6 h-6 text-amber-600 mt-0.5" />
+            <div>
+              <div className="font-semibold text-amber-900">Unfinished auto-call session</div>
+              <div className="text-sm text-amber-800">
+                Round {resumableSession.currentRound}, client {Math.min(resumableSession.position + 1, resumableSession.queue.length)} of {resumableSession.queue.length} ·
+                {resumableListName && <>list "{resumableListName}" · </>}
+                started {resumableSession.startedAt.toLocaleString()} · last saved {resumableSession.updatedAt.toLocaleTimeString()}
+              </div>
+            </div>
+          </div>
+          <div className="flex space-x-3">
+            {onResumeSession && (
+              <button
+                onClick={onResumeSession}
+                disabled={!hasEmployees}
+                className="bg-amber-500 hover:bg-amber-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-semibold flex items-center space-x-2 transition-colors"
+              >
+                <Play className="w-4 h-4" />
+                <span>Resume Session</span>
+              </button>
+            )}
+            {onDiscardSession && (
+              <button
+                onClick={onDiscardSession}
+                className="px-4 py-2 border border-amber-300 text-amber-800 rounded-lg hover:bg-amber-100 transition-colors font-medium"
+              >
+                Discard
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Call list to dial */}
+      {onSelectCallList && (
+        <div className="mb-6 flex flex-col md:flex-row md:items-center gap-2">
+          <label className="text-sm font-medium text-gray-700 flex items-center space-x-2">
+            <List className="w-4 h-4 text-indigo-600" />
+            <span>Call List</span>
+          </label>
+          <select
+            value={selectedCallListId ?? ''}
+            onChange={(e) => onSelectCallList(e.target.value || null)}
+            disabled={isAutoCallActive}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white disabled:bg-gray-100 disabled:cursor-not-allowed"
+          >
+            <option value="">All clients</option>
+            {callLists.map(list => (
+              <option key={list.id} value={list.id}>
+                {list.name} ({list.clientIds.length})
+              </option>
+            ))}
+          </select>
+          {callLists.length === 0 && (
+            <span className="text-xs text-gray-500">Create lists under Contact Management to dial a subset of clients</span>
+          )}
+        </div>
+      )}
+
       {/* Control buttons */}
       <div className="flex flex-wrap gap-4 mb-6">
         {!isAutoCallActive ? (
@@ -51,6 +306,26 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <span>Stop Auto Call</span>
           </button>
         )}
+
+        {isAutoCallActive && (isPaused ? onResumeAutoCalling && (
+          <button
+            onClick={onResumeAutoCalling}
+            className="bg-green-500 hover:bg-green-600 text-white px-8 py-4 rounded-lg font-semibold flex items-center space-x-3 transition-all duration-300 shadow-lg hover:shadow-xl"
+            title="Resume auto calling (P)"
+          >
+            <Play className="w-6 h-6" />
+            <span>Resume</span>
+          </button>
+        ) : onPauseAutoCalling && (
+          <button
+            onClick={onPauseAutoCalling}
+            className="bg-yellow-500 hover:bg-yellow-600 text-white px-8 py-4 rounded-lg font-semibold flex items-center space-x-3 transition-all duration-300 shadow-lg hover:shadow-xl"
+            title="Pause after the current call (P)"
+          >
+            <Pause className="w-6 h-6" />
+            <span>Pause</span>
+          </button>
+        ))}
         
         <button
           onClick={onResetSystem}
@@ -70,16 +345,300 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <span>View Calendar</span>
           </button>
         )}
+
+        {onShowDoNotCall && (
+          <button
+            onClick={onShowDoNotCall}
+            className="bg-red-700 hover:bg-red-800 text-white px-8 py-4 rounded-lg font-semibold flex items-center space-x-3 transition-all duration-300 shadow-lg hover:shadow-xl"
+          >
+            <Ban className="w-6 h-6" />
+            <span>Do-Not-Call List</span>
+          </button>
+        )}
+
+        {onShowDispositionCodes && (
+          <button
+            onClick={onShowDispositionCodes}
+            className="bg-teal-600 hover:bg-teal-700 text-white px-8 py-4 rounded-lg font-semibold flex items-center space-x-3 transition-all duration-300 shadow-lg hover:shadow-xl"
+          >
+            <Tags className="w-6 h-6" />
+            <span>Disposition Codes</span>
+          </button>
+        )}
+
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          disabled={isAutoCallActive}
+          className="bg-indigo-500 hover:bg-indigo-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-8 py-4 rounded-lg font-semibold flex items-center space-x-3 transition-all duration-300 shadow-lg hover:shadow-xl"
+        >
+          <Settings className="w-6 h-6" />
+          <span>Campaign Settings</span>
+        </button>
       </div>
 
+      {/* Campaign settings editor */}
+      {showSettings && !isAutoCallActive && (
+        <div className="mb-6 p-6 bg-indigo-50 border border-indigo-200 rounded-lg">
+          <h3 className="font-semibold text-indigo-900 mb-4 flex items-center space-x-2">
+            <Settings className="w-5 h-5" />
+            <span>Campaign Settings</span>
+          </h3>
+          <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {SETTINGS_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step={field.step}
+                  value={settingsForm[field.key]}
+                  onChange={(e) => setSettingsForm(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">{field.hint}</p>
+              </div>
+            ))}
+          </div>
+          <div className="grid md:grid-cols-2 gap-4 mt-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Dialing Order</label>
+              <select
+                value={settingsForm.dialingStrategy}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, dialingStrategy: e.target.value as DialingStrategy }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white"
+              >
+                {DIALING_STRATEGIES.map(strategy => (
+                  <option key={strategy.value} value={strategy.value}>{strategy.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {DIALING_STRATEGIES.find(strategy => strategy.value === settingsForm.dialingStrategy)?.description}
+              </p>
+            </div>
+            <div className="flex items-center space-x-3 md:mt-6">
+              <input
+                type="checkbox"
+                id="skipNotInterested"
+                checked={settingsForm.skipNotInterested}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, skipNotInterested: e.target.checked }))}
+                className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              />
+              <label htmlFor="skipNotInterested" className="text-sm font-medium text-gray-700">
+                Skip "Not Interested" clients when auto calling
+              </label>
+            </div>
+          </div>
+          <div className="grid md:grid-cols-3 gap-4 mt-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Calling Hours From</label>
+              <input
+                type="time"
+                value={settingsForm.callingWindowStart}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, callingWindowStart: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">In each client's local time</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Calling Hours Until</label>
+              <input
+                type="time"
+                value={settingsForm.callingWindowEnd}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, callingWindowEnd: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">Time zone comes from the client or their country code</p>
+            </div>
+            <div className="flex items-center space-x-3 md:mt-6">
+              <input
+                type="checkbox"
+                id="enforceCallingWindow"
+                checked={settingsForm.enforceCallingWindow}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, enforceCallingWindow: e.target.checked }))}
+                className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              />
+              <label htmlFor="enforceCallingWindow" className="text-sm font-medium text-gray-700">
+                Only call clients within calling hours
+              </label>
+            </div>
+          </div>
+          <div className="grid md:grid-cols-3 gap-4 mt-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Default Country</label>
+              <select
+                value={settingsForm.defaultCountry}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, defaultCountry: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                {COUNTRY_OPTIONS.map(option => (
+                  <option key={option.code} value={option.code}>{option.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Phone numbers entered without a country code are read as numbers here</p>
+            </div>
+          </div>
+          <div className="flex items-start space-x-3 mt-4">
+            <input
+              type="checkbox"
+              id="predictivePacing"
+              checked={settingsForm.predictivePacing}
+              onChange={(e) => setSettingsForm(prev => ({ ...prev, predictivePacing: e.target.checked }))}
+              className="w-4 h-4 mt-0.5 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+            />
+            <label htmlFor="predictivePacing" className="text-sm font-medium text-gray-700">
+              Predictive pacing
+              <span className="block text-xs font-normal text-gray-500">
+                Dial more lines when few calls are answered and fewer when many are, up to the concurrent
+                calls limit, and hold new dials while you are talking to someone
+              </span>
+            </label>
+          </div>
+          {onSetVoicemailDrop && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Voicemail Drop</label>
+              <div className="bg-white border border-gray-200 rounded-lg p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <Voicemail className="w-4 h-4 text-violet-600" />
+                  <span className="text-gray-700">
+                    {campaignSettings.voicemailDropPath
+                      ? 'This message is left when an answering machine picks up'
+                      : 'No message - answering machines are hung up on'}
+                  </span>
+                  {campaignSettings.voicemailDropPath && !voicemailDropUrl && onLoadVoicemailDropUrl && (
+                    <button
+                      type="button"
+                      onClick={handlePreviewVoicemailDrop}
+                      className="flex items-center space-x-1 text-indigo-600 hover:text-indigo-800 font-medium"
+                    >
+                      <Play className="w-4 h-4" />
+                      <span>Listen</span>
+                    </button>
+                  )}
+                  <label className={`flex items-center space-x-1 text-indigo-600 hover:text-indigo-800 font-medium ${isUpdatingVoicemailDrop ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                    <Upload className="w-4 h-4" />
+                    <span>{isUpdatingVoicemailDrop ? 'Saving...' : campaignSettings.voicemailDropPath ? 'Replace' : 'Upload message'}</span>
+                    <input
+                      type="file"
+                      accept="audio/*"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) handleVoicemailDropChange(file);
+                      }}
+                      className="hidden"
+                    />
+                  </label>
+                  {campaignSettings.voicemailDropPath && (
+                    <button
+                      type="button"
+                      onClick={() => handleVoicemailDropChange(null)}
+                      disabled={isUpdatingVoicemailDrop}
+                      className="flex items-center space-x-1 text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span>Remove</span>
+                    </button>
+                  )}
+                </div>
+                {voicemailDropUrl && (
+                  <audio controls autoPlay src={voicemailDropUrl} className="h-8 w-full">
+                    Your browser cannot play this message.
+                  </audio>
+                )}
+                {voicemailDropError && <p className="text-xs text-red-600">{voicemailDropError}</p>}
+              </div>
+            </div>
+          )}
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Retry Rules</label>
+            <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {RETRYABLE_OUTCOMES.map(outcome => {
+                const rule = settingsForm.retryRules[outcome];
+                const setRule = (changes: Partial<RetryRulesForm[RetryableOutcome]>) =>
+                  setSettingsForm(prev => ({
+                    ...prev,
+                    retryRules: { ...prev.retryRules, [outcome]: { ...prev.retryRules[outcome], ...changes } },
+                  }));
+                return (
+                  <div key={outcome} className="grid grid-cols-2 md:grid-cols-4 gap-3 items-center px-3 py-2 text-sm">
+                    <span className={`justify-self-start px-2 py-1 rounded-full text-xs font-medium ${CALL_STATUS_META[outcome].softClass}`}>
+                      {CALL_STATUS_META[outcome].label}
+                    </span>
+                    <label className="flex items-center space-x-2 text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={rule.retry}
+                        onChange={(e) => setRule({ retry: e.target.checked })}
+                        className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                      />
+                      <span>Retry</span>
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={rule.delayMinutes}
+                      disabled={!rule.retry}
+                      onChange={(e) => setRule({ delayMinutes: e.target.value })}
+                      className="px-3 py-1 border border-gray-300 rounded-lg disabled:bg-gray-100 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      title="Minutes to wait after the attempt"
+                      placeholder="Wait (min)"
+                    />
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={rule.maxAttempts}
+                      disabled={!rule.retry}
+                      onChange={(e) => setRule({ maxAttempts: e.target.value })}
+                      className="px-3 py-1 border border-gray-300 rounded-lg disabled:bg-gray-100 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      title="Stop retrying after this many attempts; leave empty for unlimited"
+                      placeholder="Max attempts"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Minutes to wait after each outcome before the client is dialed again, and the attempt limit. Wrong and disconnected numbers are never retried.
+            </p>
+          </div>
+          {settingsError && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{settingsError}</p>
+            </div>
+          )}
+          <div className="flex space-x-3 mt-4">
+            <button
+              onClick={() => {
+                setSettingsForm(toSettingsForm(campaignSettings));
+                setSettingsError('');
+                setShowSettings(false);
+              }}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSaveSettings}
+              disabled={isSavingSettings}
+              className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+            >
+              <Save className="w-4 h-4" />
+              <span>{isSavingSettings ? 'Saving...' : 'Save Settings'}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* System status information */}
       <div className="space-y-4">
         {isAutoCallActive && (
           <div className="p-6 bg-gradient-to-r from-blue-50 to-indigo-50 border-l-4 border-blue-500 rounded-lg shadow-sm">
             <div className="flex items-center space-x-3 mb-4">
-              <div className="w-4 h-4 bg-blue-500 rounded-full animate-pulse"></div>
+              <div className={`w-4 h-4 rounded-full ${isPaused ? 'bg-yellow-500' : 'bg-blue-500 animate-pulse'}`}></div>
               <span className="text-blue-900 font-bold text-lg">
-                🔄 Auto Calling Active - Round {currentRound}
+                {isPaused ? '⏸️ Auto Calling Paused' : '🔄 Auto Calling Active'} - Round {currentRound}{campaignSettings.maxRounds ? ` of ${campaignSettings.maxRounds}` : ''}
               </span>
             </div>
             
@@ -92,8 +651,34 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               </div>
               <div className="flex items-center space-x-2 text-blue-800">
                 <Clock className="w-5 h-5" />
-                <span className="font-medium">⏱️ 10-Second Timeout Per Call</span>
+                <span className="font-medium">⏱️ {campaignSettings.ringTimeoutSeconds}-Second Timeout Per Call</span>
               </div>
+              <div className="flex items-center space-x-2 text-blue-800">
+                <Repeat className="w-5 h-5" />
+                <span className="font-medium">
+                  Dialing Order: {DIALING_STRATEGIES.find(strategy => strategy.value === campaignSettings.dialingStrategy)?.label}
+                </span>
+              </div>
+              {campaignSettings.enforceCallingWindow && (
+                <div className="flex items-center space-x-2 text-blue-800">
+                  <Moon className="w-5 h-5" />
+                  <span className="font-medium">
+                    Calling Hours: {campaignSettings.callingWindowStart}-{campaignSettings.callingWindowEnd} client time
+                  </span>
+                </div>
+              )}
+              {campaignSettings.maxConcurrentCalls > 1 && (
+                <div className="flex items-center space-x-2 text-blue-800">
+                  <Phone className="w-5 h-5" />
+                  <span className="font-medium">Parallel Dialing: up to {campaignSettings.maxConcurrentCalls} calls at once</span>
+                </div>
+              )}
+              {campaignSettings.predictivePacing && (
+                <div className="flex items-center space-x-2 text-blue-800">
+                  <Gauge className="w-5 h-5" />
+                  <span className="font-medium">Predictive Pacing: lines follow the answer rate</span>
+                </div>
+              )}
             </div>
             
             <div className="bg-blue-100 p-4 rounded-lg">
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { Download, X, ChevronDown, ChevronRight } from 'lucide-react';
+import { Employee } from '../types/Employee';
+import {
+  EXPORT_COLUMNS,
+  EXPORT_DATASETS,
+  EXPORT_DATE_FORMATS,
+  EXPORT_FORMATS,
+  ExportDataset,
+  ExportDateFormat,
+  ExportFormat,
+  ExportRecords,
+  allExportColumns,
+  buildExportFiles,
+  buildExportTables,
+} from '../lib/dataExport';
+
+interface DataExportModalProps {
+  employees: Employee[]; // the clients currently shown in the contact list
+  onLoadRecords: (clientIds: string[]) => Promise<Omit<ExportRecords, 'clients'>>;
+  onClose: () => void;
+}
+
+const downloadFile = (fileName: string, mimeType: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Released on the next tick so the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const DataExportModal: React.FC<DataExportModalProps> = ({
+  employees,
+  onLoadRecords,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [dateFormat, setDateFormat] = useState<ExportDateFormat>('local');
+  const [columns, setColumns] = useState<Record<ExportDataset, string[]>>(() => ({
+    ...allExportColumns(),
+    callLogs: [],
+    workHistory: [],
+    appointments: [],
+    feedback: [],
+  }));
+  const [expanded, setExpanded] = useState<ExportDataset | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const selectedDatasets = EXPORT_DATASETS.filter(({ dataset }) => columns[dataset].length > 0);
+
+  const toggleDataset = (dataset: ExportDataset, include: boolean) => {
+    setColumns(prev => ({ ...prev, [dataset]: include ? allExportColumns()[dataset] : [] }));
+  };
+
+  const toggleColumn = (dataset: ExportDataset, key: string, include: boolean) => {
+    setColumns(prev => ({
+      ...prev,
+      // Keep the column order of EXPORT_COLUMNS whatever order they were ticked in
+      [dataset]: allExportColumns()[dataset].filter(column =>
+        column === key ? include : prev[dataset].includes(column)
+      ),
+    }));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const needsHistory = selectedDatasets.some(({ dataset }) => dataset !== 'clients');
+      const history = needsHistory
+        ? await onLoadRecords(employees.map(employee => employee.id))
+        : { callLogs: [], workHistory: [], appointments: [], feedback: [] };
+      const options = { format, dateFormat, columns };
+      const tables = buildExportTables({ clients: employees, ...history }, options);
+      const today = new Date();
+      const stamp = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+      const files = buildExportFiles(tables, options, `clients-export-${stamp}`);
+      files.forEach(file => downloadFile(file.fileName, file.mimeType, file.content));
+      const rowCount = tables.reduce((sum, table) => sum + table.rows.length, 0);
+      setMessage({ type: 'success', text: `Exported ${rowCount} rows in ${files.length} ${files.length === 1 ? 'file' : 'files'}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Export failed. Please try again.' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="bg-purple-100 p-2 rounded-full">
+                <Download className="w-6 h-6 text-purple-600" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-gray-800">Export Data</h2>
+                <p className="text-sm text-gray-600">
+                  {employees.length} {employees.length === 1 ? 'client' : 'clients'} from the current search and filters
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {message && (
+            <div className={`mb-4 p-3 rounded-lg text-sm ${
+              message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          {/* Datasets and columns */}
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">What to export</h3>
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 mb-6">
+            {EXPORT_DATASETS.map(({ dataset, label }) => {
+              const available = EXPORT_COLUMNS[dataset];
+              const chosen = columns[dataset];
+              return (
+                <div key={dataset} className="p-3">
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center space-x-2 text-sm font-medium text-gray-800">
+                      <input
+                        type="checkbox"
+                        checked={chosen.length > 0}
+                        onChange={(e) => toggleDataset(dataset, e.target.checked)}
+                        className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                      />
+                      <span>{label}</span>
+                    </label>
+                    <button
+                      onClick={() => setExpanded(expanded === dataset ? null : dataset)}
+                      className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      <span>{chosen.length} of {available.length} columns</span>
+                      {expanded === dataset ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </button>
+                  </div>
+                  {expanded === dataset && (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-3 pl-6">
+                      {available.map(column => (
+                        <label key={column.key} className="flex items-center space-x-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={chosen.includes(column.key)}
+                            onChange={(e) => toggleColumn(dataset, column.key, e.target.checked)}
+                            className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                          />
+                          <span>{column.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Format */}
+          <div className="grid md:grid-cols-2 gap-4 mb-6">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Format</h3>
+              <div className="flex space-x-2">
+                {EXPORT_FORMATS.map(option => (
+                  <button
+                    key={option.format}
+                    onClick={() => setFormat(option.format)}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium border ${
+                      format === option.format
+                        ? 'bg-purple-600 border-purple-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {format === 'csv' && selectedDatasets.length > 1 && (
+                <p className="text-xs text-gray-500 mt-2">CSV writes one file per dataset</p>
+              )}
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Dates</h3>
+              <select
+                value={dateFormat}
+                onChange={(e) => setDateFormat(e.target.value as ExportDateFormat)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+              >
+                {EXPORT_DATE_FORMATS.map(option => (
+                  <option key={option.dateFormat} value={option.dateFormat}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isExporting || selectedDatasets.length === 0 || employees.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-lg font-medium"
+            >
+              <Download className="w-4 h-4" />
+              <span>{isExporting ? 'Exporting...' : 'Export'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
 import React from 'react';
-import { X, Users, CheckCircle, XCircle, Clock, RotateCcw, Phone, Calendar, AlertTriangle, Star } from 'lucide-react';
-import { Employee } from '../types/Employee';
+import { X, Users, CheckCircle, XCircle, Clock, RotateCcw, Phone, Calendar, AlertTriangle, Star, Moon, Hourglass } from 'lucide-react';
+import { DeferredContact, DispositionCode, Employee, RetryRules } from '../types/Employee';
+import { CALL_STATUS_META } from '../lib/callOutcomes';
+import { formatTimeInZone } from '../lib/callingHours';
+import { DEFAULT_RETRY_RULES, RetryEligibility, getRetryEligibility } from '../lib/retryPolicy';
+import { buildDispositionCodeIndex, dispositionCodeLabel, isWorkDone } from '../lib/dispositions';
 
 interface DetailModalProps {
   isOpen: boolean;
@@ -11,6 +15,9 @@ interface DetailModalProps {
   stats: any;
   currentEmployeeIndex?: number;
   isAutoCallActive?: boolean;
+  deferredContacts?: DeferredContact[];
+  retryRules?: RetryRules;
+  dispositionCodes?: DispositionCode[];
 }
 
 export const DetailModal: React.FC<DetailModalProps> = ({
@@ -22,9 +29,35 @@ export const DetailModal: React.FC<DetailModalProps> = ({
   stats,
   currentEmployeeIndex = 0,
   isAutoCallActive = false,
+  deferredContacts = [],
+  retryRules = DEFAULT_RETRY_RULES,
+  dispositionCodes = [],
 }) => {
   if (!isOpen) return null;
 
+  const now = new Date();
+  const priorityIndex = buildDispositionCodeIndex(dispositionCodes, 'priority');
+  const workStatusIndex = buildDispositionCodeIndex(dispositionCodes, 'work_status');
+  const eligibilityText = (eligibility: RetryEligibility) =>
+    eligibility.eligible
+      ? ''
+      : eligibility.eligibleAt
+        ? `Eligible ${eligibility.eligibleAt.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}`
+        : eligibility.reason;
+
+  // Unreached clients the retry rules or their latest disposition keep from being dialed,
+  // soonest eligible first
+  const dispositionCodeIndex = buildDispositionCodeIndex(dispositionCodes);
+  const ineligibleContacts = employees
+    .map(emp => ({ emp, eligibility: getRetryEligibility(emp, retryRules, dispositionCodeIndex, now) }))
+    .filter(({ eligibility }) => !eligibility.eligible)
+    .sort((a, b) => {
+      const at = (eligibility: RetryEligibility) =>
+        !eligibility.eligible && eligibility.eligibleAt ? eligibility.eligibleAt.getTime() : Infinity;
+      return at(a.eligibility) - at(b.eligibility);
+    });
+  const retryNotes = new Map(ineligibleContacts.map(({ emp, eligibility }) => [emp.id, eligibilityText(eligibility)]));
+
   const getIcon = () => {
     switch (type) {
       case 'total': return <Users className="w-6 h-6 text-gray-600" />;
@@ -45,7 +78,7 @@ export const DetailModal: React.FC<DetailModalProps> = ({
       case 'answered': return employees.filter(emp => emp.status === 'answered');
       case 'missed': return employees.filter(emp => emp.status === 'missed');
       case 'pending': return employees.filter(emp => emp.status === 'pending');
-      case 'completed': return employees.filter(emp => emp.workStatus === 'completed');
+      case 'completed': return employees.filter(emp => isWorkDone(emp, workStatusIndex));
       case 'urgent': return employees.filter(emp => emp.isUrgent);
       default: return employees;
     }
@@ -77,13 +110,8 @@ export const DetailModal: React.FC<DetailModalProps> = ({
                       <div className="font-medium">{emp.name}</div>
                       <div className="text-sm text-gray-600">{emp.phoneNumber}</div>
                     </div>
-                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                      emp.status === 'answered' ? 'bg-green-100 text-green-800' :
-                      emp.status === 'missed' ? 'bg-red-100 text-red-800' :
-                      emp.status === 'calling' ? 'bg-blue-100 text-blue-800' :
-                      'bg-gray-100 text-gray-800'
-                    }`}>
-                      {emp.status}
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${CALL_STATUS_META[emp.status].softClass}`}>
+                      {CALL_STATUS_META[emp.status].label}
                     </span>
                   </div>
                 ))}
@@ -121,6 +149,62 @@ export const DetailModal: React.FC<DetailModalProps> = ({
                 </div>
               </div>
             </div>
+            {ineligibleContacts.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-semibold text-gray-800 flex items-center">
+                  <Hourglass className="w-4 h-4 mr-2 text-amber-600" />
+                  Not Eligible for Retry ({ineligibleContacts.length})
+                </h4>
+                <div className="max-h-60 overflow-y-auto space-y-2">
+                  {ineligibleContacts.map(({ emp, eligibility }) => (
+                    <div key={emp.id} className="flex items-center justify-between p-3 bg-amber-50 rounded-lg">
+                      <div>
+                        <div className="font-medium">{emp.name}</div>
+                        <div className="text-sm text-gray-600">
+                          {emp.phoneNumber} · {CALL_STATUS_META[emp.status].label} · {emp.callAttempts} attempts
+                        </div>
+                      </div>
+                      <div className="text-right text-sm">
+                        <div className="font-medium text-amber-800">{eligibilityText(eligibility)}</div>
+                        {!eligibility.eligible && eligibility.eligibleAt && (
+                          <div className="text-xs text-amber-600">{eligibility.reason}</div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {deferredContacts.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-semibold text-gray-800 flex items-center">
+                  <Moon className="w-4 h-4 mr-2 text-indigo-600" />
+                  Deferred - Outside Calling Hours ({deferredContacts.length})
+                </h4>
+                <div className="max-h-60 overflow-y-auto space-y-2">
+                  {deferredContacts.map(deferred => {
+                    const emp = employees.find(employee => employee.id === deferred.employeeId);
+                    if (!emp) return null;
+                    return (
+                      <div key={deferred.employeeId} className="flex items-center justify-between p-3 bg-indigo-50 rounded-lg">
+                        <div>
+                          <div className="font-medium">{emp.name}</div>
+                          <div className="text-sm text-gray-600">{emp.phoneNumber} · {deferred.timeZone}</div>
+                        </div>
+                        <div className="text-right text-sm">
+                          <div className="font-medium text-indigo-800">
+                            Callable {deferred.callableAt.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+                          </div>
+                          <div className="text-xs text-indigo-600">
+                            {formatTimeInZone(deferred.callableAt, deferred.timeZone)} their time
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </div>
         );
 
@@ -151,7 +235,7 @@ export const DetailModal: React.FC<DetailModalProps> = ({
                   </div>
                   {currentClient.priority && (
                     <div className="p-3 bg-yellow-100 rounded-lg">
-                      <strong>Priority:</strong> {currentClient.priority}
+                      <strong>Priority:</strong> {dispositionCodeLabel(currentClient.priority, priorityIndex)}
                     </div>
                   )}
                 </div>
@@ -212,13 +296,11 @@ export const DetailModal: React.FC<DetailModalProps> = ({
                     </div>
                     <div className="flex items-center space-x-2">
                       {emp.isUrgent && <AlertTriangle className="w-4 h-4 text-red-500" />}
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                        emp.status === 'answered' ? 'bg-green-100 text-green-800' :
-                        emp.status === 'missed' ? 'bg-red-100 text-red-800' :
-                        emp.status === 'calling' ? 'bg-blue-100 text-blue-800' :
-                        'bg-gray-100 text-gray-800'
-                      }`}>
-                        {emp.status}
+                      {retryNotes.has(emp.id) && (
+                        <span className="text-xs text-amber-700">{retryNotes.get(emp.id)}</span>
+                      )}
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${CALL_STATUS_META[emp.status].softClass}`}>
+                        {CALL_STATUS_META[emp.status].label}
                       </span>
                     </div>
                   </div>
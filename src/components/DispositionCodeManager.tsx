@@ -0,0 +1,366 @@
+import React, { useState } from 'react';
+import { Tags, X, Plus, Save, Trash2, Edit, Globe, User, RotateCcw } from 'lucide-react';
+import { CatalogueCategory, DispositionCode, DispositionColor } from '../types/Employee';
+import { CATALOGUE_CATEGORIES, DISPOSITION_COLORS, toDispositionCode, validateDispositionCode } from '../lib/dispositions';
+
+type DispositionCodeUpdate = Partial<Pick<DispositionCode, 'label' | 'color' | 'countsAsReached' | 'retry' | 'retryDelayMinutes' | 'sortOrder'>>;
+
+interface DispositionCodeManagerProps {
+  codes: DispositionCode[];
+  isAdmin: boolean; // only administrators can change the team catalogue
+  onAddCode: (codeData: Omit<DispositionCode, 'id' | 'createdBy'>) => Promise<void>;
+  onUpdateCode: (codeId: string, updates: DispositionCodeUpdate) => Promise<void>;
+  onRemoveCode: (codeId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+interface CodeFormState {
+  label: string;
+  code: string;
+  color: DispositionColor;
+  countsAsReached: boolean;
+  retry: boolean;
+  retryDelayMinutes: string;
+  sortOrder: string;
+  scope: DispositionCode['scope'];
+}
+
+const emptyForm = (sortOrder: number): CodeFormState => ({
+  label: '',
+  code: '',
+  color: 'gray',
+  countsAsReached: false,
+  retry: true,
+  retryDelayMinutes: '',
+  sortOrder: String(sortOrder),
+  scope: 'user',
+});
+
+const formatRetry = (code: DispositionCode): string => {
+  if (code.category === 'work_status') return code.countsAsReached ? 'Work done' : 'Work not done';
+  if (code.category === 'priority') return code.retry ? 'Dialed again' : 'Skipped by "skip not interested"';
+  if (!code.retry) return 'Never retried';
+  if (!code.retryDelayMinutes) return 'Retried next round';
+  return code.retryDelayMinutes % 60 === 0
+    ? `Retried after ${code.retryDelayMinutes / 60}h`
+    : `Retried after ${code.retryDelayMinutes} min`;
+};
+
+export const DispositionCodeManager: React.FC<DispositionCodeManagerProps> = ({
+  codes,
+  isAdmin,
+  onAddCode,
+  onUpdateCode,
+  onRemoveCode,
+  onClose,
+}) => {
+  const [category, setCategory] = useState<CatalogueCategory>('outcome');
+  const categoryCodes = codes.filter(code => code.category === category);
+  const sortedCodes = [...categoryCodes].sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label));
+  const nextSortOrder = categoryCodes.reduce((max, code) => Math.max(max, code.sortOrder), 0) + 1;
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<CodeFormState>(emptyForm(nextSortOrder));
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const runAction = async (action: () => Promise<string>) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      setMessage({ type: 'success', text: await action() });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Something went wrong. Please try again.' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const startEditing = (code: DispositionCode) => {
+    setEditingId(code.id);
+    setMessage(null);
+    setForm({
+      label: code.label,
+      code: code.code,
+      color: code.color,
+      countsAsReached: code.countsAsReached,
+      retry: code.retry,
+      retryDelayMinutes: code.retryDelayMinutes !== undefined ? String(code.retryDelayMinutes) : '',
+      sortOrder: String(code.sortOrder),
+      scope: code.scope,
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm(nextSortOrder));
+  };
+
+  const switchCategory = (next: CatalogueCategory) => {
+    const nextCodes = codes.filter(code => code.category === next);
+    setCategory(next);
+    setEditingId(null);
+    setMessage(null);
+    setForm(emptyForm(nextCodes.reduce((max, code) => Math.max(max, code.sortOrder), 0) + 1));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = editingId ? form.code : form.code || toDispositionCode(form.label);
+    const retryDelayMinutes = category === 'outcome' && form.retry && form.retryDelayMinutes !== ''
+      ? Number(form.retryDelayMinutes)
+      : undefined;
+    const validationError = validateDispositionCode({ code, label: form.label, retryDelayMinutes });
+    if (validationError) {
+      setMessage({ type: 'error', text: validationError });
+      return;
+    }
+    if (!editingId && categoryCodes.some(item => item.code === code && item.scope === form.scope)) {
+      setMessage({ type: 'error', text: `The code "${code}" already exists in this catalogue` });
+      return;
+    }
+
+    const fields = {
+      label: form.label.trim(),
+      color: form.color,
+      countsAsReached: form.countsAsReached,
+      retry: form.retry,
+      retryDelayMinutes,
+      sortOrder: Number(form.sortOrder) || 0,
+    };
+    runAction(async () => {
+      if (editingId) {
+        await onUpdateCode(editingId, fields);
+        resetForm();
+        return `${fields.label} updated`;
+      }
+      await onAddCode({ ...fields, code, category, scope: form.scope });
+      setForm(emptyForm(Math.max(nextSortOrder, fields.sortOrder + 1)));
+      return `${fields.label} added to the ${form.scope === 'global' ? 'team' : 'personal'} catalogue`;
+    });
+  };
+
+  const handleRemove = (code: DispositionCode) => {
+    if (!window.confirm(`Remove the code "${code.label}"? Clients and past dispositions keep it.`)) return;
+    runAction(async () => {
+      await onRemoveCode(code.id);
+      if (editingId === code.id) {
+        resetForm();
+      }
+      return `${code.label} removed`;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="bg-teal-100 p-2 rounded-full">
+                <Tags className="w-6 h-6 text-teal-600" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-gray-800">Disposition Codes</h2>
+                <p className="text-sm text-gray-600">{CATALOGUE_CATEGORIES[category].description}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Categories */}
+          <div className="flex space-x-2 mb-4">
+            {(Object.keys(CATALOGUE_CATEGORIES) as CatalogueCategory[]).map(item => (
+              <button
+                key={item}
+                type="button"
+                onClick={() => switchCategory(item)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  category === item ? 'bg-teal-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {CATALOGUE_CATEGORIES[item].label}
+              </button>
+            ))}
+          </div>
+
+          {/* Add / edit */}
+          <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 mb-6 space-y-3">
+            <div className="grid md:grid-cols-3 gap-3">
+              <input
+                type="text"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                placeholder="Label, e.g. Left Message"
+              />
+              <input
+                type="text"
+                value={editingId ? form.code : form.code || toDispositionCode(form.label)}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                disabled={!!editingId}
+                className="px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm disabled:bg-gray-100 disabled:text-gray-500 focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                placeholder="Code"
+                title={editingId ? 'Codes cannot change once dispositions use them' : 'Stored on each disposition'}
+              />
+              <select
+                value={form.scope}
+                onChange={(e) => setForm({ ...form, scope: e.target.value as DispositionCode['scope'] })}
+                disabled={!!editingId}
+                className="px-3 py-2 border border-gray-300 rounded-lg bg-white disabled:bg-gray-100 focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+              >
+                <option value="user">My codes</option>
+                <option value="global" disabled={!isAdmin}>
+                  Team codes (all users){isAdmin ? '' : ' - administrators only'}
+                </option>
+              </select>
+            </div>
+            <div className="grid md:grid-cols-3 gap-3 items-center">
+              <select
+                value={form.color}
+                onChange={(e) => setForm({ ...form, color: e.target.value as DispositionColor })}
+                className="px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+              >
+                {(Object.keys(DISPOSITION_COLORS) as DispositionColor[]).map(color => (
+                  <option key={color} value={color}>{DISPOSITION_COLORS[color].label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                value={form.retryDelayMinutes}
+                onChange={(e) => setForm({ ...form, retryDelayMinutes: e.target.value })}
+                disabled={category !== 'outcome' || !form.retry}
+                className="px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100 focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                placeholder="Retry delay (minutes)"
+              />
+              <input
+                type="number"
+                value={form.sortOrder}
+                onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                placeholder="Order"
+                title={category === 'outcome' ? 'Position in the wrap-up form' : 'Position in the list'}
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-700">
+              {category !== 'priority' && (
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={form.countsAsReached}
+                    onChange={(e) => setForm({ ...form, countsAsReached: e.target.checked })}
+                    className="rounded text-teal-600 focus:ring-teal-500"
+                  />
+                  <span>{category === 'work_status' ? 'Work done' : 'Counts as reached'}</span>
+                </label>
+              )}
+              {category !== 'work_status' && (
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={form.retry}
+                    onChange={(e) => setForm({ ...form, retry: e.target.checked })}
+                    className="rounded text-teal-600 focus:ring-teal-500"
+                  />
+                  <span>{category === 'priority' ? 'Dial again' : 'Retry the client'}</span>
+                </label>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="submit"
+                disabled={isWorking}
+                className="bg-teal-600 hover:bg-teal-700 disabled:bg-teal-300 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+              >
+                {editingId ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                <span>{editingId ? 'Save Code' : 'Add Code'}</span>
+              </button>
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="border border-gray-300 text-gray-700 hover:bg-gray-100 px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  <span>Cancel Edit</span>
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              {category === 'outcome' && 'Auto calling skips clients whose last disposition is never retried, and waits out the retry delay before dialing them again. '}
+              {category === 'priority' && 'With "skip not interested" on, auto calling skips clients whose priority is not dialed again. '}
+              {category === 'work_status' && 'Clients whose work status counts as done show up under completed work. '}
+              A personal code replaces a team code with the same code.
+            </p>
+          </form>
+
+          {message && (
+            <div className={`mb-4 rounded-lg p-3 text-sm border ${
+              message.type === 'success' ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-600'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          {/* Codes */}
+          <h3 className="font-semibold text-gray-800 mb-3">{sortedCodes.length} Codes</h3>
+          {sortedCodes.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No {CATALOGUE_CATEGORIES[category].label.toLowerCase()} yet</div>
+          ) : (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {sortedCodes.map(code => (
+                <div
+                  key={code.id}
+                  className={`flex items-center justify-between p-3 rounded-lg border ${
+                    editingId === code.id ? 'border-teal-400 bg-teal-50' : 'border-gray-200 bg-white'
+                  }`}
+                >
+                  <div>
+                    <div className="font-medium flex items-center space-x-2">
+                      {code.scope === 'global'
+                        ? <Globe className="w-4 h-4 text-gray-500" />
+                        : <User className="w-4 h-4 text-gray-500" />}
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${DISPOSITION_COLORS[code.color].softClass}`}>
+                        {code.label}
+                      </span>
+                      <span className="text-xs font-mono text-gray-500">{code.code}</span>
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">
+                      {code.category === 'outcome' && `${code.countsAsReached ? 'Counts as reached' : 'Not counted as reached'} · `}
+                      {formatRetry(code)}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => startEditing(code)}
+                      disabled={isWorking || (code.scope === 'global' && !isAdmin)}
+                      className="text-blue-500 hover:text-blue-700 disabled:opacity-50 p-2"
+                      title="Edit code"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRemove(code)}
+                      disabled={isWorking || (code.scope === 'global' && !isAdmin)}
+                      className="text-red-500 hover:text-red-700 disabled:opacity-50 p-2"
+                      title="Remove code"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ClipboardCheck, Check, Timer } from 'lucide-react';
+import { DispositionCode, DispositionDraft, DispositionNextAction, Employee, PendingDisposition } from '../types/Employee';
+import { NEXT_ACTION_LABELS, buildDispositionCodeIndex, listDispositionCodes } from '../lib/dispositions';
+
+interface DispositionFormProps {
+  client: Employee;
+  pending: PendingDisposition;
+  codes: DispositionCode[];
+  wrapUpSeconds: number; // 0 disables the countdown
+  queuedCount: number; // further answered calls waiting after this one
+  onSubmit: (pending: PendingDisposition, draft: DispositionDraft) => Promise<void>;
+}
+
+export const DispositionForm: React.FC<DispositionFormProps> = ({
+  client,
+  pending,
+  codes,
+  wrapUpSeconds,
+  queuedCount,
+  onSubmit,
+}) => {
+  const [outcomeCode, setOutcomeCode] = useState('');
+  const [summary, setSummary] = useState('');
+  const [nextAction, setNextAction] = useState<DispositionNextAction>('none');
+  const [callbackDueAt, setCallbackDueAt] = useState('');
+  const [appointmentDate, setAppointmentDate] = useState('');
+  const [appointmentType, setAppointmentType] = useState('follow-up');
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(wrapUpSeconds > 0 ? wrapUpSeconds : null);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const outcomeOptions = listDispositionCodes(buildDispositionCodeIndex(codes));
+
+  const buildDraft = (autoDismissed: boolean): DispositionDraft => ({
+    outcomeCode: outcomeCode || undefined,
+    summary: summary.trim() || undefined,
+    nextAction,
+    callbackDueAt: nextAction === 'callback' && callbackDueAt ? new Date(callbackDueAt) : undefined,
+    appointmentDate: nextAction === 'appointment' && appointmentDate ? new Date(appointmentDate) : undefined,
+    appointmentType: nextAction === 'appointment' ? appointmentType : undefined,
+    autoDismissed,
+  });
+
+  // The countdown saves whatever is filled in when it runs out, not what was there when it started
+  const buildDraftRef = useRef(buildDraft);
+  buildDraftRef.current = buildDraft;
+
+  useEffect(() => {
+    if (secondsLeft === null || secondsLeft <= 0 || isSubmitting) return;
+    const timer = setTimeout(() => setSecondsLeft(secondsLeft - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [secondsLeft, isSubmitting]);
+
+  useEffect(() => {
+    if (secondsLeft !== 0 || isSubmitting) return;
+    // Wrap-up time is over: save what was filled in and let auto calling carry on
+    setIsSubmitting(true);
+    onSubmit(pending, buildDraftRef.current(true)).catch(err => {
+      // Stop the countdown so the agent can save by hand
+      setError(err instanceof Error ? err.message : 'Failed to save the disposition. Please try again.');
+      setSecondsLeft(null);
+      setIsSubmitting(false);
+    });
+  }, [secondsLeft, isSubmitting, onSubmit, pending]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!outcomeCode) {
+      setError('Please choose an outcome');
+      return;
+    }
+    if (nextAction === 'callback' && (!callbackDueAt || isNaN(new Date(callbackDueAt).getTime()))) {
+      setError('Please choose when to call back');
+      return;
+    }
+    if (nextAction === 'appointment' && (!appointmentDate || isNaN(new Date(appointmentDate).getTime()))) {
+      setError('Please choose the appointment date and time');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await onSubmit(pending, buildDraft(false));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the disposition. Please try again.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="bg-green-100 p-2 rounded-full">
+                <ClipboardCheck className="w-6 h-6 text-green-600" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-gray-800">Call Wrap-Up</h2>
+                <p className="text-sm text-gray-600">
+                  {client.name} · answered {pending.answeredAt.toLocaleTimeString()}
+                  {pending.callMode === 'auto' ? ' · auto calling waits for this form' : ''}
+                </p>
+              </div>
+            </div>
+            {secondsLeft !== null && (
+              <button
+                type="button"
+                onClick={() => setSecondsLeft(null)}
+                className="flex items-center space-x-1 px-3 py-1 rounded-full bg-yellow-100 text-yellow-800 text-sm font-medium hover:bg-yellow-200"
+                title="Stop the countdown"
+              >
+                <Timer className="w-4 h-4" />
+                <span>{secondsLeft}s</span>
+              </button>
+            )}
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Outcome *</label>
+              <select
+                value={outcomeCode}
+                onChange={(e) => setOutcomeCode(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              >
+                <option value="">Choose an outcome...</option>
+                {outcomeOptions.map(code => (
+                  <option key={code.code} value={code.code}>{code.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Summary</label>
+              <textarea
+                value={summary}
+                onChange={(e) => setSummary(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                rows={3}
+                placeholder="What was discussed?"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Next Action</label>
+              <select
+                value={nextAction}
+                onChange={(e) => setNextAction(e.target.value as DispositionNextAction)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500 focus:border-green-500"
+              >
+                {(Object.keys(NEXT_ACTION_LABELS) as DispositionNextAction[]).map(action => (
+                  <option key={action} value={action}>{NEXT_ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+            </div>
+
+            {nextAction === 'callback' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Call Back At *</label>
+                <input
+                  type="datetime-local"
+                  value={callbackDueAt}
+                  onChange={(e) => setCallbackDueAt(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                />
+              </div>
+            )}
+
+            {nextAction === 'appointment' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Appointment *</label>
+                  <input
+                    type="datetime-local"
+                    value={appointmentDate}
+                    onChange={(e) => setAppointmentDate(e.target.value)}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+                  <select
+                    value={appointmentType}
+                    onChange={(e) => setAppointmentType(e.target.value)}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-green-500 focus:border-green-500"
+                  >
+                    <option value="consultation">Consultation</option>
+                    <option value="meeting">Meeting</option>
+                    <option value="follow-up">Follow-up</option>
+                    <option value="presentation">Presentation</option>
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="text-red-600 text-sm">{error}</p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between pt-2">
+              <span className="text-xs text-gray-500">
+                {queuedCount > 0 ? `${queuedCount} more answered call${queuedCount === 1 ? '' : 's'} to wrap up` : ''}
+              </span>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white px-6 py-3 rounded-lg font-medium transition-colors flex items-center space-x-2"
+              >
+                <Check className="w-4 h-4" />
+                <span>{isSubmitting ? 'Saving...' : 'Save & Continue'}</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { Ban, X, Plus, Upload, Trash2, Globe, User } from 'lucide-react';
+import { DoNotCallEntry } from '../types/Employee';
+import { parseDoNotCallCsv } from '../lib/doNotCall';
+import { DEFAULT_COUNTRY } from '../lib/phoneNumbers';
+
+interface DoNotCallManagerProps {
+  entries: DoNotCallEntry[];
+  isAdmin: boolean; // only administrators can change the global list
+  onAddNumbers: (
+    phoneNumbers: string[],
+    options: { scope?: DoNotCallEntry['scope']; reason?: string; source?: DoNotCallEntry['source'] }
+  ) => Promise<{ added: number; skipped: number }>;
+  onRemoveEntry: (entryId: string) => Promise<void>;
+  onClose: () => void;
+  defaultCountry?: string; // numbers typed or imported without a country code are read in this country
+}
+
+const SOURCE_LABELS: Record<DoNotCallEntry['source'], string> = {
+  manual: 'Added manually',
+  'not-interested': 'Not interested',
+  'csv-import': 'CSV import',
+};
+
+export const DoNotCallManager: React.FC<DoNotCallManagerProps> = ({
+  entries,
+  isAdmin,
+  onAddNumbers,
+  onRemoveEntry,
+  onClose,
+  defaultCountry = DEFAULT_COUNTRY,
+}) => {
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [reason, setReason] = useState('');
+  const [scope, setScope] = useState<DoNotCallEntry['scope']>('user');
+  const [scopeFilter, setScopeFilter] = useState<'all' | DoNotCallEntry['scope']>('all');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const visibleEntries = entries.filter(entry => scopeFilter === 'all' || entry.scope === scopeFilter);
+
+  const runAction = async (action: () => Promise<string>) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      setMessage({ type: 'success', text: await action() });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Something went wrong. Please try again.' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAddNumber = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (phoneNumber.replace(/\D/g, '').length < 7) {
+      setMessage({ type: 'error', text: 'Please enter a valid phone number' });
+      return;
+    }
+    runAction(async () => {
+      const { added } = await onAddNumbers([phoneNumber], { scope, reason: reason.trim() || undefined, source: 'manual' });
+      if (added === 0) {
+        throw new Error('This number is already on the list');
+      }
+      setPhoneNumber('');
+      setReason('');
+      return `${phoneNumber} added to the ${scope === 'global' ? 'global' : 'personal'} list`;
+    });
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    runAction(async () => {
+      const numbers = parseDoNotCallCsv(await file.text(), defaultCountry);
+      if (numbers.length === 0) {
+        throw new Error(`No phone numbers found in ${file.name}`);
+      }
+      const { added, skipped } = await onAddNumbers(numbers, {
+        scope,
+        reason: reason.trim() || `Imported from ${file.name}`,
+        source: 'csv-import',
+      });
+      return `Imported ${added} numbers from ${file.name}${skipped > 0 ? ` (${skipped} already listed)` : ''}`;
+    });
+  };
+
+  const handleRemove = (entry: DoNotCallEntry) => {
+    if (!window.confirm(`Remove ${entry.phoneNumber} from the do-not-call list?`)) return;
+    runAction(async () => {
+      await onRemoveEntry(entry.id);
+      return `${entry.phoneNumber} removed`;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="bg-red-100 p-2 rounded-full">
+                <Ban className="w-6 h-6 text-red-600" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-gray-800">Do-Not-Call List</h2>
+                <p className="text-sm text-gray-600">Numbers here are never dialed, manually or automatically</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Add / import */}
+          <form onSubmit={handleAddNumber} className="bg-gray-50 rounded-lg p-4 mb-6 space-y-3">
+            <div className="grid md:grid-cols-3 gap-3">
+              <input
+                type="tel"
+                value={phoneNumber}
+                onChange={(e) => setPhoneNumber(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                placeholder="+1 202 555 0143"
+              />
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                placeholder="Reason (optional)"
+              />
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as DoNotCallEntry['scope'])}
+                className="px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              >
+                <option value="user">My list</option>
+                <option value="global" disabled={!isAdmin}>
+                  Global list (all users){isAdmin ? '' : ' - administrators only'}
+                </option>
+              </select>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="submit"
+                disabled={isWorking}
+                className="bg-red-500 hover:bg-red-600 disabled:bg-red-300 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add Number</span>
+              </button>
+              <label className={`bg-gray-700 hover:bg-gray-800 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center space-x-2 cursor-pointer ${
+                isWorking ? 'opacity-50 pointer-events-none' : ''
+              }`}>
+                <Upload className="w-4 h-4" />
+                <span>Import CSV</span>
+                <input type="file" accept=".csv,.txt,text/csv" onChange={handleImportFile} className="hidden" />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500">
+              CSV import picks up every phone number in the file, in any column. Numbers already on the selected list are skipped.
+            </p>
+          </form>
+
+          {message && (
+            <div className={`mb-4 rounded-lg p-3 text-sm border ${
+              message.type === 'success' ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-600'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          {/* Entries */}
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-gray-800">{visibleEntries.length} Blocked Numbers</h3>
+            <select
+              value={scopeFilter}
+              onChange={(e) => setScopeFilter(e.target.value as 'all' | DoNotCallEntry['scope'])}
+              className="px-3 py-1 border border-gray-300 rounded-lg text-sm bg-white"
+            >
+              <option value="all">All lists</option>
+              <option value="user">My list</option>
+              <option value="global">Global list</option>
+            </select>
+          </div>
+          {visibleEntries.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No numbers on the do-not-call list</div>
+          ) : (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {visibleEntries.map(entry => (
+                <div key={entry.id} className="flex items-center justify-between p-3 bg-red-50 rounded-lg">
+                  <div>
+                    <div className="font-medium flex items-center space-x-2">
+                      {entry.scope === 'global'
+                        ? <Globe className="w-4 h-4 text-gray-500" />
+                        : <User className="w-4 h-4 text-gray-500" />}
+                      <span>{entry.phoneNumber}</span>
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">
+                      {SOURCE_LABELS[entry.source]}{entry.reason ? ` · ${entry.reason}` : ''}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Added by {entry.addedByEmail || entry.addedBy} on {entry.createdAt.toLocaleString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(entry)}
+                    disabled={isWorking || (entry.scope === 'global' && !isAdmin)}
+                    className="text-red-500 hover:text-red-700 disabled:opacity-50 p-2"
+                    title="Remove from list"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
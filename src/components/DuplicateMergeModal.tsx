@@ -0,0 +1,244 @@
+import React, { useMemo, useState } from 'react';
+import { GitMerge, X, ArrowLeft } from 'lucide-react';
+import { ClientMergeValues, Employee } from '../types/Employee';
+import {
+  DUPLICATE_REASON_LABELS,
+  DuplicateGroup,
+  MERGE_FIELDS,
+  MergeChoices,
+  buildMergeValues,
+  defaultMergeChoices,
+  findDuplicateGroups,
+} from '../lib/duplicates';
+
+interface DuplicateMergeModalProps {
+  employees: Employee[];
+  onMerge: (keepId: string, mergeIds: string[], values: ClientMergeValues) => Promise<Employee>;
+  onClose: () => void;
+  defaultCountry?: string;
+}
+
+const groupKey = (group: DuplicateGroup) => group.clients.map(client => client.id).sort().join(',');
+
+const displayValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value).replace(/_/g, ' ');
+};
+
+export const DuplicateMergeModal: React.FC<DuplicateMergeModalProps> = ({
+  employees,
+  onMerge,
+  onClose,
+  defaultCountry,
+}) => {
+  const groups = useMemo(() => findDuplicateGroups(employees, defaultCountry), [employees, defaultCountry]);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<DuplicateGroup | null>(null);
+  const [keepId, setKeepId] = useState('');
+  const [choices, setChoices] = useState<MergeChoices | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const visibleGroups = groups.filter(group => !dismissed.has(groupKey(group)));
+
+  const openGroup = (group: DuplicateGroup) => {
+    const keep = group.clients[0];
+    setSelected(group);
+    setKeepId(keep.id);
+    setChoices(defaultMergeChoices(keep, group.clients.slice(1)));
+    setMessage(null);
+  };
+
+  const changeKeep = (clientId: string) => {
+    if (!selected) return;
+    const keep = selected.clients.find(client => client.id === clientId) || selected.clients[0];
+    setKeepId(keep.id);
+    setChoices(defaultMergeChoices(keep, selected.clients.filter(client => client.id !== keep.id)));
+  };
+
+  const handleMerge = async () => {
+    if (!selected || !choices) return;
+    setIsMerging(true);
+    setMessage(null);
+    try {
+      const mergeIds = selected.clients.map(client => client.id).filter(id => id !== keepId);
+      const kept = await onMerge(keepId, mergeIds, buildMergeValues(selected.clients, choices, defaultCountry));
+      setSelected(null);
+      setMessage({
+        type: 'success',
+        text: `Merged ${mergeIds.length} ${mergeIds.length === 1 ? 'record' : 'records'} into ${kept.name}`,
+      });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Merge failed. Please try again.' });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="bg-purple-100 p-2 rounded-full">
+                <GitMerge className="w-6 h-6 text-purple-600" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-gray-800">
+                  {selected ? 'Merge Contacts' : 'Find Duplicates'}
+                </h2>
+                <p className="text-sm text-gray-600">
+                  {selected
+                    ? 'Choose the record to keep and which value survives for each field'
+                    : `${visibleGroups.length} possible ${visibleGroups.length === 1 ? 'duplicate' : 'duplicates'}`}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {message && (
+            <div className={`mb-4 p-3 rounded-lg text-sm ${
+              message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          {!selected && (
+            visibleGroups.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                <GitMerge className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                <p>No duplicate contacts found</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {visibleGroups.map(group => (
+                  <div key={groupKey(group)} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between">
+                      <div className="space-y-1">
+                        {group.clients.map(client => (
+                          <p key={client.id} className="text-sm text-gray-800">
+                            <span className="font-medium">{client.name}</span>
+                            <span className="text-gray-500"> · {client.phoneNumber}</span>
+                            {client.email && (
+                              <span className="text-gray-500"> · {client.email}</span>
+                            )}
+                          </p>
+                        ))}
+                        <div className="flex flex-wrap gap-2 pt-1">
+                          {group.reasons.map(reason => (
+                            <span key={reason} className="px-2 py-0.5 rounded-full text-xs bg-purple-50 text-purple-700">
+                              {DUPLICATE_REASON_LABELS[reason]}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 shrink-0">
+                        <button
+                          onClick={() => setDismissed(prev => new Set(prev).add(groupKey(group)))}
+                          className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+                        >
+                          Not duplicates
+                        </button>
+                        <button
+                          onClick={() => openGroup(group)}
+                          className="px-3 py-1.5 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium"
+                        >
+                          Review
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+
+          {selected && choices && (
+            <>
+              <div className="overflow-x-auto mb-4">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-2 pr-4 font-semibold text-gray-700">Keep record</th>
+                      {selected.clients.map(client => (
+                        <th key={client.id} className="text-left py-2 pr-4">
+                          <label className="flex items-center space-x-2 font-semibold text-gray-800">
+                            <input
+                              type="radio"
+                              name="keep-record"
+                              checked={keepId === client.id}
+                              onChange={() => changeKeep(client.id)}
+                              className="text-purple-600 focus:ring-purple-500"
+                            />
+                            <span>{client.name}</span>
+                          </label>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {MERGE_FIELDS.map(({ field, label }) => (
+                      <tr key={field} className="border-b border-gray-100">
+                        <td className="py-2 pr-4 text-gray-600">{label}</td>
+                        {selected.clients.map(client => (
+                          <td key={client.id} className="py-2 pr-4">
+                            <label className="flex items-center space-x-2 text-gray-800">
+                              <input
+                                type="radio"
+                                name={`field-${field}`}
+                                checked={choices[field] === client.id}
+                                onChange={() => setChoices({ ...choices, [field]: client.id })}
+                                className="text-purple-600 focus:ring-purple-500"
+                              />
+                              <span>{displayValue(client[field])}</span>
+                            </label>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <p className="text-sm text-gray-600 mb-6">
+                Call logs, work history, appointments, feedback, notes, callbacks, recordings and
+                list memberships of the other {selected.clients.length === 2 ? 'record' : 'records'} move
+                to the kept one, call attempts are added up, and the other{' '}
+                {selected.clients.length === 2 ? 'record is' : 'records are'} deleted. This cannot be undone.
+              </p>
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  onClick={() => setSelected(null)}
+                  disabled={isMerging}
+                  className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  <span>Back</span>
+                </button>
+                <button
+                  onClick={handleMerge}
+                  disabled={isMerging}
+                  className="flex items-center space-x-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white rounded-lg font-medium"
+                >
+                  <GitMerge className="w-4 h-4" />
+                  <span>{isMerging ? 'Merging...' : `Merge ${selected.clients.length} Records`}</span>
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
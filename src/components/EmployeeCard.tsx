@@ -1,18 +1,28 @@
 import React from 'react';
-import { Phone, Mail, User, Building, PhoneCall, Star, Clock, XCircle, MessageCircle, AlertTriangle, History, Calendar } from 'lucide-react';
-import { Employee } from '../types/Employee';
+import { Phone, Mail, User, Building, PhoneCall, Star, XCircle, MessageCircle, AlertTriangle, History, Calendar, Ban, PhoneForwarded, Pencil } from 'lucide-react';
+import { Callback, CallOutcomeStatus, DispositionCode, DoNotCallEntry, Employee } from '../types/Employee';
+import { CALL_STATUS_META, MANUAL_CALL_OUTCOMES } from '../lib/callOutcomes';
+import { DISPOSITION_COLORS, buildDispositionCodeIndex, listDispositionCodes } from '../lib/dispositions';
 
 interface EmployeeCardProps {
   employee: Employee;
   isCurrentlyCalling: boolean;
   isCurrentEmployee: boolean;
   onCallEmployee: (employeeId: string) => void;
-  onUpdatePriority: (employeeId: string, priority: 'high' | 'follow-up' | 'not-interested') => void;
+  onUpdatePriority: (employeeId: string, priority: string) => void;
+  onSetCallOutcome?: (employeeId: string, status: CallOutcomeStatus) => void;
   onOpenWhatsApp?: (phoneNumber: string) => void;
   onViewHistory?: (employeeId: string) => void;
   onScheduleAppointment?: (employeeId: string) => void;
   isAutoCallActive: boolean;
+  ringTimeoutSeconds?: number;
   onViewReviews?: (employeeId: string) => void;
+  doNotCallEntry?: DoNotCallEntry;
+  onToggleDoNotCall?: (employeeId: string) => void;
+  nextCallback?: Callback;
+  onScheduleCallback?: (employeeId: string) => void;
+  onEditContact?: (employeeId: string) => void;
+  dispositionCodes?: DispositionCode[]; // priorities and work statuses come from the catalogue
 }
 
 export const EmployeeCard: React.FC<EmployeeCardProps> = ({
@@ -21,123 +31,53 @@ export const EmployeeCard: React.FC<EmployeeCardProps> = ({
   isCurrentEmployee,
   onCallEmployee,
   onUpdatePriority,
+  onSetCallOutcome,
   onOpenWhatsApp,
   onViewHistory,
   onScheduleAppointment,
   isAutoCallActive,
+  ringTimeoutSeconds = 10,
   onViewReviews,
+  doNotCallEntry,
+  onToggleDoNotCall,
+  nextCallback,
+  onScheduleCallback,
+  onEditContact,
+  dispositionCodes = [],
 }) => {
-  const getStatusColor = () => {
-    switch (employee.status) {
-      case 'answered':
-        return 'bg-green-50 border-green-300 text-green-800';
-      case 'missed':
-        return 'bg-red-50 border-red-300 text-red-800';
-      case 'calling':
-        return 'bg-blue-50 border-blue-300 text-blue-800';
-      default:
-        return 'bg-gray-50 border-gray-300 text-gray-800';
-    }
-  };
+  const statusMeta = CALL_STATUS_META[employee.status];
+  const priorityIndex = buildDispositionCodeIndex(dispositionCodes, 'priority');
+  const priority = employee.priority ? priorityIndex.get(employee.priority) : undefined;
+  const workStatus = employee.workStatus
+    ? buildDispositionCodeIndex(dispositionCodes, 'work_status').get(employee.workStatus)
+    : undefined;
 
-  const getButtonColor = () => {
-    switch (employee.status) {
-      case 'answered':
-        return 'bg-green-500 hover:bg-green-600 text-white';
-      case 'missed':
-        return 'bg-red-500 hover:bg-red-600 text-white';
-      case 'calling':
-        return 'bg-blue-500 text-white cursor-not-allowed animate-pulse';
-      default:
-        return 'bg-gray-500 hover:bg-gray-600 text-white';
-    }
-  };
-
-  const getPriorityButtonColor = (priority: 'high' | 'follow-up' | 'not-interested') => {
-    switch (priority) {
-      case 'high':
-        return 'bg-green-800 hover:bg-green-900 text-white';
-      case 'follow-up':
-        return 'bg-green-400 hover:bg-green-500 text-white';
-      case 'not-interested':
-        return 'bg-red-500 hover:bg-red-600 text-white';
-    }
-  };
+  const getStatusColor = () => statusMeta.cardClass;
 
-  const getPriorityIcon = (priority: 'high' | 'follow-up' | 'not-interested') => {
-    switch (priority) {
-      case 'high':
-        return <Star className="w-4 h-4" />;
-      case 'follow-up':
-        return <Clock className="w-4 h-4" />;
-      case 'not-interested':
-        return <XCircle className="w-4 h-4" />;
-    }
-  };
+  const getButtonColor = () => statusMeta.buttonClass;
 
-  const getPriorityText = (priority: 'high' | 'follow-up' | 'not-interested') => {
-    switch (priority) {
-      case 'high':
-        return 'High Priority';
-      case 'follow-up':
-        return 'Follow Up';
-      case 'not-interested':
-        return 'Not Interested';
-    }
-  };
-  const getStatusText = () => {
-    switch (employee.status) {
-      case 'answered':
-        return '✅ Answered';
-      case 'missed':
-        return '❌ Missed';
-      case 'calling':
-        return '📞 Calling...';
-      default:
-        return '⏳ Pending';
-    }
-  };
+  const getStatusText = () => statusMeta.text;
 
   const handleCall = () => {
-    if (!isCurrentlyCalling && employee.status !== 'calling') {
+    if (!isCurrentlyCalling && employee.status !== 'calling' && !doNotCallEntry) {
       onCallEmployee(employee.id);
     }
   };
 
   const handleWhatsAppClick = () => {
-    const whatsappNumber = employee.whatsappNumber || employee.phoneNumber;
+    // Prefer the stored canonical number; App reads anything else in the user's default country
+    const whatsappNumber = employee.whatsappNumber
+      ? employee.whatsappE164 || employee.whatsappNumber
+      : employee.phoneE164 || employee.phoneNumber;
     if (onOpenWhatsApp) {
       onOpenWhatsApp(whatsappNumber);
     }
   };
 
-  const getWorkStatusColor = () => {
-    switch (employee.workStatus) {
-      case 'completed':
-        return 'bg-green-100 text-green-800';
-      case 'in_progress':
-        return 'bg-blue-100 text-blue-800';
-      case 'repeat_client':
-        return 'bg-purple-100 text-purple-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
-
-  const getWorkStatusText = () => {
-    switch (employee.workStatus) {
-      case 'completed':
-        return '✅ Work Done';
-      case 'in_progress':
-        return '🔄 In Progress';
-      case 'repeat_client':
-        return '🔁 Repeat Client';
-      default:
-        return '🆕 New Client';
-    }
-  };
   return (
-    <div className={`rounded-xl p-6 border-2 transition-all duration-500 ${getStatusColor()} ${
+    <div className={`rounded-xl p-6 border-2 transition-all duration-500 ${
+      doNotCallEntry ? 'bg-gray-100 border-red-400 text-gray-700' : getStatusColor()
+    } ${
       isCurrentlyCalling ? 'ring-4 ring-blue-400 scale-105 shadow-xl' : 'shadow-md'
     } ${isCurrentEmployee && isAutoCallActive ? 'ring-2 ring-yellow-400' : ''}`}>
       
@@ -157,9 +97,20 @@ export const EmployeeCard: React.FC<EmployeeCardProps> = ({
         </div>
         
         <div className="flex items-center space-x-2">
+          {onEditContact && (
+            <button
+              onClick={() => onEditContact(employee.id)}
+              className="bg-white p-1.5 rounded-full shadow-sm text-gray-500 hover:text-gray-800 transition-colors"
+              title="Edit contact"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+          )}
           {employee.workStatus && (
-            <span className={`px-2 py-1 rounded-full text-xs font-medium shadow-sm ${getWorkStatusColor()}`}>
-              {getWorkStatusText()}
+            <span className={`px-2 py-1 rounded-full text-xs font-medium shadow-sm ${
+              DISPOSITION_COLORS[workStatus?.color || 'gray'].softClass
+            }`}>
+              {workStatus?.label || employee.workStatus}
             </span>
           )}
           {employee.callAttempts > 0 && (
@@ -169,25 +120,37 @@ export const EmployeeCard: React.FC<EmployeeCardProps> = ({
           )}
           {employee.priority && (
             <span className={`px-2 py-1 rounded-full text-xs font-bold shadow-sm ${
-              employee.priority === 'high' ? 'bg-green-800 text-white' :
-              employee.priority === 'follow-up' ? 'bg-green-400 text-white' :
-              'bg-red-500 text-white'
+              DISPOSITION_COLORS[priority?.color || 'gray'].softClass
             }`}>
-              {employee.priority === 'high' ? '⭐ High' :
-               employee.priority === 'follow-up' ? '🔄 Follow' :
-               '❌ Not Interested'}
+              {priority?.label || employee.priority}
+            </span>
+          )}
+          {doNotCallEntry ? (
+            <span className="px-3 py-1 rounded-full text-xs font-bold shadow-sm bg-red-700 text-white">
+              🚫 Do Not Call
+            </span>
+          ) : (
+            <span className={`px-3 py-1 rounded-full text-xs font-bold shadow-sm ${statusMeta.badgeClass}`}>
+              {getStatusText()}
             </span>
           )}
-          <span className={`px-3 py-1 rounded-full text-xs font-bold shadow-sm ${
-            employee.status === 'calling' ? 'bg-blue-500 text-white animate-pulse' : 
-            employee.status === 'answered' ? 'bg-green-500 text-white' :
-            employee.status === 'missed' ? 'bg-red-500 text-white' : 'bg-gray-500 text-white'
-          }`}>
-            {getStatusText()}
-          </span>
         </div>
       </div>
 
+      {/* Do-not-call notice */}
+      {doNotCallEntry && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-xs text-red-800">
+          <div className="font-semibold flex items-center space-x-1">
+            <Ban className="w-4 h-4" />
+            <span>On the {doNotCallEntry.scope === 'global' ? 'global' : 'personal'} do-not-call list</span>
+          </div>
+          {doNotCallEntry.reason && <div className="mt-1">{doNotCallEntry.reason}</div>}
+          <div className="mt-1 text-red-600">
+            Added by {doNotCallEntry.addedByEmail || doNotCallEntry.addedBy} on {doNotCallEntry.createdAt.toLocaleDateString()}
+          </div>
+        </div>
+      )}
+
       {/* Contact details */}
       <div className="space-y-2 mb-4">
         <div className="flex items-center space-x-2 text-sm">
@@ -200,6 +163,17 @@ export const EmployeeCard: React.FC<EmployeeCardProps> = ({
             <span className="font-medium text-green-600">{employee.whatsappNumber}</span>
           </div>
         )}
+        {nextCallback && (
+          <div className={`flex items-center space-x-2 text-sm ${
+            nextCallback.dueAt.getTime() <= Date.now() ? 'text-red-600' : 'text-teal-700'
+          }`}>
+            <PhoneForwarded className="w-4 h-4" />
+            <span className="font-medium">
+              Callback {nextCallback.dueAt.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+              {nextCallback.reason ? ` - ${nextCallback.reason}` : ''}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Action Buttons Row */}
@@ -238,6 +212,20 @@ export const EmployeeCard: React.FC<EmployeeCardProps> = ({
         )}
       </div>
       
+      {/* Callback Button */}
+      {onScheduleCallback && (
+        <div className="mb-4">
+          <button
+            onClick={() => onScheduleCallback(employee.id)}
+            className="w-full bg-teal-500 hover:bg-teal-600 text-white py-2 px-3 rounded-lg text-xs font-semibold transition-all duration-300 flex items-center justify-center space-x-1"
+            title="Schedule a callback"
+          >
+            <PhoneForwarded className="w-4 h-4" />
+            <span>Schedule Callback</span>
+          </button>
+        </div>
+      )}
+
       {/* Reviews Button */}
       {onViewReviews && (
         <div className="mb-4">
@@ -255,59 +243,73 @@ export const EmployeeCard: React.FC<EmployeeCardProps> = ({
       <div className="mb-4">
         <p className="text-sm font-medium text-gray-700 mb-2">Set Priority:</p>
         <div className="grid grid-cols-3 gap-2">
-          <button
-            onClick={() => onUpdatePriority(employee.id, 'high')}
-            disabled={isAutoCallActive}
-            className={`py-2 px-3 rounded-lg text-xs font-semibold transition-all duration-300 flex items-center justify-center space-x-1 ${
-              employee.priority === 'high' 
-                ? 'bg-green-800 text-white ring-2 ring-green-600' 
-                : 'bg-green-800 hover:bg-green-900 text-white opacity-70 hover:opacity-100'
-            } disabled:opacity-50 disabled:cursor-not-allowed`}
-          >
-            {getPriorityIcon('high')}
-            <span>High</span>
-          </button>
-          
-          <button
-            onClick={() => onUpdatePriority(employee.id, 'follow-up')}
-            disabled={isAutoCallActive}
-            className={`py-2 px-3 rounded-lg text-xs font-semibold transition-all duration-300 flex items-center justify-center space-x-1 ${
-              employee.priority === 'follow-up' 
-                ? 'bg-green-400 text-white ring-2 ring-green-300' 
-                : 'bg-green-400 hover:bg-green-500 text-white opacity-70 hover:opacity-100'
-            } disabled:opacity-50 disabled:cursor-not-allowed`}
-          >
-            {getPriorityIcon('follow-up')}
-            <span>Follow</span>
-          </button>
-          
-          <button
-            onClick={() => onUpdatePriority(employee.id, 'not-interested')}
-            disabled={isAutoCallActive}
-            className={`py-2 px-3 rounded-lg text-xs font-semibold transition-all duration-300 flex items-center justify-center space-x-1 ${
-              employee.priority === 'not-interested' 
-                ? 'bg-red-500 text-white ring-2 ring-red-400' 
-                : 'bg-red-500 hover:bg-red-600 text-white opacity-70 hover:opacity-100'
-            } disabled:opacity-50 disabled:cursor-not-allowed`}
-          >
-            {getPriorityIcon('not-interested')}
-            <span>Not Int.</span>
-          </button>
+          {listDispositionCodes(priorityIndex).map(option => (
+            <button
+              key={option.code}
+              onClick={() => onUpdatePriority(employee.id, option.code)}
+              disabled={isAutoCallActive}
+              className={`py-2 px-3 rounded-lg text-xs font-semibold transition-all duration-300 flex items-center justify-center space-x-1 ${
+                DISPOSITION_COLORS[option.color].softClass
+              } ${
+                employee.priority === option.code ? 'ring-2 ring-gray-400' : 'opacity-70 hover:opacity-100'
+              } disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              {option.retry ? <Star className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+              <span>{option.label}</span>
+            </button>
+          ))}
         </div>
       </div>
+      {/* Call Outcome */}
+      {onSetCallOutcome && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Record Outcome:</label>
+          <select
+            value={employee.status === 'pending' || employee.status === 'calling' ? '' : employee.status}
+            onChange={(e) => onSetCallOutcome(employee.id, e.target.value as CallOutcomeStatus)}
+            disabled={isCurrentlyCalling || employee.status === 'calling'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white text-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <option value="" disabled>Select outcome...</option>
+            {MANUAL_CALL_OUTCOMES.map(outcome => (
+              <option key={outcome} value={outcome}>
+                {CALL_STATUS_META[outcome].label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {/* Do-not-call toggle */}
+      {onToggleDoNotCall && (
+        <button
+          onClick={() => onToggleDoNotCall(employee.id)}
+          disabled={isCurrentlyCalling}
+          className={`w-full mb-2 py-2 px-3 rounded-lg text-xs font-semibold transition-all duration-300 flex items-center justify-center space-x-1 border disabled:opacity-50 disabled:cursor-not-allowed ${
+            doNotCallEntry
+              ? 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              : 'bg-white border-red-300 text-red-600 hover:bg-red-50'
+          }`}
+        >
+          <Ban className="w-4 h-4" />
+          <span>{doNotCallEntry ? 'Remove from Do-Not-Call' : 'Add to Do-Not-Call'}</span>
+        </button>
+      )}
       {/* Call button */}
       <button
         onClick={handleCall}
-        disabled={isCurrentlyCalling || (isAutoCallActive && !isCurrentEmployee)}
-        className={`w-full py-3 px-4 rounded-lg font-semibold transition-all duration-300 flex items-center justify-center space-x-2 ${getButtonColor()} ${
+        disabled={isCurrentlyCalling || (isAutoCallActive && !isCurrentEmployee) || !!doNotCallEntry}
+        className={`w-full py-3 px-4 rounded-lg font-semibold transition-all duration-300 flex items-center justify-center space-x-2 ${
+          doNotCallEntry ? 'bg-gray-400 text-white' : getButtonColor()
+        } ${
           isCurrentlyCalling ? 'transform scale-105' : ''
         } disabled:opacity-50 disabled:cursor-not-allowed shadow-md`}
       >
         <PhoneCall className={`w-5 h-5 ${isCurrentlyCalling ? 'animate-pulse' : ''}`} />
         <span>
-          {isCurrentlyCalling ? 'Calling...' : 
+          {doNotCallEntry ? 'Blocked - Do Not Call' :
+           isCurrentlyCalling ? 'Calling...' : 
            employee.status === 'answered' ? 'Call Again' :
-           employee.status === 'missed' ? 'Retry Call' : 'Call'}
+           employee.status === 'pending' ? 'Call' : 'Retry Call'}
         </span>
       </button>
       
@@ -315,7 +317,7 @@ export const EmployeeCard: React.FC<EmployeeCardProps> = ({
       {isCurrentlyCalling && (
         <div className="mt-3 text-center">
           <div className="text-xs text-blue-600 font-medium bg-blue-100 rounded-full py-1 px-3">
-            ⏱️ 10-second timeout active
+            ⏱️ {ringTimeoutSeconds}-second timeout active
           </div>
         </div>
       )}
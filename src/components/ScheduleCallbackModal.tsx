@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { PhoneForwarded, X, Check } from 'lucide-react';
+import { Callback, CallLog, Employee } from '../types/Employee';
+
+interface ScheduleCallbackModalProps {
+  client: Employee;
+  callLog?: CallLog; // set when scheduling from an entry in the call log
+  onSchedule: (clientId: string, callbackData: Pick<Callback, 'dueAt' | 'reason' | 'assignedTo' | 'callLogId'>) => Promise<void>;
+  onClose: () => void;
+}
+
+// datetime-local inputs want local time without a zone suffix
+const toLocalInputValue = (date: Date) => {
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const defaultDueAt = () => {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  date.setMinutes(0, 0, 0);
+  return toLocalInputValue(date);
+};
+
+export const ScheduleCallbackModal: React.FC<ScheduleCallbackModalProps> = ({
+  client,
+  callLog,
+  onSchedule,
+  onClose,
+}) => {
+  const [dueAt, setDueAt] = useState(defaultDueAt());
+  const [reason, setReason] = useState(callLog?.notes || '');
+  const [assignedTo, setAssignedTo] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const dueDate = new Date(dueAt);
+    if (!dueAt || isNaN(dueDate.getTime())) {
+      setError('Please choose when to call back');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await onSchedule(client.id, {
+        dueAt: dueDate,
+        reason: reason.trim() || undefined,
+        assignedTo: assignedTo.trim() || undefined,
+        callLogId: callLog?.id,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to schedule callback. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full">
+        <div className="p-6">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <div className="bg-teal-100 p-2 rounded-full">
+                <PhoneForwarded className="w-6 h-6 text-teal-600" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-gray-800">Schedule Callback</h2>
+                <p className="text-sm text-gray-600">{client.name} · {client.phoneNumber}</p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {callLog && (
+            <div className="mb-4 p-3 bg-gray-50 rounded-lg text-sm text-gray-600">
+              From the call on {callLog.startedAt.toLocaleString()}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Call Back At *</label>
+              <input
+                type="datetime-local"
+                value={dueAt}
+                onChange={(e) => setDueAt(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                rows={3}
+                placeholder="e.g. Wants a quote after talking to their partner"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Assigned To</label>
+              <input
+                type="text"
+                value={assignedTo}
+                onChange={(e) => setAssignedTo(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+                placeholder="Leave empty to assign to yourself"
+              />
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="text-red-600 text-sm">{error}</p>
+              </div>
+            )}
+
+            <div className="flex space-x-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="flex-1 bg-teal-600 hover:bg-teal-700 disabled:bg-teal-400 text-white px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center space-x-2"
+              >
+                <Check className="w-4 h-4" />
+                <span>{isSubmitting ? 'Scheduling...' : 'Schedule'}</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,26 +1,140 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { Employee, CallSystemStats, WorkHistory, Appointment, ClientFeedback } from '../types/Employee';
+import { Employee, CallOutcomeStatus, CallSystemStats, WorkHistory, Appointment, ClientFeedback, CallLog, CampaignSettings, DeferredContact, DoNotCallEntry, Callback, CallSession, CallList, PendingDisposition, DispositionDraft, DispositionCode, CallRecording, PacingSnapshot, NewClient, ClientImportResult, ClientMergeValues, ClientProfileUpdate } from '../types/Employee';
 import { SupabaseService } from '../services/supabaseService';
+import { isRetryableStatus, statusFromCallOutcome } from '../lib/callOutcomes';
+import { DEFAULT_CAMPAIGN_SETTINGS } from '../lib/campaignSettings';
+import { DialingCatalogues, orderForDialing } from '../lib/dialingStrategies';
+import { formatTimeInZone, getNextCallableTime, resolveClientTimeZone } from '../lib/callingHours';
+import { DoNotCallIndex, buildDoNotCallIndex, findDoNotCallEntry } from '../lib/doNotCall';
+import { DispositionCodeIndex, buildDispositionCodeIndex, getDoneWorkStatus, hasSkippedPriority, isWorkDone } from '../lib/dispositions';
+import { computeNextEligibleAt, getRetryEligibility, isNeverRetried } from '../lib/retryPolicy';
+import { getClientE164 } from '../lib/phoneNumbers';
+import { mergeSessionQueue } from '../lib/duplicates';
+import { PACING_WINDOW, PacingSample, addPacingSample, computePacing, getTalkHoldMs, toPacingSample } from '../lib/pacing';
+
+const hasAttemptsLeft = (employee: Employee, settings: CampaignSettings) =>
+  !settings.maxAttemptsPerContact || employee.callAttempts < settings.maxAttemptsPerContact;
+
+// Whether auto calling may dial this client at all, regardless of call status; clients
+// waiting out a retry delay still count and are skipped until it is over
+const isDialable = (
+  employee: Employee,
+  settings: CampaignSettings,
+  doNotCall: DoNotCallIndex,
+  dispositionCodes: DispositionCodeIndex,
+  priorities: DispositionCodeIndex
+) =>
+  hasAttemptsLeft(employee, settings) &&
+  !isNeverRetried(employee, settings.retryRules, dispositionCodes) &&
+  !(settings.skipNotInterested && hasSkippedPriority(employee, priorities)) &&
+  !findDoNotCallEntry(employee, doNotCall, settings.defaultCountry);
+
+// Client ids to dial in a round: everyone in round 1, only unreached contacts afterwards,
+// ordered by the selected dialing strategy
+const buildRoundQueue = (
+  round: number,
+  employees: Employee[],
+  settings: CampaignSettings,
+  doNotCall: DoNotCallIndex,
+  dispositionCodes: DispositionCodeIndex,
+  catalogues: DialingCatalogues
+): string[] =>
+  orderForDialing(
+    employees
+      .filter(emp => round === 1 || isRetryableStatus(emp.status))
+      .filter(emp => isDialable(emp, settings, doNotCall, dispositionCodes, catalogues.priorities)),
+    settings.dialingStrategy,
+    catalogues
+  ).map(emp => emp.id);
+
+// Clients auto calling works through: members of the selected list, or everyone
+const scopeToCallList = (employees: Employee[], callLists: CallList[], callListId: string | null): Employee[] => {
+  const list = callListId ? callLists.find(item => item.id === callListId) : undefined;
+  if (!list) {
+    return employees;
+  }
+  const memberIds = new Set(list.clientIds);
+  return employees.filter(emp => memberIds.has(emp.id));
+};
+
+const supabaseService = SupabaseService.getInstance();
 
 export const useCallSystem = () => {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [isAutoCallActive, setIsAutoCallActive] = useState(false);
-  const [currentCallingId, setCurrentCallingId] = useState<string | null>(null);
+  const [isAutoCallPaused, setIsAutoCallPaused] = useState(false);
+  const [currentCallingIds, setCurrentCallingIds] = useState<string[]>([]);
   const [currentEmployeeIndex, setCurrentEmployeeIndex] = useState(0);
   const [stats, setStats] = useState<CallSystemStats>({
     totalEmployees: 0,
     answered: 0,
     missed: 0,
     pending: 0,
+    busy: 0,
+    voicemail: 0,
+    machine: 0,
+    voicemailDrops: 0,
+    wrongNumber: 0,
+    disconnected: 0,
+    declined: 0,
+    callbackRequested: 0,
     currentRound: 1,
     monthlyAppointments: 0,
     completedWork: 0,
     urgentClients: 0,
   });
+  const [campaignSettings, setCampaignSettings] = useState<CampaignSettings>(DEFAULT_CAMPAIGN_SETTINGS);
+  const [deferredContacts, setDeferredContacts] = useState<DeferredContact[]>([]);
+  const [doNotCallEntries, setDoNotCallEntries] = useState<DoNotCallEntry[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [dispositionCodes, setDispositionCodes] = useState<DispositionCode[]>([]);
+  const [callbacks, setCallbacks] = useState<Callback[]>([]);
+  const [resumableSession, setResumableSession] = useState<CallSession | null>(null);
+  const [callLists, setCallLists] = useState<CallList[]>([]);
+  const [queuedClientIds, setQueuedClientIds] = useState<string[]>([]);
+  const [pendingDispositions, setPendingDispositions] = useState<PendingDisposition[]>([]);
+  const [selectedCallListId, setSelectedCallListId] = useState<string | null>(null);
+  const [pacing, setPacing] = useState<PacingSnapshot>(() => computePacing([], DEFAULT_CAMPAIGN_SETTINGS));
 
-  const supabaseService = SupabaseService.getInstance();
   const autoCallTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isAutoCallingRef = useRef(false);
+  // The auto-call loop runs across timeouts, so it reads live values from refs
+  const employeesRef = useRef<Employee[]>([]);
+  const campaignSettingsRef = useRef<CampaignSettings>(DEFAULT_CAMPAIGN_SETTINGS);
+  const currentRoundRef = useRef(1);
+  const roundQueueRef = useRef<string[]>([]);
+  const sessionStartRef = useRef(0);
+  const sessionAnsweredRef = useRef(0);
+  const doNotCallIndexRef = useRef<DoNotCallIndex>(new Map());
+  const dispositionCodeIndexRef = useRef<DispositionCodeIndex>(new Map());
+  const cataloguesRef = useRef<DialingCatalogues>({ priorities: new Map(), workStatuses: new Map() });
+  const callbacksRef = useRef<Callback[]>([]);
+  const sessionIdRef = useRef<string | null>(null);
+  // Callbacks already pulled into this session's queue, and the clients they put there
+  const injectedCallbackIdsRef = useRef<Set<string>>(new Set());
+  const callbackClientIdsRef = useRef<Set<string>>(new Set());
+  const callListsRef = useRef<CallList[]>([]);
+  const selectedCallListIdRef = useRef<string | null>(null);
+  // Parallel dialing: auto calls in flight (client id -> queue position), clients already
+  // dialed this round, and the position the loop waits at until a line frees up
+  const activeCallsRef = useRef<Map<string, number>>(new Map());
+  const dialedThisRoundRef = useRef<Set<string>>(new Set());
+  const waitingPositionRef = useRef<number | null>(null);
+  // One per auto-calling session: aborting it hangs up that session's calls, and calls
+  // that finish after it was replaced no longer touch the loop
+  const autoRunRef = useRef<AbortController | null>(null);
+  // While paused the loop holds at the next queue position instead of dialing it
+  const isPausedRef = useRef(false);
+  const pausedPositionRef = useRef<number | null>(null);
+  // First queue position the loop has not dialed yet; the queue panel may rearrange from here on
+  const queuePositionRef = useRef(0);
+  // Answered auto calls awaiting a disposition also hold the loop, like a pause
+  const pendingDispositionsRef = useRef<PendingDisposition[]>([]);
+  // Predictive pacing: recent auto calls per campaign (call list id, or 'all'), the pacing
+  // they give, and when each auto call now in conversation was answered
+  const pacingSamplesRef = useRef<Map<string, PacingSample[]>>(new Map());
+  const pacingRef = useRef<PacingSnapshot>(computePacing([], DEFAULT_CAMPAIGN_SETTINGS));
+  const liveAnswersRef = useRef<Map<string, Date>>(new Map());
 
   // Load employees on mount
   useEffect(() => {
@@ -37,10 +151,128 @@ export const useCallSystem = () => {
     initializeSystem();
   }, []);
 
-  // Update stats whenever employees change
+  // Update stats whenever employees or the work statuses change
   useEffect(() => {
+    employeesRef.current = employees;
     updateStats();
-  }, [employees]);
+  }, [employees, dispositionCodes]);
+
+  useEffect(() => {
+    campaignSettingsRef.current = campaignSettings;
+  }, [campaignSettings]);
+
+  useEffect(() => {
+    doNotCallIndexRef.current = buildDoNotCallIndex(doNotCallEntries);
+  }, [doNotCallEntries]);
+
+  useEffect(() => {
+    dispositionCodeIndexRef.current = buildDispositionCodeIndex(dispositionCodes);
+    cataloguesRef.current = {
+      priorities: buildDispositionCodeIndex(dispositionCodes, 'priority'),
+      workStatuses: buildDispositionCodeIndex(dispositionCodes, 'work_status'),
+    };
+  }, [dispositionCodes]);
+
+  useEffect(() => {
+    callbacksRef.current = callbacks;
+  }, [callbacks]);
+
+  useEffect(() => {
+    callListsRef.current = callLists;
+    selectedCallListIdRef.current = selectedCallListId;
+  }, [callLists, selectedCallListId]);
+
+  // Load named call lists
+  useEffect(() => {
+    const loadCallLists = async () => {
+      try {
+        setCallLists(await supabaseService.getCallLists());
+      } catch (error) {
+        console.error('Failed to load call lists:', error);
+      }
+    };
+    loadCallLists();
+  }, []);
+
+  // A session still marked active was interrupted (reload, crash) and can be resumed
+  useEffect(() => {
+    const loadActiveSession = async () => {
+      try {
+        setResumableSession(await supabaseService.getActiveCallSession());
+      } catch (error) {
+        console.error('Failed to load call session:', error);
+      }
+    };
+    loadActiveSession();
+  }, []);
+
+  // Load scheduled callbacks
+  useEffect(() => {
+    const loadCallbacks = async () => {
+      try {
+        setCallbacks(await supabaseService.getScheduledCallbacks());
+      } catch (error) {
+        console.error('Failed to load callbacks:', error);
+      }
+    };
+    loadCallbacks();
+  }, []);
+
+  // Load the personal and global do-not-call lists
+  useEffect(() => {
+    const loadDoNotCallEntries = async () => {
+      try {
+        setDoNotCallEntries(await supabaseService.getDoNotCallEntries());
+      } catch (error) {
+        console.error('Failed to load do-not-call list:', error);
+      }
+    };
+    loadDoNotCallEntries();
+  }, []);
+
+  // Administrators manage the global do-not-call list and the team disposition codes
+  useEffect(() => {
+    supabaseService.isCurrentUserAdmin().then(setIsAdmin);
+  }, []);
+
+  // Recordings past the user's retention period are removed whenever the app opens
+  useEffect(() => {
+    const purgeExpiredRecordings = async () => {
+      try {
+        const removed = await supabaseService.purgeExpiredRecordings();
+        if (removed > 0) {
+          console.log(`🗑️ Removed ${removed} expired call recording(s)`);
+        }
+      } catch (error) {
+        console.error('Failed to purge expired recordings:', error);
+      }
+    };
+    purgeExpiredRecordings();
+  }, []);
+
+  // Load the personal and shared disposition codes
+  useEffect(() => {
+    const loadDispositionCodes = async () => {
+      try {
+        setDispositionCodes(await supabaseService.getDispositionCodes());
+      } catch (error) {
+        console.error('Failed to load disposition codes:', error);
+      }
+    };
+    loadDispositionCodes();
+  }, []);
+
+  // Load the user's campaign settings
+  useEffect(() => {
+    const loadCampaignSettings = async () => {
+      try {
+        setCampaignSettings(await supabaseService.getCampaignSettings());
+      } catch (error) {
+        console.error('Failed to load campaign settings:', error);
+      }
+    };
+    loadCampaignSettings();
+  }, []);
 
   // Load monthly appointments count
   useEffect(() => {
@@ -82,8 +314,10 @@ export const useCallSystem = () => {
     const answered = employees.filter(emp => emp.status === 'answered').length;
     const missed = employees.filter(emp => emp.status === 'missed').length;
     const pending = employees.filter(emp => emp.status === 'pending').length;
+    const countStatus = (status: Employee['status']) => employees.filter(emp => emp.status === status).length;
     const urgentClients = employees.filter(emp => emp.isUrgent).length;
-    const completedWork = employees.filter(emp => emp.workStatus === 'completed').length;
+    const workStatuses = buildDispositionCodeIndex(dispositionCodes, 'work_status');
+    const completedWork = employees.filter(emp => isWorkDone(emp, workStatuses)).length;
 
     setStats(prev => ({
       ...prev,
@@ -91,12 +325,19 @@ export const useCallSystem = () => {
       answered,
       missed,
       pending,
+      busy: countStatus('busy'),
+      voicemail: countStatus('voicemail'),
+      machine: countStatus('machine'),
+      wrongNumber: countStatus('wrong-number'),
+      disconnected: countStatus('disconnected'),
+      declined: countStatus('declined'),
+      callbackRequested: countStatus('callback-requested'),
       urgentClients,
       completedWork,
     }));
   };
 
-  const updateEmployeeStatus = (employeeId: string, status: Employee['status']) => {
+  const updateEmployeeStatus = (employeeId: string, status: Employee['status'], nextEligibleAt?: Date) => {
     setEmployees(prev =>
       prev.map(emp => {
         if (emp.id === employeeId) {
@@ -104,7 +345,8 @@ export const useCallSystem = () => {
             ...emp,
             status,
             lastCallTime: new Date(),
-            callAttempts: status === 'calling' ? emp.callAttempts : emp.callAttempts + 1
+            callAttempts: status === 'calling' ? emp.callAttempts : emp.callAttempts + 1,
+            nextEligibleAt: status === 'calling' ? emp.nextEligibleAt : nextEligibleAt,
           };
         }
         return emp;
@@ -112,196 +354,545 @@ export const useCallSystem = () => {
     );
   };
 
-  const callEmployee = useCallback(async (employeeId: string): Promise<boolean> => {
+  const recordCallLog = useCallback(async (employeeId: string, logData: Omit<CallLog, 'id' | 'clientId'>): Promise<CallLog | null> => {
+    try {
+      return await supabaseService.addCallLog(employeeId, logData);
+    } catch (error) {
+      // Logging must never interrupt a calling session
+      console.error('Failed to record call log:', error);
+      return null;
+    }
+  }, []);
+
+  // The pacing helpers only read refs, so they keep their identity across renders
+  const pacingKey = useCallback(() => selectedCallListIdRef.current || 'all', []);
+
+  const refreshPacing = useCallback(() => {
+    const samples = pacingSamplesRef.current.get(pacingKey()) || [];
+    pacingRef.current = computePacing(samples, campaignSettingsRef.current);
+    setPacing(pacingRef.current);
+  }, [pacingKey]);
+
+  const recordPacingSample = useCallback((sample: PacingSample) => {
+    const key = pacingKey();
+    pacingSamplesRef.current.set(key, addPacingSample(pacingSamplesRef.current.get(key) || [], sample));
+    refreshPacing();
+  }, [pacingKey, refreshPacing]);
+
+  // A campaign dialed for the first time this session starts from its recent call history
+  const seedPacing = useCallback((clients: Employee[]) => {
+    const key = pacingKey();
+    if (pacingSamplesRef.current.has(key)) return;
+    pacingSamplesRef.current.set(key, []);
+    supabaseService.getRecentAutoCallLogs(PACING_WINDOW, key === 'all' ? undefined : clients.map(emp => emp.id))
+      .then(logs => {
+        const live = pacingSamplesRef.current.get(key) || [];
+        const history = logs.reverse().map(toPacingSample);
+        pacingSamplesRef.current.set(key, [...history, ...live].slice(-PACING_WINDOW));
+        if (pacingKey() === key) {
+          refreshPacing();
+        }
+      })
+      .catch(error => console.error('Failed to load call history for pacing:', error));
+  }, [pacingKey, refreshPacing]);
+
+  // Pacing follows the campaign settings and the selected call list
+  useEffect(() => {
+    refreshPacing();
+  }, [campaignSettings, callLists, selectedCallListId, refreshPacing]);
+
+  const updatePendingDispositions = (update: (pending: PendingDisposition[]) => PendingDisposition[]) => {
+    pendingDispositionsRef.current = update(pendingDispositionsRef.current);
+    setPendingDispositions(pendingDispositionsRef.current);
+  };
+
+  // Manual calls still get the form, but only auto calls hold the loop for it
+  const isHeldForDisposition = useCallback(
+    () => pendingDispositionsRef.current.some(item => item.callMode === 'auto'),
+    []
+  );
+
+  // Reaching a client settles every callback of theirs that has fallen due
+  const completeDueCallbacks = useCallback(async (employeeId: string) => {
+    const due = callbacksRef.current.filter(callback =>
+      callback.clientId === employeeId && callback.dueAt.getTime() <= Date.now()
+    );
+    for (const callback of due) {
+      try {
+        await supabaseService.updateCallbackStatus(callback.id, 'completed');
+        setCallbacks(prev => prev.filter(item => item.id !== callback.id));
+      } catch (error) {
+        console.error('Failed to complete callback:', error);
+      }
+    }
+  }, []);
+
+  const deferContact = (employee: Employee, callableAt: Date) => {
+    const deferred = { employeeId: employee.id, timeZone: resolveClientTimeZone(employee), callableAt };
+    setDeferredContacts(prev => [...prev.filter(item => item.employeeId !== employee.id), deferred]);
+  };
+
+  const clearDeferredContact = (employeeId: string) => {
+    setDeferredContacts(prev => prev.filter(item => item.employeeId !== employeeId));
+  };
+
+  const callEmployee = useCallback(async (
+    employeeId: string,
+    options: { mode?: CallLog['callMode']; round?: number; signal?: AbortSignal } = {}
+  ): Promise<boolean> => {
+    const callMode = options.mode || 'manual';
+    const startedAt = new Date();
+
+    const settings = campaignSettingsRef.current;
+    const employee = employeesRef.current.find(emp => emp.id === employeeId);
+
+    // Do-not-call entries can never be overridden, not even for a manual call
+    const blockedBy = employee && findDoNotCallEntry(employee, doNotCallIndexRef.current, settings.defaultCountry);
+    if (blockedBy) {
+      console.log(`🚫 ${employee.name} is on the ${blockedBy.scope === 'global' ? 'global' : 'personal'} do-not-call list`);
+      if (callMode === 'manual') {
+        alert(`🚫 ${employee.name} is on the do-not-call list and cannot be called.`);
+      }
+      return false;
+    }
+
+    // Manual calls may go out of hours, but only once the agent has confirmed it
+    if (callMode === 'manual' && employee && settings.enforceCallingWindow) {
+      const callableAt = getNextCallableTime(employee, settings, startedAt);
+      if (callableAt > startedAt) {
+        const timeZone = resolveClientTimeZone(employee);
+        const proceed = window.confirm(
+          `⚠️ It is ${formatTimeInZone(startedAt, timeZone)} for ${employee.name} (${timeZone}), ` +
+          `outside your calling hours of ${settings.callingWindowStart}-${settings.callingWindowEnd}.\n\n` +
+          `Call anyway?`
+        );
+        if (!proceed) {
+          return false;
+        }
+      }
+    }
+    clearDeferredContact(employeeId);
+
     try {
       console.log(`📞 Calling employee ${employeeId}`);
       
       // Set calling status
       updateEmployeeStatus(employeeId, 'calling');
-      setCurrentCallingId(employeeId);
+      setCurrentCallingIds(prev => (prev.includes(employeeId) ? prev : [...prev, employeeId]));
 
-      // Create promise with 10-second timeout
-      const callResult = await new Promise<boolean>((resolve) => {
-        let resolved = false;
-        
-        // 10-second timeout
-        const timeoutId = setTimeout(() => {
-          if (!resolved) {
-            resolved = true;
-            console.log(`⏰ Timeout for employee ${employeeId}`);
-            resolve(false);
+      // Dial through the telephony provider; unanswered calls are hung up after the ring timeout
+      const result = await supabaseService.callClient(employeeId, {
+        ringTimeoutMs: campaignSettingsRef.current.ringTimeoutSeconds * 1000,
+        retryRules: campaignSettingsRef.current.retryRules,
+        voicemailDropPath: campaignSettingsRef.current.voicemailDropPath,
+        signal: options.signal,
+        onEvent: event => {
+          console.log(`📶 Call ${event.callId} for ${employeeId}: ${event.type}`);
+          if (callMode === 'auto' && event.type === 'answered') {
+            liveAnswersRef.current.set(employeeId, event.timestamp);
           }
-        }, 10000);
-        
-        // API call
-        supabaseService.callClient(employeeId).then(result => {
-          if (!resolved) {
-            resolved = true;
-            clearTimeout(timeoutId);
-            console.log(`✅ Call result for ${employeeId}: ${result.answered}`);
-            resolve(result.answered);
-          }
-        }).catch(() => {
-          if (!resolved) {
-            resolved = true;
-            clearTimeout(timeoutId);
-            resolve(false);
-          }
-        });
+        },
       });
+      liveAnswersRef.current.delete(employeeId);
+      console.log(`✅ Call result for ${employeeId}: ${result.outcome}`);
+      if (callMode === 'auto' && result.outcome === 'answered') {
+        sessionAnsweredRef.current += 1;
+      }
+      if (result.outcome === 'answered') {
+        await completeDueCallbacks(employeeId);
+      }
       
       // Update final status
-      const finalStatus = callResult ? 'answered' : 'missed';
-      updateEmployeeStatus(employeeId, finalStatus);
-      setCurrentCallingId(null);
+      const finalStatus = statusFromCallOutcome(result.outcome);
+      updateEmployeeStatus(
+        employeeId,
+        finalStatus,
+        computeNextEligibleAt(finalStatus, campaignSettingsRef.current.retryRules, result.endedAt)
+      );
+      setCurrentCallingIds(prev => prev.filter(id => id !== employeeId));
+
+      if (result.voicemailDropped) {
+        setStats(prev => ({ ...prev, voicemailDrops: prev.voicemailDrops + 1 }));
+      }
+
+      const ringEnd = result.answeredAt || result.machineDetectedAt || result.endedAt;
+      const attempt = {
+        startedAt: result.startedAt,
+        endedAt: result.endedAt,
+        ringDurationSeconds: (ringEnd.getTime() - result.startedAt.getTime()) / 1000,
+        talkDurationSeconds: result.answeredAt
+          ? (result.endedAt.getTime() - result.answeredAt.getTime()) / 1000
+          : 0,
+        outcome: finalStatus,
+        roundNumber: options.round,
+        callMode,
+        providerCallId: result.callId || undefined,
+        voicemailDropped: result.voicemailDropped,
+        notes: result.outcome === 'machine'
+          ? (result.voicemailDropped ? 'Answering machine - voicemail message left' : 'Answering machine - no message left')
+          : undefined,
+      };
+      if (callMode === 'auto') {
+        recordPacingSample(toPacingSample(attempt));
+      }
+      const callLog = await recordCallLog(employeeId, attempt);
+
+      // Recordings are attached to the logged attempt, and only ever made with consent
+      if (result.outcome === 'answered' && callLog && employee?.recordingConsent) {
+        supabaseService.saveProviderRecording(employeeId, callLog, settings.recordingRetentionDays)
+          .catch(error => console.error('Failed to save call recording:', error));
+      }
+
+      // The disposition is linked to the logged call, so it needs the log to have been saved
+      if (result.outcome === 'answered' && callLog) {
+        updatePendingDispositions(prev => [
+          ...prev,
+          { callLogId: callLog.id, clientId: employeeId, callMode, answeredAt: result.answeredAt || result.endedAt },
+        ]);
+      }
       
-      return callResult;
+      return result.outcome === 'answered';
     } catch (error) {
       console.error('Call failed:', error);
+      liveAnswersRef.current.delete(employeeId);
       updateEmployeeStatus(employeeId, 'missed');
-      setCurrentCallingId(null);
+      setCurrentCallingIds(prev => prev.filter(id => id !== employeeId));
+
+      const endedAt = new Date();
+      await recordCallLog(employeeId, {
+        startedAt,
+        endedAt,
+        ringDurationSeconds: (endedAt.getTime() - startedAt.getTime()) / 1000,
+        talkDurationSeconds: 0,
+        outcome: 'missed',
+        roundNumber: options.round,
+        callMode,
+        notes: error instanceof Error ? `Call failed: ${error.message}` : 'Call failed',
+      });
       return false;
     }
+  }, [completeDueCallbacks, recordCallLog, recordPacingSample]);
+
+  const publishQueue = (position: number) => {
+    queuePositionRef.current = position;
+    setQueuedClientIds(roundQueueRef.current.slice(position));
+  };
+
+  const saveSessionProgress = useCallback((position: number) => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
+    supabaseService.updateCallSession(sessionId, {
+      currentRound: currentRoundRef.current,
+      queue: roundQueueRef.current,
+      position,
+      answeredCount: sessionAnsweredRef.current,
+    }).catch(error => console.error('Failed to save call session:', error));
   }, []);
 
-  const stopAutoCalling = useCallback(() => {
+  const finishAutoCalling = useCallback((sessionStatus: 'completed' | 'stopped') => {
     console.log('🛑 Stopping auto calling');
     setIsAutoCallActive(false);
     isAutoCallingRef.current = false;
+    setIsAutoCallPaused(false);
+    isPausedRef.current = false;
+    pausedPositionRef.current = null;
     
     if (autoCallTimeoutRef.current) {
       clearTimeout(autoCallTimeoutRef.current);
       autoCallTimeoutRef.current = null;
     }
-    
-    setCurrentCallingId(null);
+    waitingPositionRef.current = null;
+    setQueuedClientIds([]);
+
+    // Calls still ringing or connected are hung up; they settle on their own afterwards
+    autoRunRef.current?.abort();
+    autoRunRef.current = null;
+    activeCallsRef.current = new Map();
+    dialedThisRoundRef.current = new Set();
+
+    const sessionId = sessionIdRef.current;
+    sessionIdRef.current = null;
+    if (sessionId) {
+      supabaseService.endCallSession(sessionId, sessionStatus)
+        .catch(error => console.error('Failed to end call session:', error));
+    }
+  }, []);
+
+  const stopAutoCalling = useCallback(() => finishAutoCalling('stopped'), [finishAutoCalling]);
+
+  // Calls already ringing finish normally; the loop stops before dialing the next client
+  const pauseAutoCalling = useCallback(() => {
+    if (!isAutoCallingRef.current || isPausedRef.current) {
+      return;
+    }
+    console.log('⏸️ Pausing auto calling');
+    isPausedRef.current = true;
+    setIsAutoCallPaused(true);
   }, []);
 
-  const processAutoCall = useCallback(async (employeeIndex: number) => {
-    if (!isAutoCallingRef.current || employees.length === 0) {
+  const processAutoCall = useCallback((position: number) => {
+    const currentEmployees = scopeToCallList(employeesRef.current, callListsRef.current, selectedCallListIdRef.current);
+    if (!isAutoCallingRef.current || currentEmployees.length === 0) {
       console.log('🛑 Auto calling stopped or no employees');
       return;
     }
 
-    const currentRound = stats.currentRound;
-    console.log(`🔄 Processing Auto Call - Round ${currentRound}, Index ${employeeIndex}`);
+    const settings = campaignSettingsRef.current;
+    const currentRound = currentRoundRef.current;
+    if (isPausedRef.current || isHeldForDisposition()) {
+      console.log(isPausedRef.current
+        ? `⏸️ Paused - holding at Round ${currentRound}, Position ${position}`
+        : `📝 Waiting for call disposition - holding at Round ${currentRound}, Position ${position}`);
+      pausedPositionRef.current = position;
+      publishQueue(position);
+      saveSessionProgress(Math.min(position, ...activeCallsRef.current.values()));
+      return;
+    }
+    console.log(`🔄 Processing Auto Call - Round ${currentRound}, Position ${position}`);
+
+    // 🛑 Campaign stop conditions
+    if (settings.stopAfterAnswered && sessionAnsweredRef.current >= settings.stopAfterAnswered) {
+      console.log(`🛑 AUTO STOPS: ${sessionAnsweredRef.current} calls answered this session`);
+      alert(`🛑 AUTO STOPS: ${sessionAnsweredRef.current} calls answered - campaign target reached!`);
+      finishAutoCalling('completed');
+      return;
+    }
+    if (settings.stopAfterMinutes && Date.now() - sessionStartRef.current >= settings.stopAfterMinutes * 60000) {
+      console.log(`🛑 AUTO STOPS: ${settings.stopAfterMinutes} minute limit reached`);
+      alert(`🛑 AUTO STOPS: Campaign time limit of ${settings.stopAfterMinutes} minutes reached.`);
+      finishAutoCalling('completed');
+      return;
+    }
     
-    // 🛑 FIRST CHECK: Auto stops when everyone has answered
-    const notAnsweredContacts = employees.filter(emp => 
-      emp.status === 'pending' || emp.status === 'missed'
+    // 📅 Callbacks that have fallen due jump the queue, ahead of the rest of this round
+    // A client already dialed or ringing this round keeps their callback for the next round
+    const dueCallbacks = callbacksRef.current.filter(callback =>
+      callback.dueAt.getTime() <= Date.now() &&
+      !injectedCallbackIdsRef.current.has(callback.id) &&
+      !activeCallsRef.current.has(callback.clientId) &&
+      !dialedThisRoundRef.current.has(callback.clientId)
+    );
+    if (dueCallbacks.length > 0) {
+      const dueClientIds = Array.from(new Set(dueCallbacks.map(callback => callback.clientId)))
+        .filter(clientId => currentEmployees.some(emp => emp.id === clientId));
+      dueCallbacks.forEach(callback => injectedCallbackIdsRef.current.add(callback.id));
+      dueClientIds.forEach(clientId => callbackClientIdsRef.current.add(clientId));
+      const queue = roundQueueRef.current;
+      roundQueueRef.current = [
+        ...queue.slice(0, position),
+        ...dueClientIds,
+        ...queue.slice(position).filter(clientId => !dueClientIds.includes(clientId)),
+      ];
+      console.log(`📅 ${dueClientIds.length} callback(s) due - moved to the front of the queue`);
+    }
+    publishQueue(position);
+
+    // 🛑 FIRST CHECK: Auto stops when nobody is left to retry
+    // (wrong and disconnected numbers are never retried)
+    const notAnsweredContacts = currentEmployees.filter(emp =>
+      isRetryableStatus(emp.status) && isDialable(emp, settings, doNotCallIndexRef.current, dispositionCodeIndexRef.current, cataloguesRef.current.priorities)
     );
     
-    if (notAnsweredContacts.length === 0) {
+    if (notAnsweredContacts.length === 0 && callbackClientIdsRef.current.size === 0) {
+      if (activeCallsRef.current.size > 0) {
+        // Calls still ringing may yet go unanswered
+        waitingPositionRef.current = position;
+        return;
+      }
       console.log(`🛑 AUTO STOPS: Everyone has answered after ${currentRound} rounds!`);
       console.log(`🎉 Complete automation - no manual intervention needed`);
       alert('🎉 AUTO STOPS: Everyone has answered! All contacts reached successfully!\n\n✅ Perfect automation complete!');
-      stopAutoCalling();
+      finishAutoCalling('completed');
       return;
     }
     
-    // 🎯 PERFECT FLOW: Determine which clients to call based on round
-    let clientsToCall: Employee[];
-    if (currentRound === 1) {
-      // 🚀 FIRST ROUND: Call ALL persons - every single person in the list
-      clientsToCall = [...employees];
-      console.log(`🚀 FIRST ROUND: Calls ALL persons - every single person (${employees.length} total)`);
-      console.log(`📞 Goes through: Person 1 → Person 2 → Person 3 → ... → Last Person`);
-    } else {
-      // 🎯 SECOND ROUND AND BEYOND: ONLY calls NOT ANSWERED persons
-      clientsToCall = notAnsweredContacts;
-      console.log(`🎯 ROUND ${currentRound}: ONLY calls NOT ANSWERED persons (${clientsToCall.length} remaining)`);
-      console.log(`🚫 Skips all answered persons completely`);
-      console.log(`🔄 Continues calling only the not answered contacts`);
-      
-      // Show which contacts are being skipped
-      const answeredContacts = employees.filter(emp => emp.status === 'answered');
-      if (answeredContacts.length > 0) {
-        console.log(`✅ SKIPPING ${answeredContacts.length} answered contacts:`, answeredContacts.map(emp => emp.name));
-      }
-    }
-    
     // 🔁 CONTINUOUS OPERATION: Check if current round is completed
-    if (employeeIndex >= clientsToCall.length) {
+    const roundQueue = roundQueueRef.current;
+    if (position >= roundQueue.length) {
+      if (activeCallsRef.current.size > 0) {
+        console.log(`⏳ Round ${currentRound} dialed - waiting for ${activeCallsRef.current.size} call(s) to finish`);
+        waitingPositionRef.current = position;
+        return;
+      }
       console.log(`🔄 Round ${currentRound} completed - checking for not answered contacts`);
-      
-      // 🛑 DOUBLE CHECK: Auto Stops when everyone has answered
-      const stillUnanswered = employees.filter(emp => 
-        emp.status === 'pending' || emp.status === 'missed'
-      );
-      
-      if (stillUnanswered.length === 0) {
-        console.log(`🛑 AUTO STOPS: Everyone has answered after ${currentRound} rounds!`);
-        console.log(`🎉 Complete automation - no manual intervention needed`);
-        alert('🎉 AUTO STOPS: Everyone has answered! All contacts reached successfully!\n\n✅ Perfect automation complete!');
-        stopAutoCalling();
+
+      if (settings.maxRounds && currentRound >= settings.maxRounds) {
+        console.log(`🛑 AUTO STOPS: Maximum of ${settings.maxRounds} rounds reached`);
+        alert(`🛑 AUTO STOPS: Maximum of ${settings.maxRounds} rounds reached.\n\n${notAnsweredContacts.length} contacts still not reached.`);
+        finishAutoCalling('completed');
         return;
       }
       
       // 🔁 CONTINUOUS OPERATION: Until all not answered contacts are reached
       const nextRound = currentRound + 1;
-      console.log(`🔁 CONTINUOUS OPERATION: ${stillUnanswered.length} not answered contacts remain`);
-      console.log(`🔄 Starting Round ${nextRound} - ONLY NOT ANSWERED persons:`, stillUnanswered.map(emp => emp.name));
+      // Due callbacks not dialed yet lead the next round, even for clients the round itself leaves out
+      const pendingCallbackClients = currentEmployees.filter(emp => callbackClientIdsRef.current.has(emp.id));
+      roundQueueRef.current = [
+        ...pendingCallbackClients.map(emp => emp.id),
+        ...buildRoundQueue(
+          nextRound,
+          currentEmployees,
+          settings,
+          doNotCallIndexRef.current,
+          dispositionCodeIndexRef.current,
+          cataloguesRef.current
+        ).filter(clientId => !callbackClientIdsRef.current.has(clientId)),
+      ];
+      currentRoundRef.current = nextRound;
+      dialedThisRoundRef.current = new Set();
+      publishQueue(0);
+      saveSessionProgress(0);
+      console.log(`🔁 CONTINUOUS OPERATION: ${notAnsweredContacts.length} not answered contacts remain`);
+      console.log(`🔄 Starting Round ${nextRound} - ONLY NOT ANSWERED persons:`, notAnsweredContacts.map(emp => emp.name));
       setStats(prev => ({ ...prev, currentRound: nextRound }));
+
+      // When every remaining contact is waiting out a retry delay or is outside calling hours,
+      // wait for the first of them to become callable; a pending callback is already due
+      let roundDelayMs = settings.interRoundDelaySeconds * 1000;
+      const now = new Date();
+      const callableTimes = [
+        ...notAnsweredContacts.map(emp => {
+          const eligibility = getRetryEligibility(emp, settings.retryRules, dispositionCodeIndexRef.current, now);
+          return { emp, eligibleAt: !eligibility.eligible && eligibility.eligibleAt ? eligibility.eligibleAt : now };
+        }),
+        ...pendingCallbackClients.map(emp => ({ emp, eligibleAt: now })),
+      ].map(({ emp, eligibleAt }) =>
+        settings.enforceCallingWindow ? getNextCallableTime(emp, settings, eligibleAt).getTime() : eligibleAt.getTime()
+      );
+      const firstCallableAt = callableTimes.length > 0 ? Math.min(...callableTimes) : now.getTime();
+      if (firstCallableAt > now.getTime()) {
+        console.log(`⏳ Nobody can be called yet - Round ${nextRound} starts at ${new Date(firstCallableAt).toLocaleString()}`);
+        roundDelayMs = Math.max(roundDelayMs, firstCallableAt - now.getTime());
+      }
       
-      // Start next round after 2-second delay
+      // Start next round after the configured delay
       autoCallTimeoutRef.current = setTimeout(() => {
         if (isAutoCallingRef.current) {
           processAutoCall(0);
         }
-      }, 2000);
+      }, roundDelayMs);
       return;
     }
 
-    
-    // Get current client to call
-    const currentClient = clientsToCall[employeeIndex];
-    if (!currentClient) {
-      console.log('❌ No client found at index', employeeIndex);
-      // Move to next client if current one doesn't exist
+    // Get current client to call - skip anyone reached or exhausted since the round was built,
+    // and anyone already dialed this round or on a call right now.
+    // A due callback is always dialed unless the number is on the do-not-call list.
+    const currentClient = currentEmployees.find(emp => emp.id === roundQueue[position]);
+    const isCallback = !!currentClient && callbackClientIdsRef.current.delete(currentClient.id);
+    if (
+      !currentClient ||
+      currentClient.status === 'calling' ||
+      activeCallsRef.current.has(currentClient.id) ||
+      dialedThisRoundRef.current.has(currentClient.id) ||
+      (isCallback
+        ? !!findDoNotCallEntry(currentClient, doNotCallIndexRef.current, settings.defaultCountry)
+        : !isDialable(
+            currentClient,
+            settings,
+            doNotCallIndexRef.current,
+            dispositionCodeIndexRef.current,
+            cataloguesRef.current.priorities
+          ) ||
+          (currentRound > 1 && !isRetryableStatus(currentClient.status)))
+    ) {
+      console.log('⏭️ Skipping queue position', position);
       autoCallTimeoutRef.current = setTimeout(() => {
         if (isAutoCallingRef.current) {
-          processAutoCall(employeeIndex + 1);
+          processAutoCall(position + 1);
         }
       }, 100);
       return;
     }
-    
-    // Find the actual index in the full employees array
-    const actualIndex = employees.findIndex(emp => emp.id === currentClient.id);
-    if (actualIndex === -1) {
-      console.log('❌ Client not found in employees array');
-      // Move to next client
-      autoCallTimeoutRef.current = setTimeout(() => {
-        if (isAutoCallingRef.current) {
-          processAutoCall(employeeIndex + 1);
-        }
-      }, 100);
-      return;
+
+    // ⏳ Retry rules: leave the client until their retry delay is over; a due callback overrides the wait
+    if (!isCallback) {
+      const eligibility = getRetryEligibility(currentClient, settings.retryRules, dispositionCodeIndexRef.current);
+      if (!eligibility.eligible) {
+        console.log(`⏳ Skipping ${currentClient.name} until ${eligibility.eligibleAt?.toLocaleString()} (${eligibility.reason})`);
+        autoCallTimeoutRef.current = setTimeout(() => {
+          if (isAutoCallingRef.current) {
+            processAutoCall(position + 1);
+          }
+        }, 100);
+        return;
+      }
+    }
+
+    // 🌙 Never auto-dial outside calling hours in the client's own time zone
+    if (settings.enforceCallingWindow) {
+      const callableAt = getNextCallableTime(currentClient, settings);
+      if (callableAt.getTime() > Date.now()) {
+        console.log(`🌙 Deferring ${currentClient.name} until ${callableAt.toLocaleString()} (outside calling hours)`);
+        deferContact(currentClient, callableAt);
+        autoCallTimeoutRef.current = setTimeout(() => {
+          if (isAutoCallingRef.current) {
+            processAutoCall(position + 1);
+          }
+        }, 100);
+        return;
+      }
     }
     
-    console.log(`📞 Round ${currentRound}: Calling ${currentClient.name} (${employeeIndex + 1}/${clientsToCall.length})`);
-    if (currentRound === 1) {
+    // 🎧 Predictive pacing: while the agent is talking, hold new dials until the call is nearly over
+    if (settings.predictivePacing) {
+      const holdMs = getTalkHoldMs(Array.from(liveAnswersRef.current.values()), pacingRef.current);
+      if (holdMs > 0) {
+        console.log(`🎧 Agent on a call - next dial in ${Math.round(holdMs / 1000)}s`);
+        autoCallTimeoutRef.current = setTimeout(() => {
+          if (isAutoCallingRef.current) {
+            processAutoCall(position);
+          }
+        }, holdMs);
+        return;
+      }
+    }
+
+    console.log(`📞 Round ${currentRound}: Calling ${currentClient.name} (${position + 1}/${roundQueue.length})`);
+    if (isCallback) {
+      console.log(`📅 Scheduled callback for ${currentClient.name}`);
+    } else if (currentRound === 1) {
       console.log(`✅ Some answer, ❌ some don't answer`);
     } else {
       console.log(`🎯 ONLY calling NOT ANSWERED - skipping all answered contacts`);
     }
-    setCurrentEmployeeIndex(actualIndex);
-    
-    try {
-      await callEmployee(currentClient.id);
-    } catch (error) {
-      console.error('Error calling contact:', error);
-    }
-    
-    // Move to next client after 1.5-second delay
-    if (isAutoCallingRef.current) {
-      autoCallTimeoutRef.current = setTimeout(() => {
-        if (isAutoCallingRef.current) {
-          processAutoCall(employeeIndex + 1);
+    setCurrentEmployeeIndex(employeesRef.current.findIndex(emp => emp.id === currentClient.id));
+    dialedThisRoundRef.current.add(currentClient.id);
+    activeCallsRef.current.set(currentClient.id, position);
+    publishQueue(position + 1);
+    // Saved before dialing from the earliest call still ringing, so a reload dials those clients again
+    saveSessionProgress(Math.min(...activeCallsRef.current.values()));
+
+    const run = autoRunRef.current;
+    callEmployee(currentClient.id, { mode: 'auto', round: currentRound, signal: run?.signal })
+      .catch(error => console.error('Error calling contact:', error))
+      .finally(() => {
+        // A call from a session that was stopped since has nothing left to resume
+        if (run !== autoRunRef.current) return;
+        activeCallsRef.current.delete(currentClient.id);
+        // A line is free again - carry on from where the loop was waiting
+        const waitingPosition = waitingPositionRef.current;
+        if (waitingPosition !== null && isAutoCallingRef.current) {
+          waitingPositionRef.current = null;
+          autoCallTimeoutRef.current = setTimeout(() => {
+            if (isAutoCallingRef.current) {
+              processAutoCall(waitingPosition);
+            }
+          }, pacingRef.current.interCallDelaySeconds * 1000);
         }
-      }, 1500);
+      });
+
+    // Dial the next client after the paced delay while lines are free, otherwise wait for
+    // a call to finish. With one line this is the classic one-by-one loop.
+    if (activeCallsRef.current.size >= pacingRef.current.linesInFlight) {
+      waitingPositionRef.current = position + 1;
+      return;
     }
-  }, [employees, callEmployee, stopAutoCalling, stats.currentRound]);
+    autoCallTimeoutRef.current = setTimeout(() => {
+      if (isAutoCallingRef.current) {
+        processAutoCall(position + 1);
+      }
+    }, pacingRef.current.interCallDelaySeconds * 1000);
+  }, [callEmployee, finishAutoCalling, saveSessionProgress, isHeldForDisposition]);
 
   const startAutoCalling = useCallback(() => {
     if (isAutoCallActive) {
@@ -309,24 +900,66 @@ export const useCallSystem = () => {
       return;
     }
     
-    if (employees.length === 0) {
-      alert('❌ No clients available. Please add clients first.');
+    const listEmployees = scopeToCallList(employees, callLists, selectedCallListId);
+    if (listEmployees.length === 0) {
+      alert(selectedCallListId
+        ? '❌ The selected call list has no clients. Add clients to it first.'
+        : '❌ No clients available. Please add clients first.');
       return;
     }
     
     console.log('🚀 PERFECT AUTO CALLING SYSTEM STARTING');
     console.log('═══════════════════════════════════════');
     console.log('🎯 FIRST ROUND: Calls ALL persons - every single person in the list');
-    console.log(`📞 Goes through: Person 1 → Person 2 → Person 3 → ... → Last Person (${employees.length} total)`);
+    console.log(`📞 Goes through: Person 1 → Person 2 → Person 3 → ... → Last Person (${listEmployees.length} total)`);
     console.log('✅ Some answer, ❌ some don\'t answer');
     console.log('═══════════════════════════════════════');
     
     setIsAutoCallActive(true);
     isAutoCallingRef.current = true;
+    sessionStartRef.current = Date.now();
+    sessionAnsweredRef.current = 0;
+    setDeferredContacts([]);
+    injectedCallbackIdsRef.current = new Set();
+    callbackClientIdsRef.current = new Set();
+    dialedThisRoundRef.current = new Set();
+    activeCallsRef.current = new Map();
+    waitingPositionRef.current = null;
+    autoRunRef.current = new AbortController();
+    liveAnswersRef.current = new Map();
+    seedPacing(listEmployees);
     
     // 🚀 FIRST ROUND: Call ALL persons - every single person
+    currentRoundRef.current = 1;
+    roundQueueRef.current = buildRoundQueue(
+      1,
+      listEmployees,
+      campaignSettingsRef.current,
+      doNotCallIndexRef.current,
+      dispositionCodeIndexRef.current,
+      cataloguesRef.current
+    );
     setStats(prev => ({ ...prev, currentRound: 1 }));
     setCurrentEmployeeIndex(0);
+
+    // Persist the session so it can be resumed after a reload; starting anew abandons an old one
+    sessionIdRef.current = null;
+    setResumableSession(null);
+    supabaseService.startCallSession({
+      queue: roundQueueRef.current,
+      settings: campaignSettingsRef.current,
+      callListId: selectedCallListId || undefined,
+      startedAt: new Date(sessionStartRef.current),
+    })
+      .then(session => {
+        if (isAutoCallingRef.current) {
+          sessionIdRef.current = session.id;
+        } else {
+          // Stopped before the session was saved
+          return supabaseService.endCallSession(session.id, 'stopped');
+        }
+      })
+      .catch(error => console.error('Failed to start call session:', error));
     
     // Start calling after short delay
     autoCallTimeoutRef.current = setTimeout(() => {
@@ -334,7 +967,208 @@ export const useCallSystem = () => {
         processAutoCall(0);
       }
     }, 500);
-  }, [employees, isAutoCallActive, processAutoCall]);
+  }, [employees, callLists, selectedCallListId, isAutoCallActive, processAutoCall, seedPacing]);
+
+  // Only restarts the loop if it was held; otherwise its pending timeout or call carries on
+  const releaseHeldLoop = useCallback(() => {
+    if (isPausedRef.current || isHeldForDisposition()) {
+      return;
+    }
+    const position = pausedPositionRef.current;
+    pausedPositionRef.current = null;
+    if (position !== null && isAutoCallingRef.current) {
+      autoCallTimeoutRef.current = setTimeout(() => {
+        if (isAutoCallingRef.current) {
+          processAutoCall(position);
+        }
+      }, 500);
+    }
+  }, [isHeldForDisposition, processAutoCall]);
+
+  const resumeAutoCalling = useCallback(() => {
+    if (!isAutoCallingRef.current || !isPausedRef.current) {
+      return;
+    }
+    console.log('▶️ Resuming auto calling');
+    isPausedRef.current = false;
+    setIsAutoCallPaused(false);
+    releaseHeldLoop();
+  }, [releaseHeldLoop]);
+
+  // Books any callback or appointment the agent asked for, then saves the disposition.
+  // An auto-dismissed form only saves what was filled in so far.
+  const submitDisposition = async (pending: PendingDisposition, draft: DispositionDraft): Promise<void> => {
+    // What a failed earlier attempt already booked is reused rather than booked again
+    const booked = pendingDispositionsRef.current.find(item => item.callLogId === pending.callLogId) || pending;
+    const markBooked = (update: Pick<PendingDisposition, 'callbackId' | 'appointmentId'>) =>
+      updatePendingDispositions(prev =>
+        prev.map(item => (item.callLogId === pending.callLogId ? { ...item, ...update } : item))
+      );
+    try {
+      let callbackId = booked.callbackId;
+      let appointmentId = booked.appointmentId;
+      if (!callbackId && !draft.autoDismissed && draft.nextAction === 'callback' && draft.callbackDueAt) {
+        const callback = await supabaseService.addCallback(pending.clientId, {
+          dueAt: draft.callbackDueAt,
+          reason: draft.summary,
+          callLogId: pending.callLogId,
+        });
+        callbackId = callback.id;
+        markBooked({ callbackId });
+        setCallbacks(prev =>
+          [...prev, callback].sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())
+        );
+      }
+      if (!appointmentId && !draft.autoDismissed && draft.nextAction === 'appointment' && draft.appointmentDate) {
+        const appointment = await supabaseService.addAppointment(pending.clientId, {
+          appointmentDate: draft.appointmentDate,
+          appointmentType: draft.appointmentType || 'follow-up',
+          status: 'scheduled',
+          notes: draft.summary,
+        });
+        appointmentId = appointment.id;
+        markBooked({ appointmentId });
+        const monthlyAppointments = await supabaseService.getMonthlyAppointments();
+        setStats(prev => ({ ...prev, monthlyAppointments }));
+      }
+
+      await supabaseService.addCallDisposition(pending.clientId, {
+        callLogId: pending.callLogId,
+        outcomeCode: draft.outcomeCode,
+        summary: draft.summary,
+        nextAction: draft.nextAction,
+        callbackId,
+        appointmentId,
+        autoDismissed: draft.autoDismissed,
+      });
+      if (draft.outcomeCode) {
+        const lastDispositionAt = new Date();
+        setEmployees(prev =>
+          prev.map(emp =>
+            emp.id === pending.clientId
+              ? { ...emp, lastDispositionCode: draft.outcomeCode, lastDispositionAt }
+              : emp
+          )
+        );
+      }
+    } catch (error) {
+      console.error('Failed to save call disposition:', error);
+      // The agent can retry a failed submit; an expired form must not hold the loop
+      if (!draft.autoDismissed) {
+        throw error;
+      }
+    }
+
+    updatePendingDispositions(prev => prev.filter(item => item.callLogId !== pending.callLogId));
+    releaseHeldLoop();
+  };
+
+  // Queue panel actions only touch clients not dialed yet, so the running round carries on
+  const rearrangeQueue = (rearrange: (upcoming: string[]) => string[]) => {
+    if (!isAutoCallingRef.current) {
+      return;
+    }
+    const position = queuePositionRef.current;
+    const queue = roundQueueRef.current;
+    roundQueueRef.current = [...queue.slice(0, position), ...rearrange(queue.slice(position))];
+    publishQueue(position);
+    saveSessionProgress(Math.min(position, ...activeCallsRef.current.values()));
+  };
+
+  // `toIndex` is the position of the client dropped on, before the move; the moved client lands just before it
+  const moveInQueue = (clientId: string, toIndex: number) => {
+    rearrangeQueue(upcoming => {
+      const fromIndex = upcoming.indexOf(clientId);
+      if (fromIndex === -1) {
+        return upcoming;
+      }
+      const reordered = upcoming.filter(id => id !== clientId);
+      // Taking the client out shifts everything after it up by one
+      const insertAt = fromIndex < toIndex ? toIndex - 1 : toIndex;
+      reordered.splice(Math.max(0, Math.min(insertAt, reordered.length)), 0, clientId);
+      return reordered;
+    });
+  };
+
+  const callNextInQueue = (clientId: string) => moveInQueue(clientId, 0);
+
+  const moveToEndOfQueue = (clientId: string) => moveInQueue(clientId, Number.MAX_SAFE_INTEGER);
+
+  // Skipped clients are treated as dialed for this round and come back in the next one,
+  // along with any due callback that had pulled them into this round
+  const skipInQueue = (clientId: string) => {
+    if (!isAutoCallingRef.current) {
+      return;
+    }
+    dialedThisRoundRef.current.add(clientId);
+    if (callbackClientIdsRef.current.delete(clientId)) {
+      callbacksRef.current
+        .filter(callback => callback.clientId === clientId)
+        .forEach(callback => injectedCallbackIdsRef.current.delete(callback.id));
+    }
+    rearrangeQueue(upcoming => upcoming.filter(id => id !== clientId));
+  };
+
+  const resumeSession = useCallback(() => {
+    const session = resumableSession;
+    if (!session || isAutoCallingRef.current) {
+      return;
+    }
+    if (employeesRef.current.length === 0) {
+      alert('❌ No clients available. Please wait for clients to load.');
+      return;
+    }
+
+    // Rebuild what was left of the round, dropping clients deleted in the meantime
+    const clientIds = new Set(employeesRef.current.map(emp => emp.id));
+    const remainingQueue = session.queue.slice(session.position).filter(id => clientIds.has(id));
+    console.log(`⏯️ Resuming session - Round ${session.currentRound}, ${remainingQueue.length} clients left in this round`);
+
+    // A session whose list was deleted since carries on with every client
+    const callListId = session.callListId && callListsRef.current.some(list => list.id === session.callListId)
+      ? session.callListId
+      : null;
+    selectedCallListIdRef.current = callListId;
+    setSelectedCallListId(callListId);
+    campaignSettingsRef.current = session.settings;
+    setCampaignSettings(session.settings);
+    liveAnswersRef.current = new Map();
+    seedPacing(scopeToCallList(employeesRef.current, callListsRef.current, callListId));
+    sessionIdRef.current = session.id;
+    sessionStartRef.current = session.startedAt.getTime();
+    sessionAnsweredRef.current = session.answeredCount;
+    currentRoundRef.current = session.currentRound;
+    roundQueueRef.current = remainingQueue;
+    setDeferredContacts([]);
+    injectedCallbackIdsRef.current = new Set();
+    callbackClientIdsRef.current = new Set();
+    dialedThisRoundRef.current = new Set();
+    activeCallsRef.current = new Map();
+    waitingPositionRef.current = null;
+    autoRunRef.current = new AbortController();
+    setStats(prev => ({ ...prev, currentRound: session.currentRound }));
+    setResumableSession(null);
+
+    setIsAutoCallActive(true);
+    isAutoCallingRef.current = true;
+    saveSessionProgress(0);
+
+    autoCallTimeoutRef.current = setTimeout(() => {
+      if (isAutoCallingRef.current) {
+        processAutoCall(0);
+      }
+    }, 500);
+  }, [resumableSession, processAutoCall, saveSessionProgress, seedPacing]);
+
+  const discardSession = async () => {
+    if (!resumableSession) return;
+    try {
+      await supabaseService.endCallSession(resumableSession.id, 'stopped');
+      setResumableSession(null);
+    } catch (error) {
+      console.error('Failed to discard call session:', error);
+    }
+  };
 
   const resetSystem = async () => {
     console.log('🔄 Resetting system');
@@ -343,7 +1177,8 @@ export const useCallSystem = () => {
       await supabaseService.resetAllStatuses();
       await loadEmployees();
       setCurrentEmployeeIndex(0);
-      setStats(prev => ({ ...prev, currentRound: 1 }));
+      currentRoundRef.current = 1;
+      setStats(prev => ({ ...prev, currentRound: 1, voicemailDrops: 0 }));
     } catch (error) {
       console.error('Failed to reset system:', error);
     }
@@ -361,16 +1196,25 @@ export const useCallSystem = () => {
   const addContact = async (contactData: {
     name: string;
     phoneNumber: string;
+    phoneE164: string;
     whatsappNumber?: string;
-    workStatus?: 'new' | 'in_progress' | 'completed' | 'repeat_client';
+    whatsappE164?: string;
+    email?: string;
+    position?: string;
+    department?: string;
+    workStatus?: string;
     isUrgent?: boolean;
+    timeZone?: string;
+    recordingConsent?: boolean;
   }): Promise<boolean> => {
     try {
       const newContact = await supabaseService.addClient(contactData);
       // Use functional update to ensure we have the latest state
       setEmployees(prev => {
         // Double-check for duplicates before adding
-        const phoneExists = prev.some(emp => emp.phoneNumber === newContact.phoneNumber);
+        const phoneExists = prev.some(emp =>
+          getClientE164(emp, campaignSettingsRef.current.defaultCountry) === newContact.phoneE164
+        );
         
         if (phoneExists) {
           throw new Error('Phone number already exists');
@@ -385,10 +1229,53 @@ export const useCallSystem = () => {
     }
   };
 
+  const updateContact = async (employeeId: string, updates: ClientProfileUpdate): Promise<Employee> => {
+    try {
+      const { defaultCountry } = campaignSettingsRef.current;
+      if (updates.phoneE164 && employees.some(emp =>
+        emp.id !== employeeId && getClientE164(emp, defaultCountry) === updates.phoneE164
+      )) {
+        throw new Error('Phone number already exists');
+      }
+      const updated = await supabaseService.updateClient(employeeId, updates);
+      // The call status is tracked here while a call is in progress, so it is kept as is
+      setEmployees(prev => prev.map(emp => (emp.id === employeeId ? { ...updated, status: emp.status } : emp)));
+      return updated;
+    } catch (error) {
+      console.error('Failed to update contact:', error);
+      throw error;
+    }
+  };
+
+  const importContacts = async (
+    contacts: NewClient[],
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<ClientImportResult> => {
+    try {
+      const result = await supabaseService.addClientsBulk(contacts, { onProgress });
+      if (result.added.length > 0) {
+        setEmployees(prev => [...prev, ...result.added]);
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to import contacts:', error);
+      throw error;
+    }
+  };
+
   const deleteContact = async (employeeId: string): Promise<boolean> => {
     try {
       await supabaseService.deleteClient(employeeId);
       setEmployees(prev => prev.filter(emp => emp.id !== employeeId));
+      // Memberships are removed along with the client
+      setCallLists(prev =>
+        prev.map(list => ({ ...list, clientIds: list.clientIds.filter(id => id !== employeeId) }))
+      );
+      // Its call logs are gone too, so a disposition still waiting for it can never be saved
+      if (pendingDispositionsRef.current.some(item => item.clientId === employeeId)) {
+        updatePendingDispositions(prev => prev.filter(item => item.clientId !== employeeId));
+        releaseHeldLoop();
+      }
       return true;
     } catch (error) {
       console.error('Failed to delete contact:', error);
@@ -396,7 +1283,97 @@ export const useCallSystem = () => {
     }
   };
 
-  const updatePriority = async (employeeId: string, priority: 'high' | 'follow-up' | 'not-interested'): Promise<void> => {
+  /**
+   * Merges each of mergeIds into keepId, one at a time. The profile values go with the
+   * last merge, once the other clients are gone, so the kept client can take any of
+   * their phone numbers.
+   */
+  const mergeContacts = async (
+    keepId: string,
+    mergeIds: string[],
+    values: ClientMergeValues
+  ): Promise<Employee> => {
+    if (isAutoCallingRef.current) {
+      throw new Error('Stop auto calling before merging contacts');
+    }
+    if (mergeIds.length === 0) {
+      throw new Error('Choose at least one contact to merge');
+    }
+
+    try {
+      let kept: Employee | undefined;
+      const merged: string[] = [];
+      try {
+        for (const [index, mergeId] of mergeIds.entries()) {
+          kept = await supabaseService.mergeClients(keepId, mergeId, index === mergeIds.length - 1 ? values : {});
+          merged.push(mergeId);
+        }
+      } finally {
+        // Merges that went through before a failure are kept, so state follows them
+        if (kept) {
+          const keptClient = kept;
+          const mergedIds = new Set(merged);
+          const reparent = (id: string) => (mergedIds.has(id) ? keptClient.id : id);
+          setEmployees(prev =>
+            prev.filter(emp => !mergedIds.has(emp.id)).map(emp => (emp.id === keptClient.id ? keptClient : emp))
+          );
+          setCallLists(prev =>
+            prev.map(list => ({ ...list, clientIds: Array.from(new Set(list.clientIds.map(reparent))) }))
+          );
+          setCallbacks(prev => prev.map(callback => ({ ...callback, clientId: reparent(callback.clientId) })));
+          setResumableSession(prev =>
+            prev ? { ...prev, ...mergeSessionQueue(prev.queue, prev.position, keptClient.id, mergedIds) } : prev
+          );
+          // Their call logs now belong to the kept client, and so do dispositions still to be made
+          updatePendingDispositions(prev => prev.map(item => ({ ...item, clientId: reparent(item.clientId) })));
+        }
+      }
+      return kept as Employee;
+    } catch (error) {
+      console.error('Failed to merge contacts:', error);
+      throw error;
+    }
+  };
+
+  const setRecordingConsent = async (employeeId: string, consent: boolean): Promise<void> => {
+    try {
+      await supabaseService.updateClientRecordingConsent(employeeId, consent);
+      setEmployees(prev =>
+        prev.map(emp =>
+          emp.id === employeeId ? { ...emp, recordingConsent: consent } : emp
+        )
+      );
+    } catch (error) {
+      console.error('Failed to update recording consent:', error);
+      throw error;
+    }
+  };
+
+  const attachRecording = async (clientId: string, callLog: CallLog, audio: File): Promise<CallRecording> => {
+    try {
+      return await supabaseService.addCallRecording(clientId, callLog.id, audio, {
+        durationSeconds: callLog.talkDurationSeconds || undefined,
+        retentionDays: campaignSettingsRef.current.recordingRetentionDays,
+      });
+    } catch (error) {
+      console.error('Failed to attach call recording:', error);
+      throw error;
+    }
+  };
+
+  const deleteRecording = async (recording: CallRecording): Promise<void> => {
+    try {
+      await supabaseService.deleteCallRecording(recording);
+    } catch (error) {
+      console.error('Failed to delete call recording:', error);
+      throw error;
+    }
+  };
+
+  const getRecordingUrl = (recording: CallRecording): Promise<string> =>
+    supabaseService.getRecordingPlaybackUrl(recording);
+
+  const updatePriority = async (employeeId: string, priority: string): Promise<void> => {
     try {
       await supabaseService.updateClientPriority(employeeId, priority);
       setEmployees(prev =>
@@ -409,15 +1386,206 @@ export const useCallSystem = () => {
     }
   };
 
+  const updateCampaignSettings = async (settings: CampaignSettings): Promise<void> => {
+    try {
+      const saved = await supabaseService.saveCampaignSettings(settings);
+      setCampaignSettings(saved);
+    } catch (error) {
+      console.error('Failed to save campaign settings:', error);
+      throw error;
+    }
+  };
+
+  // Replaces the campaign's voicemail message, or removes it when no file is given
+  const setVoicemailDrop = async (audio: File | null): Promise<void> => {
+    const previousPath = campaignSettingsRef.current.voicemailDropPath;
+    try {
+      const voicemailDropPath = audio ? await supabaseService.uploadVoicemailDrop(audio) : undefined;
+      try {
+        await updateCampaignSettings({ ...campaignSettingsRef.current, voicemailDropPath });
+      } catch (error) {
+        if (voicemailDropPath) {
+          supabaseService.removeVoicemailDrop(voicemailDropPath).catch(() => undefined);
+        }
+        throw error;
+      }
+      if (previousPath) {
+        supabaseService.removeVoicemailDrop(previousPath)
+          .catch(error => console.error('Failed to remove old voicemail message:', error));
+      }
+    } catch (error) {
+      console.error('Failed to update voicemail message:', error);
+      throw error;
+    }
+  };
+
+  const getVoicemailDropUrl = (storagePath: string): Promise<string> =>
+    supabaseService.getVoicemailDropUrl(storagePath);
+
+  const addDoNotCallNumbers = async (
+    phoneNumbers: string[],
+    options: { scope?: DoNotCallEntry['scope']; reason?: string; source?: DoNotCallEntry['source'] } = {}
+  ): Promise<{ added: number; skipped: number }> => {
+    try {
+      const { added, skipped } = await supabaseService.importDoNotCallNumbers(phoneNumbers, {
+        ...options,
+        defaultCountry: campaignSettingsRef.current.defaultCountry,
+      });
+      setDoNotCallEntries(prev => [...added, ...prev]);
+      return { added: added.length, skipped };
+    } catch (error) {
+      console.error('Failed to add to do-not-call list:', error);
+      throw error;
+    }
+  };
+
+  const removeDoNotCallEntry = async (entryId: string): Promise<void> => {
+    try {
+      await supabaseService.removeDoNotCallEntry(entryId);
+      setDoNotCallEntries(prev => prev.filter(entry => entry.id !== entryId));
+    } catch (error) {
+      console.error('Failed to remove do-not-call entry:', error);
+      throw error;
+    }
+  };
+
+  const addDispositionCode = async (codeData: Omit<DispositionCode, 'id' | 'createdBy'>): Promise<void> => {
+    try {
+      const code = await supabaseService.addDispositionCode(codeData);
+      setDispositionCodes(prev => [...prev, code]);
+    } catch (error) {
+      console.error('Failed to add disposition code:', error);
+      throw error;
+    }
+  };
+
+  const updateDispositionCode = async (
+    codeId: string,
+    updates: Partial<Pick<DispositionCode, 'label' | 'color' | 'countsAsReached' | 'retry' | 'retryDelayMinutes' | 'sortOrder'>>
+  ): Promise<void> => {
+    try {
+      const updated = await supabaseService.updateDispositionCode(codeId, updates);
+      setDispositionCodes(prev => prev.map(code => (code.id === codeId ? updated : code)));
+    } catch (error) {
+      console.error('Failed to update disposition code:', error);
+      throw error;
+    }
+  };
+
+  const removeDispositionCode = async (codeId: string): Promise<void> => {
+    try {
+      await supabaseService.deleteDispositionCode(codeId);
+      setDispositionCodes(prev => prev.filter(code => code.id !== codeId));
+    } catch (error) {
+      console.error('Failed to remove disposition code:', error);
+      throw error;
+    }
+  };
+
+  const scheduleCallback = async (
+    clientId: string,
+    callbackData: Pick<Callback, 'dueAt' | 'reason' | 'assignedTo' | 'callLogId'>
+  ): Promise<void> => {
+    try {
+      const callback = await supabaseService.addCallback(clientId, callbackData);
+      setCallbacks(prev =>
+        [...prev, callback].sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())
+      );
+    } catch (error) {
+      console.error('Failed to schedule callback:', error);
+      throw error;
+    }
+  };
+
+  // The list can only change between sessions, never while auto calling works through it
+  const selectCallList = (callListId: string | null) => {
+    if (isAutoCallingRef.current) {
+      return;
+    }
+    setSelectedCallListId(callListId);
+  };
+
+  const createCallList = async (name: string, description?: string): Promise<CallList> => {
+    try {
+      const callList = await supabaseService.createCallList(name, description);
+      setCallLists(prev => [...prev, callList]);
+      return callList;
+    } catch (error) {
+      console.error('Failed to create call list:', error);
+      throw error;
+    }
+  };
+
+  const deleteCallList = async (callListId: string): Promise<void> => {
+    if (isAutoCallingRef.current && selectedCallListIdRef.current === callListId) {
+      throw new Error('Stop auto calling before deleting the list it is dialing');
+    }
+    try {
+      await supabaseService.deleteCallList(callListId);
+      setCallLists(prev => prev.filter(list => list.id !== callListId));
+      setSelectedCallListId(prev => (prev === callListId ? null : prev));
+    } catch (error) {
+      console.error('Failed to delete call list:', error);
+      throw error;
+    }
+  };
+
+  const setCallListMembership = async (callListId: string, clientId: string, isMember: boolean): Promise<void> => {
+    try {
+      if (isMember) {
+        await supabaseService.addClientsToCallList(callListId, [clientId]);
+      } else {
+        await supabaseService.removeClientFromCallList(callListId, clientId);
+      }
+      setCallLists(prev =>
+        prev.map(list => {
+          if (list.id !== callListId) return list;
+          const clientIds = list.clientIds.filter(id => id !== clientId);
+          return { ...list, clientIds: isMember ? [...clientIds, clientId] : clientIds };
+        })
+      );
+    } catch (error) {
+      console.error('Failed to update call list membership:', error);
+      throw error;
+    }
+  };
+
+  const resolveCallback = async (callbackId: string, status: 'completed' | 'cancelled'): Promise<void> => {
+    try {
+      await supabaseService.updateCallbackStatus(callbackId, status);
+      setCallbacks(prev => prev.filter(callback => callback.id !== callbackId));
+    } catch (error) {
+      console.error('Failed to update callback:', error);
+    }
+  };
+
+  const setCallOutcome = async (employeeId: string, status: CallOutcomeStatus): Promise<void> => {
+    try {
+      const nextEligibleAt = await supabaseService.updateClientStatus(
+        employeeId,
+        status,
+        campaignSettingsRef.current.retryRules
+      );
+      setEmployees(prev =>
+        prev.map(emp =>
+          emp.id === employeeId ? { ...emp, status, nextEligibleAt } : emp
+        )
+      );
+    } catch (error) {
+      console.error('Failed to update call outcome:', error);
+    }
+  };
+
   // New methods for advanced features
   const addWorkHistory = async (clientId: string, workData: Omit<WorkHistory, 'id' | 'clientId'>): Promise<void> => {
     try {
       await supabaseService.addWorkHistory(clientId, workData);
       // Update client work status if completed
       if (workData.status === 'completed') {
+        const workStatus = getDoneWorkStatus(cataloguesRef.current.workStatuses) || 'completed';
         setEmployees(prev =>
           prev.map(emp =>
-            emp.id === clientId ? { ...emp, workStatus: 'completed' } : emp
+            emp.id === clientId ? { ...emp, workStatus } : emp
           )
         );
       }
@@ -450,35 +1618,93 @@ export const useCallSystem = () => {
 
   const getClientHistory = async (clientId: string) => {
     try {
-      const [workHistory, appointments, feedback] = await Promise.all([
+      const [workHistory, appointments, feedback, callLogs, dispositions, recordings] = await Promise.all([
         supabaseService.getWorkHistory(clientId),
         supabaseService.getAppointments(clientId),
         supabaseService.getFeedback(clientId),
+        supabaseService.getCallLogs(clientId),
+        supabaseService.getCallDispositions(clientId),
+        supabaseService.getCallRecordings(clientId),
       ]);
-      return { workHistory, appointments, feedback };
+      return { workHistory, appointments, feedback, callLogs, dispositions, recordings };
     } catch (error) {
       console.error('Failed to get client history:', error);
       throw error;
     }
   };
 
+  // Call logs and history for every client being exported
+  const getClientRecords = async (clientIds: string[]) => {
+    try {
+      return await supabaseService.getClientRecords(clientIds);
+    } catch (error) {
+      console.error('Failed to load client records:', error);
+      throw error;
+    }
+  };
+
   return {
     employees,
     isAutoCallActive,
-    currentCallingId,
+    isAutoCallPaused,
+    currentCallingIds,
+    queuedClientIds,
+    pendingDispositions,
+    submitDisposition,
     currentEmployeeIndex,
     stats,
+    pacing,
+    campaignSettings,
+    deferredContacts,
+    doNotCallEntries,
+    isAdmin,
+    dispositionCodes,
+    callbacks,
+    resumableSession,
+    callLists,
+    selectedCallListId,
+    selectCallList,
+    createCallList,
+    deleteCallList,
+    setCallListMembership,
+    resumeSession,
+    discardSession,
+    updateCampaignSettings,
     startAutoCalling,
     stopAutoCalling,
+    pauseAutoCalling,
+    resumeAutoCalling,
+    moveInQueue,
+    callNextInQueue,
+    moveToEndOfQueue,
+    skipInQueue,
     callEmployee,
     resetSystem,
     loadEmployees,
     addContact,
+    updateContact,
+    importContacts,
     deleteContact,
+    mergeContacts,
     updatePriority,
+    setRecordingConsent,
+    setVoicemailDrop,
+    getVoicemailDropUrl,
+    attachRecording,
+    deleteRecording,
+    getRecordingUrl,
+    addDoNotCallNumbers,
+    removeDoNotCallEntry,
+    addDispositionCode,
+    updateDispositionCode,
+    removeDispositionCode,
+    scheduleCallback,
+    resolveCallback,
+    setCallOutcome,
     addWorkHistory,
     addAppointment,
     addFeedback,
     getClientHistory,
+    getClientRecords,
   };
 };
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { CallOutcomeStatus, EmployeeStatus } from '../types/Employee';
+import { CallResultOutcome } from '../types/Telephony';
+
+interface StatusMeta {
+  label: string;
+  text: string; // label with emoji, as shown on status badges
+  badgeClass: string; // solid badge on client cards
+  softClass: string; // light badge in lists
+  cardClass: string;
+  buttonClass: string;
+  dotClass: string;
+  retry: boolean; // whether auto calling should dial this client again
+}
+
+export const CALL_STATUS_META: Record<EmployeeStatus, StatusMeta> = {
+  pending: {
+    label: 'Pending',
+    text: '⏳ Pending',
+    badgeClass: 'bg-gray-500 text-white',
+    softClass: 'bg-gray-100 text-gray-800',
+    cardClass: 'bg-gray-50 border-gray-300 text-gray-800',
+    buttonClass: 'bg-gray-500 hover:bg-gray-600 text-white',
+    dotClass: 'bg-gray-500',
+    retry: true,
+  },
+  calling: {
+    label: 'Calling',
+    text: '📞 Calling...',
+    badgeClass: 'bg-blue-500 text-white animate-pulse',
+    softClass: 'bg-blue-100 text-blue-800',
+    cardClass: 'bg-blue-50 border-blue-300 text-blue-800',
+    buttonClass: 'bg-blue-500 text-white cursor-not-allowed animate-pulse',
+    dotClass: 'bg-blue-500 animate-pulse',
+    retry: false,
+  },
+  answered: {
+    label: 'Answered',
+    text: '✅ Answered',
+    badgeClass: 'bg-green-500 text-white',
+    softClass: 'bg-green-100 text-green-800',
+    cardClass: 'bg-green-50 border-green-300 text-green-800',
+    buttonClass: 'bg-green-500 hover:bg-green-600 text-white',
+    dotClass: 'bg-green-500',
+    retry: false,
+  },
+  missed: {
+    label: 'Missed',
+    text: '❌ Missed',
+    badgeClass: 'bg-red-500 text-white',
+    softClass: 'bg-red-100 text-red-800',
+    cardClass: 'bg-red-50 border-red-300 text-red-800',
+    buttonClass: 'bg-red-500 hover:bg-red-600 text-white',
+    dotClass: 'bg-red-500',
+    retry: true,
+  },
+  busy: {
+    label: 'Busy',
+    text: '⛔ Busy',
+    badgeClass: 'bg-orange-500 text-white',
+    softClass: 'bg-orange-100 text-orange-800',
+    cardClass: 'bg-orange-50 border-orange-300 text-orange-800',
+    buttonClass: 'bg-orange-500 hover:bg-orange-600 text-white',
+    dotClass: 'bg-orange-500',
+    retry: true,
+  },
+  voicemail: {
+    label: 'Voicemail',
+    text: '📼 Voicemail',
+    badgeClass: 'bg-yellow-500 text-white',
+    softClass: 'bg-yellow-100 text-yellow-800',
+    cardClass: 'bg-yellow-50 border-yellow-300 text-yellow-800',
+    buttonClass: 'bg-yellow-500 hover:bg-yellow-600 text-white',
+    dotClass: 'bg-yellow-500',
+    retry: true,
+  },
+  machine: {
+    label: 'Answering Machine',
+    text: '🤖 Machine',
+    badgeClass: 'bg-violet-500 text-white',
+    softClass: 'bg-violet-100 text-violet-800',
+    cardClass: 'bg-violet-50 border-violet-300 text-violet-800',
+    buttonClass: 'bg-violet-500 hover:bg-violet-600 text-white',
+    dotClass: 'bg-violet-500',
+    retry: true,
+  },
+  'wrong-number': {
+    label: 'Wrong Number',
+    text: '🚫 Wrong Number',
+    badgeClass: 'bg-stone-600 text-white',
+    softClass: 'bg-stone-200 text-stone-800',
+    cardClass: 'bg-stone-100 border-stone-400 text-stone-800',
+    buttonClass: 'bg-stone-600 hover:bg-stone-700 text-white',
+    dotClass: 'bg-stone-600',
+    retry: false,
+  },
+  disconnected: {
+    label: 'Disconnected',
+    text: '🔌 Disconnected',
+    badgeClass: 'bg-slate-700 text-white',
+    softClass: 'bg-slate-200 text-slate-800',
+    cardClass: 'bg-slate-100 border-slate-400 text-slate-800',
+    buttonClass: 'bg-slate-700 hover:bg-slate-800 text-white',
+    dotClass: 'bg-slate-700',
+    retry: false,
+  },
+  declined: {
+    label: 'Declined',
+    text: '🙅 Declined',
+    badgeClass: 'bg-pink-500 text-white',
+    softClass: 'bg-pink-100 text-pink-800',
+    cardClass: 'bg-pink-50 border-pink-300 text-pink-800',
+    buttonClass: 'bg-pink-500 hover:bg-pink-600 text-white',
+    dotClass: 'bg-pink-500',
+    retry: true,
+  },
+  'callback-requested': {
+    label: 'Callback Requested',
+    text: '🔁 Callback',
+    badgeClass: 'bg-teal-500 text-white',
+    softClass: 'bg-teal-100 text-teal-800',
+    cardClass: 'bg-teal-50 border-teal-300 text-teal-800',
+    buttonClass: 'bg-teal-500 hover:bg-teal-600 text-white',
+    dotClass: 'bg-teal-500',
+    retry: true,
+  },
+};
+
+// Outcomes an agent records by hand; answered/missed/busy/machine also come from the provider
+export const MANUAL_CALL_OUTCOMES: CallOutcomeStatus[] = [
+  'answered',
+  'missed',
+  'busy',
+  'voicemail',
+  'machine',
+  'wrong-number',
+  'disconnected',
+  'declined',
+  'callback-requested',
+];
+
+export const isCallStatus = (value: string): value is EmployeeStatus =>
+  Object.prototype.hasOwnProperty.call(CALL_STATUS_META, value);
+
+export const isRetryableStatus = (status: EmployeeStatus): boolean =>
+  CALL_STATUS_META[status].retry;
+
+export const statusFromCallOutcome = (outcome: CallResultOutcome): CallOutcomeStatus => {
+  switch (outcome) {
+    case 'answered':
+      return 'answered';
+    case 'busy':
+      return 'busy';
+    case 'machine':
+      return 'machine';
+    default:
+      return 'missed';
+  }
+};
@@ -0,0 +1,126 @@
+import { CampaignSettings, Employee } from '../types/Employee';
+
+// Representative zone per country calling code. Countries spanning several zones
+// (US/Canada, Russia, Australia, Brazil...) map to their most populous one; set the
+// client's time zone explicitly when that guess is wrong.
+const COUNTRY_CODE_TIME_ZONES: Record<string, string> = {
+  '1': 'America/New_York',
+  '7': 'Europe/Moscow',
+  '20': 'Africa/Cairo',
+  '27': 'Africa/Johannesburg',
+  '31': 'Europe/Amsterdam',
+  '32': 'Europe/Brussels',
+  '33': 'Europe/Paris',
+  '34': 'Europe/Madrid',
+  '39': 'Europe/Rome',
+  '41': 'Europe/Zurich',
+  '44': 'Europe/London',
+  '46': 'Europe/Stockholm',
+  '47': 'Europe/Oslo',
+  '48': 'Europe/Warsaw',
+  '49': 'Europe/Berlin',
+  '52': 'America/Mexico_City',
+  '55': 'America/Sao_Paulo',
+  '61': 'Australia/Sydney',
+  '62': 'Asia/Jakarta',
+  '63': 'Asia/Manila',
+  '64': 'Pacific/Auckland',
+  '65': 'Asia/Singapore',
+  '81': 'Asia/Tokyo',
+  '82': 'Asia/Seoul',
+  '86': 'Asia/Shanghai',
+  '90': 'Europe/Istanbul',
+  '91': 'Asia/Kolkata',
+  '92': 'Asia/Karachi',
+  '234': 'Africa/Lagos',
+  '254': 'Africa/Nairobi',
+  '351': 'Europe/Lisbon',
+  '353': 'Europe/Dublin',
+  '880': 'Asia/Dhaka',
+  '966': 'Asia/Riyadh',
+  '971': 'Asia/Dubai',
+  '972': 'Asia/Jerusalem',
+};
+
+export const KNOWN_TIME_ZONES = Array.from(new Set(Object.values(COUNTRY_CODE_TIME_ZONES))).sort();
+
+export const getLocalTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Only numbers written with an international prefix (+ or 00) carry a country code
+export const inferTimeZoneFromPhone = (phoneNumber: string): string | undefined => {
+  const cleaned = phoneNumber.replace(/[^\d+]/g, '');
+  const digits = cleaned.startsWith('+')
+    ? cleaned.slice(1)
+    : cleaned.startsWith('00') ? cleaned.slice(2) : null;
+  if (!digits) {
+    return undefined;
+  }
+  // Calling codes are prefix-free, so the longest match is the only match
+  for (let length = 3; length >= 1; length--) {
+    const zone = COUNTRY_CODE_TIME_ZONES[digits.slice(0, length)];
+    if (zone) {
+      return zone;
+    }
+  }
+  return undefined;
+};
+
+export const resolveClientTimeZone = (employee: Employee): string => {
+  if (employee.timeZone && isValidTimeZone(employee.timeZone)) {
+    return employee.timeZone;
+  }
+  return inferTimeZoneFromPhone(employee.phoneE164 || employee.phoneNumber) || getLocalTimeZone();
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const minutesIntoDay = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value || 0);
+  return value('hour') * 60 + value('minute');
+};
+
+type CallingWindow = Pick<CampaignSettings, 'callingWindowStart' | 'callingWindowEnd'>;
+
+// Windows may wrap past midnight, e.g. 18:00-02:00
+export const isWithinCallingWindow = (date: Date, timeZone: string, hours: CallingWindow): boolean => {
+  const now = minutesIntoDay(date, timeZone);
+  const start = toMinutes(hours.callingWindowStart);
+  const end = toMinutes(hours.callingWindowEnd);
+  return start < end
+    ? now >= start && now < end
+    : now >= start || now < end;
+};
+
+// When the client may next be called; `from` itself if they are inside the window now
+export const getNextCallableTime = (employee: Employee, hours: CallingWindow, from = new Date()): Date => {
+  const timeZone = resolveClientTimeZone(employee);
+  if (isWithinCallingWindow(from, timeZone, hours)) {
+    return from;
+  }
+  const waitMinutes = (toMinutes(hours.callingWindowStart) - minutesIntoDay(from, timeZone) + 1440) % 1440;
+  const callableAt = new Date(from.getTime() + waitMinutes * 60 * 1000);
+  callableAt.setSeconds(0, 0);
+  return callableAt;
+};
+
+export const formatTimeInZone = (date: Date, timeZone: string): string =>
+  date.toLocaleTimeString([], { timeZone, hour: '2-digit', minute: '2-digit' });
@@ -0,0 +1,75 @@
+import { CampaignSettings } from '../types/Employee';
+import { DEFAULT_RETRY_RULES, validateRetryRules } from './retryPolicy';
+import { DEFAULT_COUNTRY, isValidCountry } from './phoneNumbers';
+
+// Matches the timings auto calling used before settings were configurable
+export const DEFAULT_CAMPAIGN_SETTINGS: CampaignSettings = {
+  ringTimeoutSeconds: 10,
+  interCallDelaySeconds: 1.5,
+  interRoundDelaySeconds: 2,
+  maxRounds: undefined,
+  maxAttemptsPerContact: undefined,
+  stopAfterAnswered: undefined,
+  stopAfterMinutes: undefined,
+  dialingStrategy: 'list-order',
+  skipNotInterested: true,
+  callingWindowStart: '09:00',
+  callingWindowEnd: '20:00',
+  enforceCallingWindow: true,
+  maxConcurrentCalls: 1,
+  predictivePacing: false,
+  wrapUpSeconds: 60,
+  retryRules: DEFAULT_RETRY_RULES,
+  recordingRetentionDays: undefined,
+  defaultCountry: DEFAULT_COUNTRY,
+};
+
+export const MAX_CONCURRENT_CALLS = 10;
+
+const TIME_OF_DAY = /^([01][0-9]|2[0-3]):[0-5][0-9]$/;
+
+// Returns a user-facing error message, or null when the settings are usable
+export const validateCampaignSettings = (settings: CampaignSettings): string | null => {
+  if (!Number.isInteger(settings.ringTimeoutSeconds) || settings.ringTimeoutSeconds <= 0) {
+    return 'Ring timeout must be a whole number of seconds greater than 0';
+  }
+  if (!(settings.interCallDelaySeconds >= 0) || !(settings.interRoundDelaySeconds >= 0)) {
+    return 'Delays cannot be negative';
+  }
+  const optionalLimits: [number | undefined, string][] = [
+    [settings.maxRounds, 'Max rounds'],
+    [settings.maxAttemptsPerContact, 'Max attempts per contact'],
+    [settings.stopAfterAnswered, 'Stop after answered'],
+    [settings.stopAfterMinutes, 'Stop after minutes'],
+    [settings.recordingRetentionDays, 'Recording retention'],
+  ];
+  for (const [value, label] of optionalLimits) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      return `${label} must be a whole number of at least 1`;
+    }
+  }
+  if (
+    !Number.isInteger(settings.maxConcurrentCalls) ||
+    settings.maxConcurrentCalls < 1 ||
+    settings.maxConcurrentCalls > MAX_CONCURRENT_CALLS
+  ) {
+    return `Concurrent calls must be a whole number from 1 to ${MAX_CONCURRENT_CALLS}`;
+  }
+  if (!Number.isInteger(settings.wrapUpSeconds) || settings.wrapUpSeconds < 0) {
+    return 'Wrap-up time must be a whole number of seconds';
+  }
+  const retryRulesError = validateRetryRules(settings.retryRules);
+  if (retryRulesError) {
+    return retryRulesError;
+  }
+  if (!TIME_OF_DAY.test(settings.callingWindowStart) || !TIME_OF_DAY.test(settings.callingWindowEnd)) {
+    return 'Calling hours must be times in HH:MM format';
+  }
+  if (settings.callingWindowStart === settings.callingWindowEnd) {
+    return 'Calling hours must start and end at different times';
+  }
+  if (!isValidCountry(settings.defaultCountry)) {
+    return 'Please choose a default country for phone numbers';
+  }
+  return null;
+};
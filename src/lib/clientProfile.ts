@@ -0,0 +1,49 @@
+import { ClientProfileUpdate } from '../types/Employee';
+import { isValidTimeZone } from './callingHours';
+import { DispositionCodeIndex } from './dispositions';
+import { validatePhoneNumber } from './phoneNumbers';
+
+export const validateEmail = (email: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+/**
+ * Checks the fields present in a profile update and returns a message per invalid
+ * field. Numbers are checked in their E.164 form, so they must be normalized first.
+ * The work status is checked against the catalogue when one is given.
+ */
+export const validateClientProfile = (
+  profile: ClientProfileUpdate,
+  workStatuses?: DispositionCodeIndex
+): Partial<Record<keyof ClientProfileUpdate, string>> => {
+  const errors: Partial<Record<keyof ClientProfileUpdate, string>> = {};
+
+  if ('name' in profile && !profile.name?.trim()) {
+    errors.name = 'Name is required';
+  }
+
+  if ('phoneNumber' in profile || 'phoneE164' in profile) {
+    if (!profile.phoneNumber?.trim()) {
+      errors.phoneNumber = 'Phone number is required';
+    } else if (!profile.phoneE164 || !validatePhoneNumber(profile.phoneE164)) {
+      errors.phoneNumber = 'Please enter a valid phone number';
+    }
+  }
+
+  if (profile.whatsappNumber?.trim() && (!profile.whatsappE164 || !validatePhoneNumber(profile.whatsappE164))) {
+    errors.whatsappNumber = 'Please enter a valid WhatsApp number';
+  }
+
+  const email = profile.email?.trim();
+  if (email && !validateEmail(email)) {
+    errors.email = 'Please enter a valid email address';
+  }
+
+  if (profile.timeZone?.trim() && !isValidTimeZone(profile.timeZone.trim())) {
+    errors.timeZone = 'Unknown time zone - use a name like Europe/London';
+  }
+
+  if (profile.workStatus !== undefined && workStatuses && !workStatuses.has(profile.workStatus)) {
+    errors.workStatus = 'Unknown work status';
+  }
+
+  return errors;
+};
@@ -0,0 +1,298 @@
+import { Employee, NewClient } from '../types/Employee';
+import { DispositionCodeIndex } from './dispositions';
+import { DEFAULT_COUNTRY, getClientE164, normalizePhoneNumber } from './phoneNumbers';
+
+export type ImportField =
+  | 'name'
+  | 'phoneNumber'
+  | 'whatsappNumber'
+  | 'email'
+  | 'position'
+  | 'department'
+  | 'workStatus'
+  | 'isUrgent';
+
+// Column index per field; fields left out are not imported
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ParsedImportFile {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRowResult {
+  rowNumber: number; // 1-based, counting data rows only
+  contact: NewClient;
+  errors: string[];
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'phoneNumber', label: 'Phone Number', required: true },
+  { field: 'whatsappNumber', label: 'WhatsApp Number' },
+  { field: 'email', label: 'Email' },
+  { field: 'position', label: 'Position' },
+  { field: 'department', label: 'Department' },
+  { field: 'workStatus', label: 'Work Status' },
+  { field: 'isUrgent', label: 'Urgent' },
+];
+
+// Header words that point at each field, checked in this order
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  whatsappNumber: ['whatsapp', 'wa'],
+  phoneNumber: ['phone', 'mobile', 'cell', 'tel', 'telephone', 'number'],
+  name: ['name', 'fullname', 'contact', 'client'],
+  email: ['email', 'mail'],
+  position: ['position', 'title', 'jobtitle', 'role'],
+  department: ['department', 'dept', 'org', 'organization', 'company', 'team'],
+  workStatus: ['workstatus', 'status', 'stage'],
+  isUrgent: ['urgent', 'urgency', 'priority'],
+};
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'urgent', 'high'];
+const FALSE_VALUES = ['no', 'n', 'false', '0', 'normal', 'low'];
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '');
+
+const detectDelimiter = (firstLine: string): string => {
+  const candidates = ['\t', ';', ','];
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of candidates) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/**
+ * Parses CSV or TSV text. The delimiter (comma, semicolon or tab) is taken from the
+ * first line. Quoted cells may hold delimiters, doubled quotes and line breaks.
+ * The first row is used as the header row.
+ */
+export const parseDelimited = (text: string): ParsedImportFile => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] || '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      record.push(cell.trim());
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  record.push(cell.trim());
+  records.push(record);
+
+  const nonEmpty = records.filter(row => row.some(value => value !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers, rows };
+};
+
+const VCARD_COLUMNS = ['Name', 'Phone', 'Mobile', 'Email', 'Title', 'Organization'];
+
+const unescapeVCard = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+/**
+ * Reads every card in a .vcf file into the same shape as a CSV, one row per card.
+ * The first TEL is the phone; a TEL typed CELL fills the mobile column as well.
+ */
+export const parseVCard = (text: string): ParsedImportFile => {
+  // Folded lines continue with a leading space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const rows: string[][] = [];
+  let card: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const [property, ...params] = line.slice(0, separator).split(';');
+    const key = property.replace(/^item\d+\./i, '').toUpperCase();
+    const value = unescapeVCard(line.slice(separator + 1));
+
+    if (key === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+      card = {};
+    } else if (key === 'END' && card) {
+      rows.push(VCARD_COLUMNS.map(column => card?.[column] || ''));
+      card = null;
+    } else if (card) {
+      const types = params.join(';').toUpperCase();
+      if (key === 'FN') {
+        card.Name = value;
+      } else if (key === 'N' && !card.Name) {
+        const [family = '', given = ''] = value.split(';');
+        card.Name = `${given} ${family}`.trim();
+      } else if (key === 'TEL') {
+        if (!card.Phone) card.Phone = value;
+        if (types.includes('CELL') && !card.Mobile) card.Mobile = value;
+      } else if (key === 'EMAIL' && !card.Email) {
+        card.Email = value;
+      } else if (key === 'TITLE') {
+        card.Title = value;
+      } else if (key === 'ORG') {
+        card.Organization = value.split(';').filter(Boolean).join(' - ');
+      }
+    }
+  }
+
+  return { headers: VCARD_COLUMNS, rows };
+};
+
+export const parseImportFile = (fileName: string, text: string): ParsedImportFile =>
+  /\.vcf$/i.test(fileName) || /^\s*BEGIN:VCARD/i.test(text) ? parseVCard(text) : parseDelimited(text);
+
+// Matches headers to fields by name; each column is used at most once
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  const keys = headers.map(normalizeKey);
+
+  for (const field of Object.keys(FIELD_ALIASES) as ImportField[]) {
+    const aliases = FIELD_ALIASES[field];
+    const exact = keys.findIndex((key, index) => !used.has(index) && aliases.includes(key));
+    const match = exact >= 0
+      ? exact
+      : keys.findIndex((key, index) => !used.has(index) && aliases.some(alias => alias.length > 2 && key.includes(alias)));
+    if (match >= 0) {
+      mapping[field] = match;
+      used.add(match);
+    }
+  }
+  return mapping;
+};
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+/**
+ * Turns mapped rows into contacts and lists what is wrong with each one. Phone numbers
+ * are normalized like the contact form does, reading numbers without a country code
+ * in defaultCountry, and a number that repeats an earlier row or an existing client
+ * is reported so it is not imported twice. Work statuses match a code or label in the
+ * work status catalogue.
+ */
+export const validateImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  existing: Employee[],
+  workStatuses: DispositionCodeIndex,
+  defaultCountry: string = DEFAULT_COUNTRY
+): ImportRowResult[] => {
+  const existingKeys = new Set(existing.map(employee => getClientE164(employee, defaultCountry)));
+  const workStatusValues = new Map<string, string>();
+  workStatuses.forEach(status => {
+    workStatusValues.set(normalizeKey(status.label), status.code);
+    workStatusValues.set(normalizeKey(status.code), status.code);
+  });
+  const fileKeys = new Map<string, number>();
+  const cellFor = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] || '').trim();
+  };
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 1;
+    const errors: string[] = [];
+    const name = cellFor(row, 'name');
+    const rawPhone = cellFor(row, 'phoneNumber');
+    const rawWhatsapp = cellFor(row, 'whatsappNumber');
+    const email = cellFor(row, 'email');
+    const rawWorkStatus = cellFor(row, 'workStatus');
+    const rawUrgent = cellFor(row, 'isUrgent').toLowerCase();
+
+    const contact: NewClient = { name, phoneNumber: rawPhone, phoneE164: '' };
+    const phone = rawPhone ? normalizePhoneNumber(rawPhone, defaultCountry) : null;
+    const whatsapp = rawWhatsapp ? normalizePhoneNumber(rawWhatsapp, defaultCountry) : null;
+
+    if (!name) {
+      errors.push('Name is missing');
+    } else if (name.length < 2) {
+      errors.push('Name must be at least 2 characters');
+    }
+
+    if (!rawPhone) {
+      errors.push('Phone number is missing');
+    } else if (!phone) {
+      errors.push(`"${rawPhone}" is not a valid phone number`);
+    } else {
+      contact.phoneNumber = phone.display;
+      contact.phoneE164 = phone.e164;
+      if (existingKeys.has(phone.e164)) {
+        errors.push('Phone number already belongs to a client');
+      } else if (fileKeys.has(phone.e164)) {
+        errors.push(`Same phone number as row ${fileKeys.get(phone.e164)}`);
+      } else {
+        fileKeys.set(phone.e164, rowNumber);
+      }
+    }
+
+    if (rawWhatsapp) {
+      if (whatsapp) {
+        contact.whatsappNumber = whatsapp.display;
+        contact.whatsappE164 = whatsapp.e164;
+      } else {
+        errors.push(`"${rawWhatsapp}" is not a valid WhatsApp number`);
+      }
+    }
+
+    if (email) {
+      if (isValidEmail(email)) {
+        contact.email = email;
+      } else {
+        errors.push(`"${email}" is not a valid email`);
+      }
+    }
+
+    const position = cellFor(row, 'position');
+    const department = cellFor(row, 'department');
+    if (position) contact.position = position;
+    if (department) contact.department = department;
+
+    if (rawWorkStatus) {
+      const workStatus = workStatusValues.get(normalizeKey(rawWorkStatus));
+      if (workStatus) {
+        contact.workStatus = workStatus;
+      } else {
+        errors.push(`Unknown work status "${rawWorkStatus}"`);
+      }
+    }
+
+    if (rawUrgent) {
+      if (TRUE_VALUES.includes(rawUrgent)) {
+        contact.isUrgent = true;
+      } else if (FALSE_VALUES.includes(rawUrgent)) {
+        contact.isUrgent = false;
+      } else {
+        errors.push(`Urgent should be yes or no, not "${rawUrgent}"`);
+      }
+    }
+
+    return { rowNumber, contact, errors };
+  });
+};
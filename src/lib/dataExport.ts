@@ -0,0 +1,250 @@
+import { Appointment, CallLog, ClientFeedback, Employee, WorkHistory } from '../types/Employee';
+
+export interface ExportRecords {
+  clients: Employee[];
+  callLogs: CallLog[];
+  workHistory: WorkHistory[];
+  appointments: Appointment[];
+  feedback: ClientFeedback[];
+}
+
+export type ExportDataset = keyof ExportRecords;
+export type ExportFormat = 'csv' | 'json' | 'excel';
+export type ExportDateFormat = 'iso' | 'local' | 'date';
+
+type ExportValue = string | number | boolean | Date | undefined;
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T, clientName: (clientId: string) => string) => ExportValue;
+}
+
+type ExportColumns = { [K in ExportDataset]: ExportColumn<ExportRecords[K][number]>[] };
+
+export interface ExportOptions {
+  format: ExportFormat;
+  dateFormat: ExportDateFormat;
+  columns: Record<ExportDataset, string[]>; // selected column keys; a dataset with none is left out
+}
+
+export interface ExportTable {
+  dataset: ExportDataset;
+  columns: { key: string; label: string }[];
+  rows: ExportValue[][];
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export const EXPORT_DATASETS: { dataset: ExportDataset; label: string }[] = [
+  { dataset: 'clients', label: 'Clients' },
+  { dataset: 'callLogs', label: 'Call Logs' },
+  { dataset: 'workHistory', label: 'Work History' },
+  { dataset: 'appointments', label: 'Appointments' },
+  { dataset: 'feedback', label: 'Feedback' },
+];
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'excel', label: 'Excel' },
+];
+
+export const EXPORT_DATE_FORMATS: { dateFormat: ExportDateFormat; label: string }[] = [
+  { dateFormat: 'local', label: 'Local date and time' },
+  { dateFormat: 'date', label: 'Date only (YYYY-MM-DD)' },
+  { dateFormat: 'iso', label: 'ISO 8601 (UTC)' },
+];
+
+export const EXPORT_COLUMNS: ExportColumns = {
+  clients: [
+    { key: 'name', label: 'Name', value: client => client.name },
+    { key: 'phoneNumber', label: 'Phone Number', value: client => client.phoneNumber },
+    { key: 'whatsappNumber', label: 'WhatsApp Number', value: client => client.whatsappNumber },
+    { key: 'email', label: 'Email', value: client => client.email },
+    { key: 'position', label: 'Position', value: client => client.position },
+    { key: 'department', label: 'Department', value: client => client.department },
+    { key: 'status', label: 'Call Status', value: client => client.status },
+    { key: 'callAttempts', label: 'Call Attempts', value: client => client.callAttempts },
+    { key: 'lastCallTime', label: 'Last Call', value: client => client.lastCallTime },
+    { key: 'workStatus', label: 'Work Status', value: client => client.workStatus },
+    { key: 'isUrgent', label: 'Urgent', value: client => client.isUrgent ?? false },
+    { key: 'priority', label: 'Priority', value: client => client.priority },
+    { key: 'timeZone', label: 'Time Zone', value: client => client.timeZone },
+    { key: 'lastDispositionCode', label: 'Last Disposition', value: client => client.lastDispositionCode },
+    { key: 'lastDispositionAt', label: 'Last Disposition At', value: client => client.lastDispositionAt },
+    { key: 'nextEligibleAt', label: 'Next Eligible At', value: client => client.nextEligibleAt },
+    { key: 'recordingConsent', label: 'Recording Consent', value: client => client.recordingConsent ?? false },
+  ],
+  callLogs: [
+    { key: 'client', label: 'Client', value: (log, clientName) => clientName(log.clientId) },
+    { key: 'startedAt', label: 'Started At', value: log => log.startedAt },
+    { key: 'endedAt', label: 'Ended At', value: log => log.endedAt },
+    { key: 'outcome', label: 'Outcome', value: log => log.outcome },
+    { key: 'ringDurationSeconds', label: 'Ring Seconds', value: log => log.ringDurationSeconds },
+    { key: 'talkDurationSeconds', label: 'Talk Seconds', value: log => log.talkDurationSeconds },
+    { key: 'callMode', label: 'Mode', value: log => log.callMode },
+    { key: 'roundNumber', label: 'Round', value: log => log.roundNumber },
+    { key: 'voicemailDropped', label: 'Voicemail Left', value: log => log.voicemailDropped ?? false },
+    { key: 'notes', label: 'Notes', value: log => log.notes },
+  ],
+  workHistory: [
+    { key: 'client', label: 'Client', value: (work, clientName) => clientName(work.clientId) },
+    { key: 'workType', label: 'Work Type', value: work => work.workType },
+    { key: 'workDescription', label: 'Description', value: work => work.workDescription },
+    { key: 'status', label: 'Status', value: work => work.status },
+    { key: 'startDate', label: 'Start Date', value: work => work.startDate },
+    { key: 'completionDate', label: 'Completion Date', value: work => work.completionDate },
+    { key: 'amount', label: 'Amount', value: work => work.amount },
+  ],
+  appointments: [
+    { key: 'client', label: 'Client', value: (apt, clientName) => clientName(apt.clientId) },
+    { key: 'appointmentDate', label: 'Date', value: apt => apt.appointmentDate },
+    { key: 'appointmentType', label: 'Type', value: apt => apt.appointmentType },
+    { key: 'status', label: 'Status', value: apt => apt.status },
+    { key: 'notes', label: 'Notes', value: apt => apt.notes },
+  ],
+  feedback: [
+    { key: 'client', label: 'Client', value: (fb, clientName) => clientName(fb.clientId) },
+    { key: 'rating', label: 'Rating', value: fb => fb.rating },
+    { key: 'feedbackText', label: 'Feedback', value: fb => fb.feedbackText },
+    { key: 'feedbackDate', label: 'Date', value: fb => fb.feedbackDate },
+  ],
+};
+
+export const allExportColumns = (): Record<ExportDataset, string[]> => ({
+  clients: EXPORT_COLUMNS.clients.map(column => column.key),
+  callLogs: EXPORT_COLUMNS.callLogs.map(column => column.key),
+  workHistory: EXPORT_COLUMNS.workHistory.map(column => column.key),
+  appointments: EXPORT_COLUMNS.appointments.map(column => column.key),
+  feedback: EXPORT_COLUMNS.feedback.map(column => column.key),
+});
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const formatExportDate = (date: Date, dateFormat: ExportDateFormat): string => {
+  switch (dateFormat) {
+    case 'iso':
+      return date.toISOString();
+    case 'date':
+      return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    default:
+      return date.toLocaleString();
+  }
+};
+
+const buildTable = <K extends ExportDataset>(
+  dataset: K,
+  rows: ExportRecords[K],
+  selected: string[],
+  clientName: (clientId: string) => string
+): ExportTable => {
+  const columns = (EXPORT_COLUMNS[dataset] as ExportColumn<ExportRecords[K][number]>[])
+    .filter(column => selected.includes(column.key));
+  return {
+    dataset,
+    columns: columns.map(({ key, label }) => ({ key, label })),
+    rows: rows.map(row => columns.map(column => column.value(row, clientName))),
+  };
+};
+
+// History rows name their client; ids of clients outside the export are shown as-is
+export const buildExportTables = (records: ExportRecords, options: ExportOptions): ExportTable[] => {
+  const names = new Map(records.clients.map(client => [client.id, client.name]));
+  const clientName = (clientId: string) => names.get(clientId) || clientId;
+
+  return EXPORT_DATASETS
+    .filter(({ dataset }) => options.columns[dataset].length > 0)
+    .map(({ dataset }) => buildTable(dataset, records[dataset], options.columns[dataset], clientName));
+};
+
+const toText = (value: ExportValue, dateFormat: ExportDateFormat): string => {
+  if (value === undefined) return '';
+  if (value instanceof Date) return formatExportDate(value, dateFormat);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const escapeCsvCell = (text: string): string =>
+  /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+// Spreadsheets run text starting with =, +, -, @, a tab or a carriage return as a formula.
+// A leading apostrophe marks it as text, so a number like +1 202 555 0143 shows as written
+// instead of being evaluated. Numbers and dates are never formulas.
+const toCsvCell = (value: ExportValue, dateFormat: ExportDateFormat): string =>
+  escapeCsvCell(typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : toText(value, dateFormat));
+
+export const toCsv = (table: ExportTable, dateFormat: ExportDateFormat): string =>
+  [
+    table.columns.map(column => toCsvCell(column.label, dateFormat)),
+    ...table.rows.map(row => row.map(value => toCsvCell(value, dateFormat))),
+  ].map(cells => cells.join(',')).join('\r\n');
+
+export const toJson = (tables: ExportTable[], dateFormat: ExportDateFormat): string =>
+  JSON.stringify(
+    Object.fromEntries(tables.map(table => [
+      table.dataset,
+      table.rows.map(row => Object.fromEntries(table.columns.map((column, index) => {
+        const value = row[index];
+        return [column.key, value instanceof Date ? formatExportDate(value, dateFormat) : value ?? null];
+      }))),
+    ])),
+    null,
+    2
+  );
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const xmlCell = (value: ExportValue, dateFormat: ExportDateFormat) =>
+  typeof value === 'number'
+    ? `<Cell><Data ss:Type="Number">${value}</Data></Cell>`
+    : `<Cell><Data ss:Type="String">${escapeXml(toText(value, dateFormat))}</Data></Cell>`;
+
+/**
+ * Excel 2003 XML spreadsheet, one worksheet per dataset. Excel, LibreOffice and
+ * Numbers open it directly; every cell is typed, so phone numbers stay text.
+ */
+export const toSpreadsheetXml = (tables: ExportTable[], dateFormat: ExportDateFormat): string => {
+  const sheetName = (dataset: ExportDataset) =>
+    EXPORT_DATASETS.find(entry => entry.dataset === dataset)?.label || dataset;
+  const worksheets = tables.map(table => [
+    `<Worksheet ss:Name="${escapeXml(sheetName(table.dataset))}"><Table>`,
+    `<Row>${table.columns.map(column => `<Cell ss:StyleID="header"><Data ss:Type="String">${escapeXml(column.label)}</Data></Cell>`).join('')}</Row>`,
+    ...table.rows.map(row => `<Row>${row.map(value => xmlCell(value, dateFormat)).join('')}</Row>`),
+    '</Table></Worksheet>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    '<Styles><Style ss:ID="header"><Font ss:Bold="1"/></Style></Styles>',
+    ...worksheets,
+    '</Workbook>',
+  ].join('\n');
+};
+
+/**
+ * Serializes the tables in the chosen format. JSON and Excel put every dataset in
+ * one file; CSV has no sheets, so each dataset gets a file of its own.
+ */
+export const buildExportFiles = (tables: ExportTable[], options: ExportOptions, baseName: string): ExportFile[] => {
+  switch (options.format) {
+    case 'json':
+      return [{ fileName: `${baseName}.json`, mimeType: 'application/json', content: toJson(tables, options.dateFormat) }];
+    case 'excel':
+      return [{ fileName: `${baseName}.xls`, mimeType: 'application/vnd.ms-excel', content: toSpreadsheetXml(tables, options.dateFormat) }];
+    default:
+      return tables.map(table => ({
+        fileName: tables.length > 1 ? `${baseName}-${table.dataset}.csv` : `${baseName}.csv`,
+        mimeType: 'text/csv;charset=utf-8',
+        // The byte order mark makes Excel read the file as UTF-8
+        content: `\uFEFF${toCsv(table, options.dateFormat)}`,
+      }));
+  }
+};
@@ -14,16 +14,23 @@ export interface Database {
           id: string
           name: string
           phone_number: string
+          phone_e164: string | null
           whatsapp_number: string | null
-          email: string
-          position: string
-          department: string
-          status: 'pending' | 'calling' | 'answered' | 'missed'
+          whatsapp_e164: string | null
+          email: string | null
+          position: string | null
+          department: string | null
+          status: 'pending' | 'calling' | 'answered' | 'missed' | 'busy' | 'voicemail' | 'machine' | 'wrong-number' | 'disconnected' | 'declined' | 'callback-requested'
           call_attempts: number
           last_call_time: string | null
-          priority: 'high' | 'follow-up' | 'not-interested' | null
-          work_status: 'new' | 'in_progress' | 'completed' | 'repeat_client'
+          priority: string | null
+          work_status: string
           is_urgent: boolean
+          time_zone: string | null
+          last_disposition_code: string | null
+          last_disposition_at: string | null
+          next_eligible_at: string | null
+          recording_consent: boolean
           user_id: string
           created_at: string
           updated_at: string
@@ -32,16 +39,23 @@ export interface Database {
           id?: string
           name: string
           phone_number: string
+          phone_e164?: string | null
           whatsapp_number?: string | null
-          email?: string
-          position?: string
-          department?: string
-          status?: 'pending' | 'calling' | 'answered' | 'missed'
+          whatsapp_e164?: string | null
+          email?: string | null
+          position?: string | null
+          department?: string | null
+          status?: 'pending' | 'calling' | 'answered' | 'missed' | 'busy' | 'voicemail' | 'machine' | 'wrong-number' | 'disconnected' | 'declined' | 'callback-requested'
           call_attempts?: number
           last_call_time?: string | null
-          priority?: 'high' | 'follow-up' | 'not-interested' | null
-          work_status?: 'new' | 'in_progress' | 'completed' | 'repeat_client'
+          priority?: string | null
+          work_status?: string
           is_urgent?: boolean
+          time_zone?: string | null
+          last_disposition_code?: string | null
+          last_disposition_at?: string | null
+          next_eligible_at?: string | null
+          recording_consent?: boolean
           user_id: string
           created_at?: string
           updated_at?: string
@@ -50,20 +64,28 @@ export interface Database {
           id?: string
           name?: string
           phone_number?: string
+          phone_e164?: string | null
           whatsapp_number?: string | null
-          email?: string
-          position?: string
-          department?: string
-          status?: 'pending' | 'calling' | 'answered' | 'missed'
+          whatsapp_e164?: string | null
+          email?: string | null
+          position?: string | null
+          department?: string | null
+          status?: 'pending' | 'calling' | 'answered' | 'missed' | 'busy' | 'voicemail' | 'machine' | 'wrong-number' | 'disconnected' | 'declined' | 'callback-requested'
           call_attempts?: number
           last_call_time?: string | null
-          priority?: 'high' | 'follow-up' | 'not-interested' | null
-          work_status?: 'new' | 'in_progress' | 'completed' | 'repeat_client'
+          priority?: string | null
+          work_status?: string
           is_urgent?: boolean
+          time_zone?: string | null
+          last_disposition_code?: string | null
+          last_disposition_at?: string | null
+          next_eligible_at?: string | null
+          recording_consent?: boolean
           user_id?: string
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       client_feedback: {
         Row: {
@@ -93,6 +115,7 @@ export interface Database {
           feedback_date?: string
           created_at?: string
         }
+        Relationships: []
       }
       appointments: {
         Row: {
@@ -128,6 +151,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       work_history: {
         Row: {
@@ -166,6 +190,7 @@ export interface Database {
           amount?: number | null
           created_at?: string
         }
+        Relationships: []
       }
       client_notes: {
         Row: {
@@ -192,13 +217,463 @@ export interface Database {
           is_urgent?: boolean
           created_at?: string
         }
+        Relationships: []
+      }
+      call_logs: {
+        Row: {
+          id: string
+          client_id: string
+          user_id: string
+          started_at: string
+          ended_at: string | null
+          ring_duration_seconds: number
+          talk_duration_seconds: number
+          outcome: 'answered' | 'missed' | 'busy' | 'voicemail' | 'machine' | 'wrong-number' | 'disconnected' | 'declined' | 'callback-requested'
+          round_number: number | null
+          call_mode: 'manual' | 'auto'
+          provider_call_id: string | null
+          voicemail_dropped: boolean
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          user_id: string
+          started_at: string
+          ended_at?: string | null
+          ring_duration_seconds?: number
+          talk_duration_seconds?: number
+          outcome: 'answered' | 'missed' | 'busy' | 'voicemail' | 'machine' | 'wrong-number' | 'disconnected' | 'declined' | 'callback-requested'
+          round_number?: number | null
+          call_mode?: 'manual' | 'auto'
+          provider_call_id?: string | null
+          voicemail_dropped?: boolean
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          user_id?: string
+          started_at?: string
+          ended_at?: string | null
+          ring_duration_seconds?: number
+          talk_duration_seconds?: number
+          outcome?: 'answered' | 'missed' | 'busy' | 'voicemail' | 'machine' | 'wrong-number' | 'disconnected' | 'declined' | 'callback-requested'
+          round_number?: number | null
+          call_mode?: 'manual' | 'auto'
+          provider_call_id?: string | null
+          voicemail_dropped?: boolean
+          notes?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      campaign_settings: {
+        Row: {
+          id: string
+          user_id: string
+          ring_timeout_seconds: number
+          inter_call_delay_seconds: number
+          inter_round_delay_seconds: number
+          max_rounds: number | null
+          max_attempts_per_contact: number | null
+          stop_after_answered: number | null
+          stop_after_minutes: number | null
+          dialing_strategy: 'list-order' | 'urgent-first' | 'high-priority-first' | 'least-recently-called' | 'fewest-attempts' | 'weighted'
+          skip_not_interested: boolean
+          calling_window_start: string
+          calling_window_end: string
+          enforce_calling_window: boolean
+          max_concurrent_calls: number
+          predictive_pacing: boolean
+          wrap_up_seconds: number
+          retry_rules: Json
+          recording_retention_days: number | null
+          voicemail_drop_path: string | null
+          default_country: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          ring_timeout_seconds?: number
+          inter_call_delay_seconds?: number
+          inter_round_delay_seconds?: number
+          max_rounds?: number | null
+          max_attempts_per_contact?: number | null
+          stop_after_answered?: number | null
+          stop_after_minutes?: number | null
+          dialing_strategy?: 'list-order' | 'urgent-first' | 'high-priority-first' | 'least-recently-called' | 'fewest-attempts' | 'weighted'
+          skip_not_interested?: boolean
+          calling_window_start?: string
+          calling_window_end?: string
+          enforce_calling_window?: boolean
+          max_concurrent_calls?: number
+          predictive_pacing?: boolean
+          wrap_up_seconds?: number
+          retry_rules?: Json
+          recording_retention_days?: number | null
+          voicemail_drop_path?: string | null
+          default_country?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          ring_timeout_seconds?: number
+          inter_call_delay_seconds?: number
+          inter_round_delay_seconds?: number
+          max_rounds?: number | null
+          max_attempts_per_contact?: number | null
+          stop_after_answered?: number | null
+          stop_after_minutes?: number | null
+          dialing_strategy?: 'list-order' | 'urgent-first' | 'high-priority-first' | 'least-recently-called' | 'fewest-attempts' | 'weighted'
+          skip_not_interested?: boolean
+          calling_window_start?: string
+          calling_window_end?: string
+          enforce_calling_window?: boolean
+          max_concurrent_calls?: number
+          predictive_pacing?: boolean
+          wrap_up_seconds?: number
+          retry_rules?: Json
+          recording_retention_days?: number | null
+          voicemail_drop_path?: string | null
+          default_country?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      do_not_call_entries: {
+        Row: {
+          id: string
+          phone_number: string
+          phone_key: string
+          scope: 'user' | 'global'
+          user_id: string | null
+          reason: string | null
+          source: 'manual' | 'not-interested' | 'csv-import'
+          added_by: string
+          added_by_email: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          phone_number: string
+          phone_key: string
+          scope?: 'user' | 'global'
+          user_id?: string | null
+          reason?: string | null
+          source?: 'manual' | 'not-interested' | 'csv-import'
+          added_by: string
+          added_by_email?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          phone_number?: string
+          phone_key?: string
+          scope?: 'user' | 'global'
+          user_id?: string | null
+          reason?: string | null
+          source?: 'manual' | 'not-interested' | 'csv-import'
+          added_by?: string
+          added_by_email?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      callbacks: {
+        Row: {
+          id: string
+          client_id: string
+          user_id: string
+          call_log_id: string | null
+          due_at: string
+          reason: string | null
+          assigned_to: string | null
+          status: 'scheduled' | 'completed' | 'cancelled'
+          completed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          user_id: string
+          call_log_id?: string | null
+          due_at: string
+          reason?: string | null
+          assigned_to?: string | null
+          status?: 'scheduled' | 'completed' | 'cancelled'
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          user_id?: string
+          call_log_id?: string | null
+          due_at?: string
+          reason?: string | null
+          assigned_to?: string | null
+          status?: 'scheduled' | 'completed' | 'cancelled'
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      call_sessions: {
+        Row: {
+          id: string
+          user_id: string
+          status: 'active' | 'completed' | 'stopped'
+          current_round: number
+          queue: Json
+          position: number
+          answered_count: number
+          settings: Json
+          call_list_id: string | null
+          started_at: string
+          ended_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          status?: 'active' | 'completed' | 'stopped'
+          current_round?: number
+          queue?: Json
+          position?: number
+          answered_count?: number
+          settings: Json
+          call_list_id?: string | null
+          started_at: string
+          ended_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          status?: 'active' | 'completed' | 'stopped'
+          current_round?: number
+          queue?: Json
+          position?: number
+          answered_count?: number
+          settings?: Json
+          call_list_id?: string | null
+          started_at?: string
+          ended_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      call_lists: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      call_list_members: {
+        Row: {
+          list_id: string
+          client_id: string
+          user_id: string
+          added_at: string
+        }
+        Insert: {
+          list_id: string
+          client_id: string
+          user_id: string
+          added_at?: string
+        }
+        Update: {
+          list_id?: string
+          client_id?: string
+          user_id?: string
+          added_at?: string
+        }
+        Relationships: []
+      }
+      call_dispositions: {
+        Row: {
+          id: string
+          call_log_id: string
+          client_id: string
+          user_id: string
+          outcome_code: string | null
+          summary: string | null
+          next_action: 'none' | 'callback' | 'appointment' | 'send-information' | 'close'
+          callback_id: string | null
+          appointment_id: string | null
+          auto_dismissed: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          call_log_id: string
+          client_id: string
+          user_id: string
+          outcome_code?: string | null
+          summary?: string | null
+          next_action?: 'none' | 'callback' | 'appointment' | 'send-information' | 'close'
+          callback_id?: string | null
+          appointment_id?: string | null
+          auto_dismissed?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          call_log_id?: string
+          client_id?: string
+          user_id?: string
+          outcome_code?: string | null
+          summary?: string | null
+          next_action?: 'none' | 'callback' | 'appointment' | 'send-information' | 'close'
+          callback_id?: string | null
+          appointment_id?: string | null
+          auto_dismissed?: boolean
+          created_at?: string
+        }
+        Relationships: []
+      }
+      disposition_codes: {
+        Row: {
+          id: string
+          code: string
+          label: string
+          color: 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink'
+          counts_as_reached: boolean
+          retry: boolean
+          retry_delay_minutes: number | null
+          sort_order: number
+          category: 'outcome' | 'priority' | 'work_status'
+          scope: 'user' | 'global'
+          user_id: string | null
+          created_by: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          label: string
+          color?: 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink'
+          counts_as_reached?: boolean
+          retry?: boolean
+          retry_delay_minutes?: number | null
+          sort_order?: number
+          category?: 'outcome' | 'priority' | 'work_status'
+          scope?: 'user' | 'global'
+          user_id?: string | null
+          created_by: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          label?: string
+          color?: 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink'
+          counts_as_reached?: boolean
+          retry?: boolean
+          retry_delay_minutes?: number | null
+          sort_order?: number
+          category?: 'outcome' | 'priority' | 'work_status'
+          scope?: 'user' | 'global'
+          user_id?: string | null
+          created_by?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      call_recordings: {
+        Row: {
+          id: string
+          call_log_id: string
+          client_id: string
+          user_id: string
+          storage_path: string
+          mime_type: string
+          size_bytes: number
+          duration_seconds: number | null
+          expires_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          call_log_id: string
+          client_id: string
+          user_id: string
+          storage_path: string
+          mime_type?: string
+          size_bytes?: number
+          duration_seconds?: number | null
+          expires_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          call_log_id?: string
+          client_id?: string
+          user_id?: string
+          storage_path?: string
+          mime_type?: string
+          size_bytes?: number
+          duration_seconds?: number | null
+          expires_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      merge_clients: {
+        Args: {
+          keep_client_id: string
+          merge_client_id: string
+          kept_values?: Json
+        }
+        Returns: Database['public']['Tables']['clients']['Row']
+      }
+      is_app_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
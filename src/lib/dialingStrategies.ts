@@ -0,0 +1,84 @@
+import { DialingStrategy, Employee } from '../types/Employee';
+import { DispositionCodeIndex, hasSkippedPriority, isWorkDone, listDispositionCodes } from './dispositions';
+
+export const DIALING_STRATEGIES: { value: DialingStrategy; label: string; description: string }[] = [
+  { value: 'list-order', label: 'List Order', description: 'Dial in the order clients were added' },
+  { value: 'urgent-first', label: 'Urgent First', description: 'Urgent clients before everyone else' },
+  { value: 'high-priority-first', label: 'High Priority First', description: 'Clients in the order of the priority catalogue, then the rest' },
+  { value: 'least-recently-called', label: 'Least Recently Called', description: 'Never-called clients first, then the longest waiting' },
+  { value: 'fewest-attempts', label: 'Fewest Attempts', description: 'Clients with the fewest call attempts first' },
+  { value: 'weighted', label: 'Weighted Score', description: 'Combines urgency, priority, work status, wait time and attempts' },
+];
+
+// The priority and work status catalogues the ranking reads
+export interface DialingCatalogues {
+  priorities: DispositionCodeIndex;
+  workStatuses: DispositionCodeIndex;
+}
+
+// Position of each retried priority in catalogue order; priorities that are never retried are left out
+const rankRetriedPriorities = (priorities: DispositionCodeIndex): Map<string, number> =>
+  new Map(listDispositionCodes(priorities).filter(code => code.retry).map((code, rank) => [code.code, rank]));
+
+// Retried priorities in catalogue order, then clients without one, then priorities that are
+// never retried (such as Not Interested)
+const priorityRank = (employee: Employee, ranks: Map<string, number>, priorities: DispositionCodeIndex) => {
+  if (employee.priority && ranks.has(employee.priority)) return ranks.get(employee.priority)!;
+  return hasSkippedPriority(employee, priorities) ? ranks.size + 1 : ranks.size;
+};
+
+const lastCalledAt = (employee: Employee) =>
+  employee.lastCallTime ? employee.lastCallTime.getTime() : 0;
+
+// Higher is dialed sooner
+export const weightedScore = (
+  employee: Employee,
+  catalogues: DialingCatalogues,
+  now: number = Date.now(),
+  priorityRanks: Map<string, number> = rankRetriedPriorities(catalogues.priorities)
+): number => {
+  let score = 0;
+  if (employee.isUrgent) score += 40;
+  // 30 points for the top priority, halving down the list
+  const rank = employee.priority ? priorityRanks.get(employee.priority) : undefined;
+  if (rank !== undefined) score += 30 / 2 ** rank;
+  // Clients whose work is done are not pushed forward
+  if (!isWorkDone(employee, catalogues.workStatuses)) score += 6;
+
+  // Up to 20 points for waiting, capped at one day since the last call
+  const hoursWaiting = employee.lastCallTime ? (now - employee.lastCallTime.getTime()) / 3600000 : 24;
+  score += Math.min(hoursWaiting, 24) / 24 * 20;
+
+  // Up to 15 points for clients that have rarely been tried
+  score += Math.max(0, 15 - employee.callAttempts * 3);
+  return score;
+};
+
+const COMPARATORS: Record<DialingStrategy, ((a: Employee, b: Employee) => number) | null> = {
+  'list-order': null,
+  'urgent-first': (a, b) => Number(!!b.isUrgent) - Number(!!a.isUrgent),
+  'high-priority-first': null,
+  'least-recently-called': (a, b) => lastCalledAt(a) - lastCalledAt(b),
+  'fewest-attempts': (a, b) => a.callAttempts - b.callAttempts,
+  weighted: null,
+};
+
+// Returns a new array in dialing order; ties keep list order (Array.prototype.sort is stable)
+export const orderForDialing = (
+  employees: Employee[],
+  strategy: DialingStrategy,
+  catalogues: DialingCatalogues,
+  now: number = Date.now()
+): Employee[] => {
+  const priorityRanks = rankRetriedPriorities(catalogues.priorities);
+  if (strategy === 'weighted') {
+    const scores = new Map(employees.map(emp => [emp.id, weightedScore(emp, catalogues, now, priorityRanks)]));
+    return [...employees].sort((a, b) => scores.get(b.id)! - scores.get(a.id)!);
+  }
+  if (strategy === 'high-priority-first') {
+    const ranks = new Map(employees.map(emp => [emp.id, priorityRank(emp, priorityRanks, catalogues.priorities)]));
+    return [...employees].sort((a, b) => ranks.get(a.id)! - ranks.get(b.id)!);
+  }
+  const comparator = COMPARATORS[strategy];
+  return comparator ? [...employees].sort(comparator) : [...employees];
+};
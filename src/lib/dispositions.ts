@@ -0,0 +1,107 @@
+import { CatalogueCategory, DispositionCode, DispositionColor, DispositionNextAction, Employee } from '../types/Employee';
+
+// Catalogue a user starts with before editing their own
+export const DEFAULT_DISPOSITION_CODES: Omit<DispositionCode, 'id' | 'scope' | 'createdBy'>[] = [
+  { category: 'outcome', code: 'interested', label: 'Interested', color: 'green', countsAsReached: true, retry: true, retryDelayMinutes: 1440, sortOrder: 1 },
+  { category: 'outcome', code: 'appointment-set', label: 'Appointment Set', color: 'teal', countsAsReached: true, retry: false, sortOrder: 2 },
+  { category: 'outcome', code: 'needs-follow-up', label: 'Needs Follow-Up', color: 'blue', countsAsReached: true, retry: true, retryDelayMinutes: 2880, sortOrder: 3 },
+  { category: 'outcome', code: 'information-requested', label: 'Information Requested', color: 'indigo', countsAsReached: true, retry: true, retryDelayMinutes: 4320, sortOrder: 4 },
+  { category: 'outcome', code: 'not-interested', label: 'Not Interested', color: 'red', countsAsReached: true, retry: false, sortOrder: 5 },
+  { category: 'outcome', code: 'wrong-person', label: 'Wrong Person', color: 'orange', countsAsReached: false, retry: true, retryDelayMinutes: 60, sortOrder: 6 },
+  { category: 'outcome', code: 'other', label: 'Other', color: 'gray', countsAsReached: false, retry: true, sortOrder: 7 },
+  { category: 'priority', code: 'high', label: 'High Priority', color: 'green', countsAsReached: false, retry: true, sortOrder: 1 },
+  { category: 'priority', code: 'follow-up', label: 'Follow Up', color: 'teal', countsAsReached: false, retry: true, sortOrder: 2 },
+  { category: 'priority', code: 'not-interested', label: 'Not Interested', color: 'red', countsAsReached: false, retry: false, sortOrder: 3 },
+  { category: 'work_status', code: 'new', label: 'New Client', color: 'gray', countsAsReached: false, retry: true, sortOrder: 1 },
+  { category: 'work_status', code: 'in_progress', label: 'Work In Progress', color: 'blue', countsAsReached: false, retry: true, sortOrder: 2 },
+  { category: 'work_status', code: 'completed', label: 'Work Completed', color: 'green', countsAsReached: true, retry: true, sortOrder: 3 },
+  { category: 'work_status', code: 'repeat_client', label: 'Repeat Client', color: 'purple', countsAsReached: false, retry: true, sortOrder: 4 },
+];
+
+export const CATALOGUE_CATEGORIES: Record<CatalogueCategory, { label: string; description: string }> = {
+  outcome: { label: 'Call Outcomes', description: 'Offered after each answered call, and how auto calling treats them' },
+  priority: { label: 'Priorities', description: 'Set from the client card; dialing by priority follows their order' },
+  work_status: { label: 'Work Statuses', description: 'The stage of the job, set on the contact form' },
+};
+
+// Spelled out in full so Tailwind keeps the classes
+export const DISPOSITION_COLORS: Record<DispositionColor, { label: string; softClass: string; dotClass: string }> = {
+  gray: { label: 'Gray', softClass: 'bg-gray-100 text-gray-800', dotClass: 'bg-gray-500' },
+  red: { label: 'Red', softClass: 'bg-red-100 text-red-800', dotClass: 'bg-red-500' },
+  orange: { label: 'Orange', softClass: 'bg-orange-100 text-orange-800', dotClass: 'bg-orange-500' },
+  yellow: { label: 'Yellow', softClass: 'bg-yellow-100 text-yellow-800', dotClass: 'bg-yellow-500' },
+  green: { label: 'Green', softClass: 'bg-green-100 text-green-800', dotClass: 'bg-green-500' },
+  teal: { label: 'Teal', softClass: 'bg-teal-100 text-teal-800', dotClass: 'bg-teal-500' },
+  blue: { label: 'Blue', softClass: 'bg-blue-100 text-blue-800', dotClass: 'bg-blue-500' },
+  indigo: { label: 'Indigo', softClass: 'bg-indigo-100 text-indigo-800', dotClass: 'bg-indigo-500' },
+  purple: { label: 'Purple', softClass: 'bg-purple-100 text-purple-800', dotClass: 'bg-purple-500' },
+  pink: { label: 'Pink', softClass: 'bg-pink-100 text-pink-800', dotClass: 'bg-pink-500' },
+};
+
+export const NEXT_ACTION_LABELS: Record<DispositionNextAction, string> = {
+  none: 'No further action',
+  callback: 'Schedule a callback',
+  appointment: 'Book an appointment',
+  'send-information': 'Send information',
+  close: 'Close the lead',
+};
+
+export type DispositionCodeIndex = Map<string, DispositionCode>;
+
+// The codes of one category; personal codes win over shared codes with the same identifier
+export const buildDispositionCodeIndex = (
+  codes: DispositionCode[],
+  category: CatalogueCategory = 'outcome'
+): DispositionCodeIndex => {
+  const index: DispositionCodeIndex = new Map();
+  codes.forEach(code => {
+    if (code.category === category && (!index.has(code.code) || code.scope === 'user')) {
+      index.set(code.code, code);
+    }
+  });
+  return index;
+};
+
+// The effective catalogue, in display order
+export const listDispositionCodes = (index: DispositionCodeIndex): DispositionCode[] =>
+  Array.from(index.values()).sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label));
+
+export const dispositionCodeLabel = (code: string, index: DispositionCodeIndex): string =>
+  index.get(code)?.label || code;
+
+export const toDispositionCode = (label: string): string =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// The code of the client's latest disposition, when it is still in the catalogue
+export const getLastDispositionCode = (employee: Employee, index: DispositionCodeIndex): DispositionCode | undefined =>
+  employee.lastDispositionCode ? index.get(employee.lastDispositionCode) : undefined;
+
+// Clients with a priority that is never retried are the ones "skip not interested" leaves out
+export const hasSkippedPriority = (employee: Employee, priorities: DispositionCodeIndex): boolean =>
+  !!employee.priority && priorities.get(employee.priority)?.retry === false;
+
+export const isWorkDone = (employee: Employee, workStatuses: DispositionCodeIndex): boolean =>
+  !!employee.workStatus && !!workStatuses.get(employee.workStatus)?.countsAsReached;
+
+// New clients start in the first work status; finished work moves to the first one marked done
+export const getDefaultWorkStatus = (workStatuses: DispositionCodeIndex): string | undefined =>
+  listDispositionCodes(workStatuses)[0]?.code;
+
+export const getDoneWorkStatus = (workStatuses: DispositionCodeIndex): string | undefined =>
+  listDispositionCodes(workStatuses).find(code => code.countsAsReached)?.code;
+
+// Returns a user-facing error message, or null when the code is usable
+export const validateDispositionCode = (
+  code: Pick<DispositionCode, 'code' | 'label' | 'retryDelayMinutes'>
+): string | null => {
+  if (!code.label.trim()) {
+    return 'Please enter a label';
+  }
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(code.code)) {
+    return 'Code may only contain lowercase letters, numbers and dashes';
+  }
+  if (code.retryDelayMinutes !== undefined && (!Number.isInteger(code.retryDelayMinutes) || code.retryDelayMinutes < 0)) {
+    return 'Retry delay must be a whole number of minutes';
+  }
+  return null;
+};
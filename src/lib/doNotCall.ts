@@ -0,0 +1,65 @@
+import { DoNotCallEntry, Employee } from '../types/Employee';
+import { DEFAULT_COUNTRY, getClientE164, toE164 } from './phoneNumbers';
+
+// Digits-only key used to match numbers regardless of formatting: the E.164 number
+// without its +. Numbers that do not parse fall back to their digits, with +1 added
+// to ten-digit ones as the app did before numbers were normalized.
+export const toPhoneKey = (phoneNumber: string, defaultCountry: string = DEFAULT_COUNTRY): string => {
+  const e164 = toE164(phoneNumber, defaultCountry);
+  if (e164) {
+    return e164.slice(1);
+  }
+  let digits = phoneNumber.replace(/\D/g, '');
+  if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  }
+  return digits.length === 10 ? `1${digits}` : digits;
+};
+
+export type DoNotCallIndex = Map<string, DoNotCallEntry>;
+
+// Personal entries win over global ones so the card shows the user's own reason
+export const buildDoNotCallIndex = (entries: DoNotCallEntry[]): DoNotCallIndex => {
+  const index: DoNotCallIndex = new Map();
+  for (const entry of entries) {
+    const key = entry.phoneKey;
+    if (!index.has(key) || entry.scope === 'user') {
+      index.set(key, entry);
+    }
+  }
+  return index;
+};
+
+// Numbers stored without a country code are read in `defaultCountry`, as they were when listed
+export const findDoNotCallEntry = (
+  employee: Employee,
+  index: DoNotCallIndex,
+  defaultCountry: string = DEFAULT_COUNTRY
+): DoNotCallEntry | undefined => {
+  const e164 = getClientE164(employee, defaultCountry);
+  return index.get(e164 ? e164.slice(1) : toPhoneKey(employee.phoneNumber, defaultCountry));
+};
+
+const MIN_PHONE_DIGITS = 7;
+
+/**
+ * Pulls phone numbers out of a CSV export. Any cell with enough digits counts, so
+ * header rows and name/reason columns are skipped without needing a fixed layout.
+ * Numbers are de-duplicated by their phone key, reading local numbers in `defaultCountry`.
+ */
+export const parseDoNotCallCsv = (text: string, defaultCountry: string = DEFAULT_COUNTRY): string[] => {
+  const numbers = new Map<string, string>();
+  for (const line of text.split(/\r?\n/)) {
+    for (const rawCell of line.split(/[,;\t]/)) {
+      const cell = rawCell.trim().replace(/^"|"$/g, '');
+      if (/[a-z]/i.test(cell) || cell.replace(/\D/g, '').length < MIN_PHONE_DIGITS) {
+        continue;
+      }
+      const key = toPhoneKey(cell, defaultCountry);
+      if (!numbers.has(key)) {
+        numbers.set(key, cell);
+      }
+    }
+  }
+  return Array.from(numbers.values());
+};
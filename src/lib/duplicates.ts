@@ -0,0 +1,234 @@
+import { ClientMergeField, ClientMergeValues, Employee } from '../types/Employee';
+import { DEFAULT_COUNTRY, getClientE164, toE164 } from './phoneNumbers';
+
+export type DuplicateReason = 'phone' | 'whatsapp' | 'email' | 'name';
+
+export interface DuplicateGroup {
+  clients: Employee[]; // two or more, in list order
+  reasons: DuplicateReason[]; // every rule that linked two clients of the group
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Same phone number',
+  whatsapp: 'Same WhatsApp number',
+  email: 'Same email',
+  name: 'Similar name',
+};
+
+// Names at least this similar (0-1, edit distance over length) are treated as the same person
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '');
+
+// Lower case without accents or punctuation, words sorted so "Smith, John" matches "John Smith"
+export const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const nameSimilarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - editDistance(a, b) / longest;
+};
+
+/**
+ * Groups clients that look like the same person: the same phone or WhatsApp number in
+ * E.164 form (a WhatsApp number also matches another client's phone), the same email
+ * ignoring case, or names at least NAME_SIMILARITY_THRESHOLD alike. Matches chain, so a
+ * group can hold clients linked through a third one.
+ */
+export const findDuplicateGroups = (
+  clients: Employee[],
+  defaultCountry: string = DEFAULT_COUNTRY
+): DuplicateGroup[] => {
+  const parent = clients.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const links: { a: number; b: number; reason: DuplicateReason }[] = [];
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    links.push({ a, b, reason });
+    parent[find(a)] = find(b);
+  };
+
+  // Exact keys: the first client seen with a key is linked to every later one
+  const linkByKey = (reason: DuplicateReason, keys: (string | undefined)[]) => {
+    const firstWithKey = new Map<string, number>();
+    keys.forEach((key, index) => {
+      if (!key) return;
+      const first = firstWithKey.get(key);
+      if (first === undefined) {
+        firstWithKey.set(key, index);
+      } else {
+        link(first, index, reason);
+      }
+    });
+  };
+
+  const phones = clients.map(client => getClientE164(client, defaultCountry));
+  const whatsapps = clients.map(client =>
+    client.whatsappNumber ? client.whatsappE164 || toE164(client.whatsappNumber, defaultCountry) : undefined
+  );
+  linkByKey('phone', phones);
+  linkByKey('whatsapp', whatsapps);
+  linkByKey('email', clients.map(client => (isBlank(client.email) ? undefined : client.email?.trim().toLowerCase())));
+
+  // A WhatsApp number can also be another client's phone
+  const phoneOwners = new Map<string, number>();
+  phones.forEach((phone, index) => {
+    if (phone && !phoneOwners.has(phone)) phoneOwners.set(phone, index);
+  });
+  whatsapps.forEach((whatsapp, index) => {
+    const owner = whatsapp ? phoneOwners.get(whatsapp) : undefined;
+    if (owner !== undefined && phones[owner] !== phones[index]) {
+      link(owner, index, 'whatsapp');
+    }
+  });
+
+  // Names are only compared within a block of names with the same initials, so a large list is
+  // not compared pair by pair; a misspelled first letter keeps two names apart
+  const names = clients.map(client => normalizeName(client.name));
+  const blocks = new Map<string, number[]>();
+  names.forEach((name, index) => {
+    if (!name) return;
+    const initials = name.split(' ').map(word => word[0]).join('');
+    blocks.set(initials, [...(blocks.get(initials) || []), index]);
+  });
+  blocks.forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const a = block[i];
+        const b = block[j];
+        // Lengths too far apart can never reach the threshold
+        const longest = Math.max(names[a].length, names[b].length);
+        if (Math.abs(names[a].length - names[b].length) > longest * (1 - NAME_SIMILARITY_THRESHOLD)) {
+          continue;
+        }
+        if (nameSimilarity(names[a], names[b]) >= NAME_SIMILARITY_THRESHOLD) {
+          link(a, b, 'name');
+        }
+      }
+    }
+  });
+
+  const groups = new Map<number, { members: number[]; reasons: Set<DuplicateReason> }>();
+  clients.forEach((_, index) => {
+    const root = find(index);
+    const group = groups.get(root) || { members: [], reasons: new Set<DuplicateReason>() };
+    group.members.push(index);
+    groups.set(root, group);
+  });
+  links.forEach(({ a, reason }) => groups.get(find(a))?.reasons.add(reason));
+
+  const order: DuplicateReason[] = ['phone', 'whatsapp', 'email', 'name'];
+  return Array.from(groups.values())
+    .filter(group => group.members.length > 1)
+    .map(group => ({
+      clients: group.members.map(index => clients[index]),
+      reasons: order.filter(reason => group.reasons.has(reason)),
+    }))
+    // Strongest evidence first: a shared number outranks a similar name
+    .sort((a, b) => order.indexOf(a.reasons[0]) - order.indexOf(b.reasons[0]));
+};
+
+export const MERGE_FIELDS: { field: ClientMergeField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'phoneNumber', label: 'Phone' },
+  { field: 'whatsappNumber', label: 'WhatsApp' },
+  { field: 'email', label: 'Email' },
+  { field: 'position', label: 'Position' },
+  { field: 'department', label: 'Department' },
+  { field: 'workStatus', label: 'Work Status' },
+  { field: 'priority', label: 'Priority' },
+  { field: 'isUrgent', label: 'Urgent' },
+  { field: 'timeZone', label: 'Time Zone' },
+  { field: 'recordingConsent', label: 'Recording Consent' },
+];
+
+// Which client each field's value is taken from, by client id
+export type MergeChoices = Record<ClientMergeField, string>;
+
+// The kept client's own values, falling back to the first other client that has one
+export const defaultMergeChoices = (keep: Employee, others: Employee[]): MergeChoices =>
+  Object.fromEntries(MERGE_FIELDS.map(({ field }) => {
+    const source = [keep, ...others].find(client => !isBlank(client[field])) || keep;
+    return [field, source.id];
+  })) as MergeChoices;
+
+export const buildMergeValues = (
+  clients: Employee[],
+  choices: MergeChoices,
+  defaultCountry: string = DEFAULT_COUNTRY
+): ClientMergeValues => {
+  const from = (field: ClientMergeField) =>
+    clients.find(client => client.id === choices[field]) || clients[0];
+  const phoneSource = from('phoneNumber');
+  const whatsappSource = from('whatsappNumber');
+  return {
+    name: from('name').name,
+    phoneNumber: phoneSource.phoneNumber,
+    phoneE164: getClientE164(phoneSource, defaultCountry),
+    whatsappNumber: whatsappSource.whatsappNumber,
+    whatsappE164: whatsappSource.whatsappNumber
+      ? whatsappSource.whatsappE164 || toE164(whatsappSource.whatsappNumber, defaultCountry)
+      : undefined,
+    email: from('email').email,
+    position: from('position').position,
+    department: from('department').department,
+    workStatus: from('workStatus').workStatus,
+    priority: from('priority').priority,
+    isUrgent: from('isUrgent').isUrgent ?? false,
+    timeZone: from('timeZone').timeZone,
+    recordingConsent: from('recordingConsent').recordingConsent ?? false,
+  };
+};
+
+// A saved session queue after a merge, matching merge_clients: the merged clients are dialed as the
+// kept one, only its first entry stays, and the position moves back by the entries dropped before it
+export const mergeSessionQueue = (
+  queue: string[],
+  position: number,
+  keepId: string,
+  mergedIds: Set<string>
+): { queue: string[]; position: number } => {
+  const merged: string[] = [];
+  let mergedPosition = position;
+  queue.forEach((id, index) => {
+    const queuedId = mergedIds.has(id) ? keepId : id;
+    if (queuedId === keepId && merged.includes(keepId)) {
+      if (index < position) mergedPosition--;
+    } else {
+      merged.push(queuedId);
+    }
+  });
+  return { queue: merged, position: mergedPosition };
+};
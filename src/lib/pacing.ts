@@ -0,0 +1,94 @@
+import { CallLog, CampaignSettings, PacingSnapshot } from '../types/Employee';
+
+// Auto calls the rolling answer rate and talk time are measured over
+export const PACING_WINDOW = 40;
+// Below this many calls the observed rate is too noisy to dial ahead on
+export const MIN_PACING_SAMPLES = 10;
+// Never shorten the gap between dials below this share of the configured delay
+const MIN_DELAY_SHARE = 0.25;
+
+export interface PacingSample {
+  answered: boolean;
+  ringSeconds: number;
+  talkSeconds: number;
+}
+
+export const toPacingSample = (log: Pick<CallLog, 'outcome' | 'ringDurationSeconds' | 'talkDurationSeconds'>): PacingSample => ({
+  answered: log.outcome === 'answered',
+  ringSeconds: log.ringDurationSeconds,
+  talkSeconds: log.talkDurationSeconds,
+});
+
+// Newest sample last; only the latest PACING_WINDOW are kept
+export const addPacingSample = (samples: PacingSample[], sample: PacingSample): PacingSample[] =>
+  [...samples, sample].slice(-PACING_WINDOW);
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Works out how hard auto calling should dial. With predictive pacing off this is
+ * just the configured lines and delay. With it on, the loop dials about one call per
+ * expected answer: 1 / answer rate calls at once, capped by maxConcurrentCalls and
+ * rounded down so that on average no more than one call is answered at a time and
+ * nobody picks up to find the agent already busy. The delay between dials shrinks
+ * as answers get rarer.
+ */
+export const computePacing = (samples: PacingSample[], settings: CampaignSettings): PacingSnapshot => {
+  const answered = samples.filter(sample => sample.answered);
+  const answerRate = samples.length > 0 ? answered.length / samples.length : 0;
+  const observed = {
+    sampleSize: samples.length,
+    answerRate,
+    averageTalkSeconds: average(answered.map(sample => sample.talkSeconds)),
+    averageAnswerSeconds: average(answered.map(sample => sample.ringSeconds)),
+  };
+
+  if (!settings.predictivePacing) {
+    return {
+      ...observed,
+      pacingFactor: settings.maxConcurrentCalls,
+      linesInFlight: settings.maxConcurrentCalls,
+      interCallDelaySeconds: settings.interCallDelaySeconds,
+      isLearning: false,
+    };
+  }
+
+  if (samples.length < MIN_PACING_SAMPLES) {
+    return {
+      ...observed,
+      pacingFactor: 1,
+      linesInFlight: 1,
+      interCallDelaySeconds: settings.interCallDelaySeconds,
+      isLearning: true,
+    };
+  }
+
+  const ceiling = settings.maxConcurrentCalls;
+  const pacingFactor = answerRate > 0 ? Math.min(Math.max(1 / answerRate, 1), ceiling) : ceiling;
+  const linesInFlight = Math.max(1, Math.floor(pacingFactor));
+  const expectedAnswersInFlight = Math.min(answerRate * linesInFlight, 1);
+  const delayShare = Math.max(expectedAnswersInFlight, MIN_DELAY_SHARE);
+
+  return {
+    ...observed,
+    pacingFactor: Math.round(pacingFactor * 10) / 10,
+    linesInFlight,
+    interCallDelaySeconds: Math.round(settings.interCallDelaySeconds * delayShare * 10) / 10,
+    isLearning: false,
+  };
+};
+
+/**
+ * While the agent is talking to someone, new dials are held back until the call is
+ * expected to end, less the usual time to pickup, so the next answer lands as the
+ * agent frees up. Returns the milliseconds left to wait, 0 when dialing may go ahead.
+ */
+export const getTalkHoldMs = (answeredAt: Date[], pacing: PacingSnapshot, now = Date.now()): number => {
+  if (answeredAt.length === 0 || pacing.isLearning || pacing.averageTalkSeconds <= 0) {
+    return 0;
+  }
+  const leadMs = (pacing.averageTalkSeconds - pacing.averageAnswerSeconds) * 1000;
+  const releaseAt = Math.max(...answeredAt.map(date => date.getTime() + leadMs));
+  return Math.max(0, releaseAt - now);
+};
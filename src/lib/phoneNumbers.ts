@@ -0,0 +1,69 @@
+import { CountryCode, getCountries, getCountryCallingCode, isSupportedCountry, parsePhoneNumberFromString } from 'libphonenumber-js/max';
+import { Employee } from '../types/Employee';
+
+// Matches how numbers without a country code were read before it was configurable
+export const DEFAULT_COUNTRY = 'US';
+
+export interface NormalizedPhoneNumber {
+  e164: string; // +15551234567
+  display: string; // +1 555 123 4567
+  country?: string; // ISO 3166 code, unset for non-geographic numbers
+}
+
+export const isValidCountry = (country: string): boolean => isSupportedCountry(country);
+
+const toCountryCode = (country: string): CountryCode | undefined =>
+  isSupportedCountry(country) ? country : undefined;
+
+/**
+ * Parses a number as typed. Numbers starting with + or 00 carry their own country
+ * code; anything else is read as a number in defaultCountry. Returns null unless the
+ * number is valid under that country's numbering plan.
+ */
+export const normalizePhoneNumber = (
+  input: string,
+  defaultCountry: string = DEFAULT_COUNTRY
+): NormalizedPhoneNumber | null => {
+  const trimmed = input.trim().replace(/^00/, '+');
+  const parsed = parsePhoneNumberFromString(trimmed, toCountryCode(defaultCountry));
+  if (!parsed || !parsed.isValid()) {
+    return null;
+  }
+  return { e164: parsed.number, display: parsed.formatInternational(), country: parsed.country };
+};
+
+export const validatePhoneNumber = (input: string, defaultCountry: string = DEFAULT_COUNTRY): boolean =>
+  normalizePhoneNumber(input, defaultCountry) !== null;
+
+// Display form for a valid number; anything else is returned as typed
+export const formatPhoneNumber = (input: string, defaultCountry: string = DEFAULT_COUNTRY): string =>
+  normalizePhoneNumber(input, defaultCountry)?.display ?? input.trim();
+
+export const toE164 = (input: string, defaultCountry: string = DEFAULT_COUNTRY): string | undefined =>
+  normalizePhoneNumber(input, defaultCountry)?.e164;
+
+// Stored canonical numbers win; older clients without one are parsed on the fly
+export const getClientE164 = (
+  client: Pick<Employee, 'phoneNumber' | 'phoneE164'>,
+  defaultCountry: string = DEFAULT_COUNTRY
+): string | undefined => client.phoneE164 || toE164(client.phoneNumber, defaultCountry);
+
+export const getWhatsAppE164 = (
+  client: Pick<Employee, 'phoneNumber' | 'phoneE164' | 'whatsappNumber' | 'whatsappE164'>,
+  defaultCountry: string = DEFAULT_COUNTRY
+): string | undefined =>
+  client.whatsappNumber
+    ? client.whatsappE164 || toE164(client.whatsappNumber, defaultCountry)
+    : getClientE164(client, defaultCountry);
+
+// wa.me takes the full international number as digits only
+export const toWhatsAppUrl = (e164: string): string => `https://wa.me/${e164.replace(/\D/g, '')}`;
+
+export const COUNTRY_OPTIONS: { code: string; label: string }[] = (() => {
+  const names = typeof Intl.DisplayNames === 'function'
+    ? new Intl.DisplayNames(['en'], { type: 'region' })
+    : undefined;
+  return getCountries()
+    .map(code => ({ code, label: `${names?.of(code) || code} (+${getCountryCallingCode(code)})` }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+})();
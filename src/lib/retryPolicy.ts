@@ -0,0 +1,109 @@
+import { Employee, EmployeeStatus, RetryableOutcome, RetryRules } from '../types/Employee';
+import { DispositionCodeIndex, getLastDispositionCode } from './dispositions';
+
+export const RETRYABLE_OUTCOMES: RetryableOutcome[] = ['missed', 'busy', 'voicemail', 'machine', 'declined', 'callback-requested'];
+
+export const DEFAULT_RETRY_RULES: RetryRules = {
+  missed: { retry: true, delayMinutes: 120, maxAttempts: 5 },
+  busy: { retry: true, delayMinutes: 10 },
+  voicemail: { retry: true, delayMinutes: 240, maxAttempts: 3 },
+  machine: { retry: true, delayMinutes: 240, maxAttempts: 3 },
+  declined: { retry: true, delayMinutes: 1440, maxAttempts: 2 },
+  'callback-requested': { retry: true, delayMinutes: 60 },
+};
+
+const isRetryableOutcome = (status: EmployeeStatus): status is RetryableOutcome =>
+  (RETRYABLE_OUTCOMES as EmployeeStatus[]).includes(status);
+
+// When a client may be dialed again after an attempt ending in `status`; undefined when there is no wait
+export const computeNextEligibleAt = (status: EmployeeStatus, rules: RetryRules, attemptedAt: Date): Date | undefined => {
+  const rule = isRetryableOutcome(status) ? rules[status] : undefined;
+  if (!rule || !rule.retry || rule.delayMinutes <= 0) {
+    return undefined;
+  }
+  return new Date(attemptedAt.getTime() + rule.delayMinutes * 60000);
+};
+
+// Whether the rule for the client's last outcome rules out any further attempt
+export const isRetryExhausted = (employee: Employee, rules: RetryRules): boolean => {
+  if (!isRetryableOutcome(employee.status)) {
+    return false;
+  }
+  const rule = rules[employee.status];
+  return !rule.retry || (!!rule.maxAttempts && employee.callAttempts >= rule.maxAttempts);
+};
+
+export type RetryEligibility =
+  | { eligible: true }
+  | { eligible: false; eligibleAt?: Date; reason: string }; // no eligibleAt: never retried
+
+/**
+ * Combines the retry rule for the client's last call outcome with the retry settings of
+ * their latest disposition code: either one can rule the client out, and the client waits
+ * for the later of the two delays.
+ */
+export const getRetryEligibility = (
+  employee: Employee,
+  rules: RetryRules,
+  dispositionCodes: DispositionCodeIndex = new Map(),
+  now = new Date()
+): RetryEligibility => {
+  if (isRetryExhausted(employee, rules)) {
+    const rule = rules[employee.status as RetryableOutcome];
+    return {
+      eligible: false,
+      reason: rule.retry ? `Reached the limit of ${rule.maxAttempts} attempts` : 'Outcome is never retried',
+    };
+  }
+
+  const code = getLastDispositionCode(employee, dispositionCodes);
+  if (code && !code.retry) {
+    return { eligible: false, reason: `${code.label} is never retried` };
+  }
+  const dispositionEligibleAt = code?.retryDelayMinutes && employee.lastDispositionAt
+    ? new Date(employee.lastDispositionAt.getTime() + code.retryDelayMinutes * 60000)
+    : undefined;
+
+  const waits = [
+    { eligibleAt: employee.nextEligibleAt, reason: 'Waiting out the retry delay' },
+    { eligibleAt: dispositionEligibleAt, reason: `Waiting out the ${code?.label} retry delay` },
+  ].filter((wait): wait is { eligibleAt: Date; reason: string } =>
+    !!wait.eligibleAt && wait.eligibleAt.getTime() > now.getTime()
+  );
+  if (waits.length > 0) {
+    const latest = waits.reduce((a, b) => (b.eligibleAt > a.eligibleAt ? b : a));
+    return { eligible: false, ...latest };
+  }
+  return { eligible: true };
+};
+
+// Whether the client can never be retried, as opposed to waiting out a delay
+export const isNeverRetried = (
+  employee: Employee,
+  rules: RetryRules,
+  dispositionCodes: DispositionCodeIndex = new Map()
+): boolean => {
+  const eligibility = getRetryEligibility(employee, rules, dispositionCodes);
+  return !eligibility.eligible && !eligibility.eligibleAt;
+};
+
+export const formatRetryDelay = (minutes: number): string => {
+  if (minutes <= 0) return 'next round';
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+  return `${minutes} min`;
+};
+
+// Returns a user-facing error message, or null when the rules are usable
+export const validateRetryRules = (rules: RetryRules): string | null => {
+  for (const outcome of RETRYABLE_OUTCOMES) {
+    const rule = rules[outcome];
+    if (!Number.isInteger(rule.delayMinutes) || rule.delayMinutes < 0) {
+      return 'Retry delays must be whole numbers of minutes';
+    }
+    if (rule.maxAttempts !== undefined && (!Number.isInteger(rule.maxAttempts) || rule.maxAttempts < 1)) {
+      return 'Retry attempt limits must be whole numbers of at least 1';
+    }
+  }
+  return null;
+};
@@ -1,4 +1,4 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, User } from '@supabase/supabase-js';
 import { Database } from './database.types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -66,6 +66,9 @@ const createSupabaseClient = () => {
 
 export const supabase = createSupabaseClient();
 
+// Administrators carry role 'admin' in their app metadata, which only the service role can set
+export const isAppAdmin = (user: User | null): boolean => user?.app_metadata?.role === 'admin';
+
 // Auth helpers
 export const auth = {
   signUp: async (email: string, password: string) => {
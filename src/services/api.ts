@@ -1,10 +1,14 @@
 import { Employee } from '../types/Employee';
+import { TelephonyProvider } from '../types/Telephony';
+import { createDefaultTelephonyProvider, placeCall } from './telephony';
+import { getClientE164 } from '../lib/phoneNumbers';
 
 // Simulated API service for employee calling system
 export class ApiService {
   private static instance: ApiService;
   private employees: Employee[] = [];
   private userContacts: Employee[] = [];
+  private telephonyProvider: TelephonyProvider = createDefaultTelephonyProvider();
 
   static getInstance(): ApiService {
     if (!ApiService.instance) {
@@ -20,20 +24,20 @@ export class ApiService {
   }
 
   async callEmployee(employeeId: string): Promise<{ success: boolean; answered: boolean }> {
-    // Simulate call with random response time (2-8 seconds) and 70% answer rate
-    const callDuration = 2000 + Math.random() * 6000; // 2-8 seconds
-    await new Promise(resolve => setTimeout(resolve, callDuration));
-    
     const employee = this.userContacts.find(emp => emp.id === employeeId);
     if (!employee) {
       throw new Error('Employee not found');
     }
 
-    // 70% chance of answering for realistic simulation
-    const answered = Math.random() > 0.3;
+    const result = await placeCall(
+      this.telephonyProvider,
+      { clientId: employee.id, phoneNumber: getClientE164(employee) || employee.phoneNumber },
+      { ringTimeoutMs: 10000 }
+    );
+    const answered = result.outcome === 'answered';
     
     employee.callAttempts++;
-    employee.lastCallTime = new Date();
+    employee.lastCallTime = result.endedAt;
     employee.status = answered ? 'answered' : 'missed';
 
     return { success: true, answered };
@@ -51,18 +55,22 @@ export class ApiService {
       emp.status = 'pending';
       emp.callAttempts = 0;
       emp.lastCallTime = undefined;
+      emp.nextEligibleAt = undefined;
+      emp.lastDispositionCode = undefined;
+      emp.lastDispositionAt = undefined;
     });
   }
 
   async addContact(contactData: {
     name: string;
     phoneNumber: string;
+    phoneE164: string;
   }): Promise<Employee> {
     // Simulate API delay
     await new Promise(resolve => setTimeout(resolve, 500));
     
     // Check for duplicates
-    const phoneExists = this.userContacts.some(emp => emp.phoneNumber === contactData.phoneNumber);
+    const phoneExists = this.userContacts.some(emp => getClientE164(emp) === contactData.phoneE164);
     
     if (phoneExists) {
       throw new Error('Phone number already exists');
@@ -72,9 +80,7 @@ export class ApiService {
       id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       name: contactData.name,
       phoneNumber: contactData.phoneNumber,
-      email: 'Not provided',
-      position: 'Not specified',
-      department: 'Not specified',
+      phoneE164: contactData.phoneE164,
       status: 'pending',
       callAttempts: 0,
       isDefault: false,
@@ -108,7 +114,7 @@ export class ApiService {
     };
   }
 
-  async updatePriority(employeeId: string, priority: 'high' | 'follow-up' | 'not-interested'): Promise<void> {
+  async updatePriority(employeeId: string, priority: string): Promise<void> {
     // Simulate API delay
     await new Promise(resolve => setTimeout(resolve, 200));
     
@@ -0,0 +1,93 @@
+import { supabase } from '../lib/supabase';
+
+export const RECORDINGS_BUCKET = 'call-recordings';
+
+// Signed playback links stay valid long enough to listen to a whole call
+const PLAYBACK_URL_TTL_SECONDS = 60 * 60;
+
+// Where recording files live: Supabase Storage, or an in-memory stand-in for local work
+export interface RecordingStorage {
+  readonly name: string;
+  upload(path: string, audio: Blob): Promise<void>;
+  getPlaybackUrl(path: string): Promise<string>;
+  remove(paths: string[]): Promise<void>;
+}
+
+export class SupabaseRecordingStorage implements RecordingStorage {
+  readonly name = 'supabase-storage';
+
+  private bucket() {
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+    return supabase.storage.from(RECORDINGS_BUCKET);
+  }
+
+  async upload(path: string, audio: Blob): Promise<void> {
+    const { error } = await this.bucket().upload(path, audio, {
+      contentType: audio.type || 'audio/mpeg',
+      upsert: true,
+    });
+    if (error) {
+      throw new Error(`Failed to upload recording: ${error.message}`);
+    }
+  }
+
+  async getPlaybackUrl(path: string): Promise<string> {
+    const { data, error } = await this.bucket().createSignedUrl(path, PLAYBACK_URL_TTL_SECONDS);
+    if (error || !data) {
+      throw new Error(`Failed to load recording: ${error?.message || 'no link returned'}`);
+    }
+    return data.signedUrl;
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+    const { error } = await this.bucket().remove(paths);
+    if (error) {
+      throw new Error(`Failed to delete recording: ${error.message}`);
+    }
+  }
+}
+
+// Keeps files for the lifetime of the page; metadata is still saved to the database
+export class InMemoryRecordingStorage implements RecordingStorage {
+  readonly name = 'in-memory';
+  private files = new Map<string, Blob>();
+  private urls = new Map<string, string>();
+
+  async upload(path: string, audio: Blob): Promise<void> {
+    await this.remove([path]);
+    this.files.set(path, audio);
+  }
+
+  async getPlaybackUrl(path: string): Promise<string> {
+    const audio = this.files.get(path);
+    if (!audio) {
+      throw new Error('This recording is no longer available in local storage');
+    }
+    let url = this.urls.get(path);
+    if (!url) {
+      url = URL.createObjectURL(audio);
+      this.urls.set(path, url);
+    }
+    return url;
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    paths.forEach(path => {
+      const url = this.urls.get(path);
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+      this.urls.delete(path);
+      this.files.delete(path);
+    });
+  }
+}
+
+// Set VITE_RECORDING_STORAGE=memory to keep recordings in the page instead of Supabase Storage
+export const createDefaultRecordingStorage = (): RecordingStorage =>
+  import.meta.env.VITE_RECORDING_STORAGE === 'memory'
+    ? new InMemoryRecordingStorage()
+    : new SupabaseRecordingStorage();
@@ -1,6 +1,15 @@
-import { supabase, auth } from '../lib/supabase';
-import { Employee, WorkHistory, Appointment, ClientFeedback } from '../types/Employee';
-import { Database } from '../lib/database.types';
+import { supabase, auth, isAppAdmin } from '../lib/supabase';
+import { Employee, WorkHistory, Appointment, ClientFeedback, CallLog, CampaignSettings, DoNotCallEntry, Callback, CallSession, CallList, CallDisposition, DispositionCode, RetryRules, CallRecording, NewClient, ClientImportResult, ClientMergeValues, ClientProfileUpdate } from '../types/Employee';
+import { Database, Json } from '../lib/database.types';
+import { CallEventListener, CallResult, TelephonyProvider } from '../types/Telephony';
+import { createDefaultTelephonyProvider, placeCall } from './telephony';
+import { RecordingStorage, createDefaultRecordingStorage } from './recordingStorage';
+import { isCallStatus, statusFromCallOutcome } from '../lib/callOutcomes';
+import { DEFAULT_CAMPAIGN_SETTINGS, validateCampaignSettings } from '../lib/campaignSettings';
+import { toPhoneKey } from '../lib/doNotCall';
+import { validateClientProfile } from '../lib/clientProfile';
+import { DEFAULT_DISPOSITION_CODES } from '../lib/dispositions';
+import { DEFAULT_RETRY_RULES, computeNextEligibleAt } from '../lib/retryPolicy';
 
 type ClientRow = Database['public']['Tables']['clients']['Row'];
 type ClientInsert = Database['public']['Tables']['clients']['Insert'];
@@ -9,8 +18,20 @@ type ClientUpdate = Database['public']['Tables']['clients']['Update'];
 type WorkHistoryRow = Database['public']['Tables']['work_history']['Row'];
 type AppointmentRow = Database['public']['Tables']['appointments']['Row'];
 type FeedbackRow = Database['public']['Tables']['client_feedback']['Row'];
+type CallLogRow = Database['public']['Tables']['call_logs']['Row'];
+type CampaignSettingsRow = Database['public']['Tables']['campaign_settings']['Row'];
+type DoNotCallRow = Database['public']['Tables']['do_not_call_entries']['Row'];
+type DoNotCallInsert = Database['public']['Tables']['do_not_call_entries']['Insert'];
+type CallbackRow = Database['public']['Tables']['callbacks']['Row'];
+type CallSessionRow = Database['public']['Tables']['call_sessions']['Row'];
+type CallListRow = Database['public']['Tables']['call_lists']['Row'];
+type CallDispositionRow = Database['public']['Tables']['call_dispositions']['Row'];
+type DispositionCodeRow = Database['public']['Tables']['disposition_codes']['Row'];
+type CallRecordingRow = Database['public']['Tables']['call_recordings']['Row'];
 export class SupabaseService {
   private static instance: SupabaseService;
+  private readonly telephonyProvider: TelephonyProvider = createDefaultTelephonyProvider();
+  private readonly recordingStorage: RecordingStorage = createDefaultRecordingStorage();
 
   static getInstance(): SupabaseService {
     if (!SupabaseService.instance) {
@@ -25,40 +46,1413 @@ export class SupabaseService {
       id: client.id,
       name: client.name,
       phoneNumber: client.phone_number,
+      phoneE164: client.phone_e164 || undefined,
       whatsappNumber: client.whatsapp_number || undefined,
-      email: client.email,
-      position: client.position,
-      department: client.department,
-      status: client.status,
+      whatsappE164: client.whatsapp_e164 || undefined,
+      email: client.email || undefined,
+      position: client.position || undefined,
+      department: client.department || undefined,
+      status: isCallStatus(client.status) ? client.status : 'pending',
       callAttempts: client.call_attempts,
       lastCallTime: client.last_call_time ? new Date(client.last_call_time) : undefined,
       priority: client.priority || undefined,
       workStatus: client.work_status,
       isUrgent: client.is_urgent,
+      timeZone: client.time_zone || undefined,
+      lastDispositionCode: client.last_disposition_code || undefined,
+      lastDispositionAt: client.last_disposition_at ? new Date(client.last_disposition_at) : undefined,
+      nextEligibleAt: client.next_eligible_at ? new Date(client.next_eligible_at) : undefined,
+      recordingConsent: client.recording_consent,
       isDefault: false,
     };
   }
 
+  private convertToWorkHistory(work: WorkHistoryRow): WorkHistory {
+    return {
+      id: work.id,
+      clientId: work.client_id,
+      workType: work.work_type,
+      workDescription: work.work_description || undefined,
+      startDate: work.start_date ? new Date(work.start_date) : undefined,
+      completionDate: work.completion_date ? new Date(work.completion_date) : undefined,
+      status: work.status,
+      amount: work.amount || undefined,
+    };
+  }
+
+  private convertToAppointment(apt: AppointmentRow): Appointment {
+    return {
+      id: apt.id,
+      clientId: apt.client_id,
+      appointmentDate: new Date(apt.appointment_date),
+      appointmentType: apt.appointment_type,
+      status: apt.status,
+      notes: apt.notes || undefined,
+    };
+  }
+
+  private convertToFeedback(fb: FeedbackRow): ClientFeedback {
+    return {
+      id: fb.id,
+      clientId: fb.client_id,
+      rating: fb.rating,
+      feedbackText: fb.feedback_text || undefined,
+      feedbackDate: new Date(fb.feedback_date),
+    };
+  }
+
+  private convertToCallLog(log: CallLogRow): CallLog {
+    return {
+      id: log.id,
+      clientId: log.client_id,
+      startedAt: new Date(log.started_at),
+      endedAt: log.ended_at ? new Date(log.ended_at) : undefined,
+      ringDurationSeconds: Number(log.ring_duration_seconds),
+      talkDurationSeconds: Number(log.talk_duration_seconds),
+      outcome: log.outcome,
+      roundNumber: log.round_number ?? undefined,
+      callMode: log.call_mode,
+      providerCallId: log.provider_call_id || undefined,
+      voicemailDropped: log.voicemail_dropped,
+      notes: log.notes || undefined,
+    };
+  }
+
+  private convertToCampaignSettings(row: CampaignSettingsRow): CampaignSettings {
+    return {
+      ringTimeoutSeconds: row.ring_timeout_seconds,
+      interCallDelaySeconds: Number(row.inter_call_delay_seconds),
+      interRoundDelaySeconds: Number(row.inter_round_delay_seconds),
+      maxRounds: row.max_rounds ?? undefined,
+      maxAttemptsPerContact: row.max_attempts_per_contact ?? undefined,
+      stopAfterAnswered: row.stop_after_answered ?? undefined,
+      stopAfterMinutes: row.stop_after_minutes ?? undefined,
+      dialingStrategy: row.dialing_strategy,
+      skipNotInterested: row.skip_not_interested,
+      callingWindowStart: row.calling_window_start,
+      callingWindowEnd: row.calling_window_end,
+      enforceCallingWindow: row.enforce_calling_window,
+      maxConcurrentCalls: row.max_concurrent_calls,
+      predictivePacing: row.predictive_pacing,
+      wrapUpSeconds: row.wrap_up_seconds,
+      // Outcomes without a saved rule keep the default
+      retryRules: { ...DEFAULT_RETRY_RULES, ...(row.retry_rules as Partial<RetryRules>) },
+      recordingRetentionDays: row.recording_retention_days ?? undefined,
+      voicemailDropPath: row.voicemail_drop_path ?? undefined,
+      defaultCountry: row.default_country,
+    };
+  }
+
+  private convertToDoNotCallEntry(row: DoNotCallRow): DoNotCallEntry {
+    return {
+      id: row.id,
+      phoneNumber: row.phone_number,
+      phoneKey: row.phone_key,
+      scope: row.scope,
+      reason: row.reason || undefined,
+      source: row.source,
+      addedBy: row.added_by,
+      addedByEmail: row.added_by_email || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private convertToCallback(row: CallbackRow): Callback {
+    return {
+      id: row.id,
+      clientId: row.client_id,
+      callLogId: row.call_log_id || undefined,
+      dueAt: new Date(row.due_at),
+      reason: row.reason || undefined,
+      assignedTo: row.assigned_to || undefined,
+      status: row.status,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private convertToCallSession(row: CallSessionRow): CallSession {
+    return {
+      id: row.id,
+      status: row.status,
+      currentRound: row.current_round,
+      queue: Array.isArray(row.queue) ? row.queue.filter((id): id is string => typeof id === 'string') : [],
+      position: row.position,
+      answeredCount: row.answered_count,
+      // Settings saved by older versions may lack newer fields
+      settings: { ...DEFAULT_CAMPAIGN_SETTINGS, ...(row.settings as Partial<CampaignSettings>) },
+      callListId: row.call_list_id || undefined,
+      startedAt: new Date(row.started_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private convertToCallDisposition(row: CallDispositionRow): CallDisposition {
+    return {
+      id: row.id,
+      callLogId: row.call_log_id,
+      clientId: row.client_id,
+      outcomeCode: row.outcome_code || undefined,
+      summary: row.summary || undefined,
+      nextAction: row.next_action,
+      callbackId: row.callback_id || undefined,
+      appointmentId: row.appointment_id || undefined,
+      autoDismissed: row.auto_dismissed,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private convertToDispositionCode(row: DispositionCodeRow): DispositionCode {
+    return {
+      id: row.id,
+      code: row.code,
+      label: row.label,
+      color: row.color,
+      countsAsReached: row.counts_as_reached,
+      retry: row.retry,
+      retryDelayMinutes: row.retry_delay_minutes ?? undefined,
+      sortOrder: row.sort_order,
+      category: row.category,
+      scope: row.scope,
+      createdBy: row.created_by,
+    };
+  }
+
+  private convertToCallRecording(row: CallRecordingRow): CallRecording {
+    return {
+      id: row.id,
+      callLogId: row.call_log_id,
+      clientId: row.client_id,
+      storagePath: row.storage_path,
+      mimeType: row.mime_type,
+      sizeBytes: Number(row.size_bytes),
+      durationSeconds: row.duration_seconds !== null ? Number(row.duration_seconds) : undefined,
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private convertToCallList(row: CallListRow, clientIds: string[]): CallList {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      clientIds,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
   // Convert Employee to database insert format
   private convertToClientInsert(employee: Omit<Employee, 'id'>, userId: string): ClientInsert {
     return {
       name: employee.name,
       phone_number: employee.phoneNumber,
+      phone_e164: employee.phoneE164 || null,
       whatsapp_number: employee.whatsappNumber || null,
-      email: employee.email,
-      position: employee.position,
-      department: employee.department,
+      whatsapp_e164: employee.whatsappE164 || null,
+      email: employee.email || null,
+      position: employee.position || null,
+      department: employee.department || null,
       status: employee.status,
       call_attempts: employee.callAttempts,
       last_call_time: employee.lastCallTime?.toISOString() || null,
       priority: employee.priority || null,
       work_status: employee.workStatus || 'new',
       is_urgent: employee.isUrgent || false,
+      time_zone: employee.timeZone || null,
       user_id: userId,
     };
   }
 
-  async getClients(): Promise<Employee[]> {
+  async getClients(): Promise<Employee[]> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const { data, error } = await supabase
+      .from('clients')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch clients: ${error.message}`);
+    }
+
+    return data.map(client => this.convertToEmployee(client));
+  }
+
+  async addClient(clientData: {
+    name: string;
+    phoneNumber: string;
+    phoneE164: string;
+    whatsappNumber?: string;
+    whatsappE164?: string;
+    email?: string;
+    position?: string;
+    department?: string;
+    workStatus?: string;
+    isUrgent?: boolean;
+    timeZone?: string;
+    recordingConsent?: boolean;
+  }): Promise<Employee> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    // Check for duplicate phone number, however it was written
+    const { data: existing } = await supabase
+      .from('clients')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('phone_e164', clientData.phoneE164)
+      .limit(1);
+
+    if (existing && existing.length > 0) {
+      throw new Error('Phone number already exists');
+    }
+
+    const newClient: ClientInsert = {
+      name: clientData.name,
+      phone_number: clientData.phoneNumber,
+      phone_e164: clientData.phoneE164,
+      whatsapp_number: clientData.whatsappNumber || null,
+      whatsapp_e164: clientData.whatsappE164 || null,
+      email: clientData.email?.trim() || null,
+      position: clientData.position?.trim() || null,
+      department: clientData.department?.trim() || null,
+      status: 'pending',
+      call_attempts: 0,
+      work_status: clientData.workStatus || 'new',
+      is_urgent: clientData.isUrgent || false,
+      time_zone: clientData.timeZone || null,
+      recording_consent: clientData.recordingConsent || false,
+      user_id: user.id,
+    };
+
+    const { data, error } = await supabase
+      .from('clients')
+      .insert(newClient)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to add client: ${error.message}`);
+    }
+
+    return this.convertToEmployee(data);
+  }
+
+  /**
+   * Inserts imported contacts in batches. Numbers that already belong to a client, or
+   * repeat an earlier contact, are skipped. A batch the database rejects is retried one
+   * row at a time so a single bad contact does not sink the rest.
+   */
+  async addClientsBulk(
+    contacts: NewClient[],
+    options: { batchSize?: number; onProgress?: (processed: number, total: number) => void } = {}
+  ): Promise<ClientImportResult> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    // A large client list runs past one page, and every number counts as a duplicate
+    const existing = await this.fetchAllPages('existing clients', (db, from, to) => db
+      .from('clients')
+      .select('id, phone_number, phone_e164')
+      .eq('user_id', user.id)
+      .order('id')
+      .range(from, to));
+
+    const seen = new Set(existing.map(client => client.phone_e164 || client.phone_number));
+    const pending: NewClient[] = [];
+    for (const contact of contacts) {
+      if (seen.has(contact.phoneE164)) {
+        continue;
+      }
+      seen.add(contact.phoneE164);
+      pending.push(contact);
+    }
+
+    const toInsert = (contact: NewClient): ClientInsert => ({
+      name: contact.name,
+      phone_number: contact.phoneNumber,
+      phone_e164: contact.phoneE164,
+      whatsapp_number: contact.whatsappNumber || null,
+      whatsapp_e164: contact.whatsappE164 || null,
+      email: contact.email || null,
+      position: contact.position || null,
+      department: contact.department || null,
+      status: 'pending',
+      call_attempts: 0,
+      work_status: contact.workStatus || 'new',
+      is_urgent: contact.isUrgent || false,
+      user_id: user.id,
+    });
+
+    const result: ClientImportResult = { added: [], skipped: contacts.length - pending.length, failed: [] };
+    const batchSize = Math.max(1, options.batchSize || 100);
+    for (let start = 0; start < pending.length; start += batchSize) {
+      const batch = pending.slice(start, start + batchSize);
+      const { data, error } = await supabase
+        .from('clients')
+        .insert(batch.map(toInsert))
+        .select();
+
+      if (!error) {
+        result.added.push(...data.map(client => this.convertToEmployee(client)));
+      } else {
+        for (const contact of batch) {
+          const { data: row, error: rowError } = await supabase
+            .from('clients')
+            .insert(toInsert(contact))
+            .select()
+            .single();
+          if (rowError) {
+            result.failed.push({ contact, error: rowError.message });
+          } else {
+            result.added.push(this.convertToEmployee(row));
+          }
+        }
+      }
+      options.onProgress?.(Math.min(start + batch.length, pending.length), pending.length);
+    }
+
+    return result;
+  }
+
+  // Pass retry rules when the status is a call outcome, so the client's next eligible time follows it
+  async updateClientStatus(clientId: string, status: Employee['status'], retryRules?: RetryRules): Promise<Date | undefined> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const nextEligibleAt = retryRules ? computeNextEligibleAt(status, retryRules, new Date()) : undefined;
+    const { error } = await supabase
+      .from('clients')
+      .update(retryRules ? { status, next_eligible_at: nextEligibleAt?.toISOString() ?? null } : { status })
+      .eq('id', clientId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to update client status: ${error.message}`);
+    }
+
+    return nextEligibleAt;
+  }
+
+  async updateClientCallInfo(
+    clientId: string,
+    callAttempts: number,
+    lastCallTime: Date,
+    status: Employee['status'],
+    nextEligibleAt?: Date
+  ): Promise<void> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error } = await supabase
+      .from('clients')
+      .update({
+        call_attempts: callAttempts,
+        last_call_time: lastCallTime.toISOString(),
+        status,
+        next_eligible_at: nextEligibleAt?.toISOString() ?? null,
+      })
+      .eq('id', clientId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to update client call info: ${error.message}`);
+    }
+  }
+
+  /**
+   * Updates the profile fields present in updates. Fields are validated as a whole
+   * before anything is written, and a changed phone number must not belong to another
+   * client. Emptied optional fields are cleared.
+   */
+  async updateClient(clientId: string, updates: ClientProfileUpdate): Promise<Employee> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const [invalid] = Object.values(validateClientProfile(updates));
+    if (invalid) {
+      throw new Error(invalid);
+    }
+
+    if (updates.phoneE164) {
+      const { data: existing } = await supabase
+        .from('clients')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('phone_e164', updates.phoneE164)
+        .neq('id', clientId)
+        .limit(1);
+
+      if (existing && existing.length > 0) {
+        throw new Error('Phone number already exists');
+      }
+    }
+
+    const update: ClientUpdate = { updated_at: new Date().toISOString() };
+    if ('name' in updates) update.name = updates.name?.trim();
+    if ('phoneNumber' in updates) update.phone_number = updates.phoneNumber?.trim();
+    if ('phoneE164' in updates) update.phone_e164 = updates.phoneE164 || null;
+    if ('whatsappNumber' in updates) update.whatsapp_number = updates.whatsappNumber?.trim() || null;
+    if ('whatsappE164' in updates) update.whatsapp_e164 = updates.whatsappE164 || null;
+    if ('email' in updates) update.email = updates.email?.trim() || null;
+    if ('position' in updates) update.position = updates.position?.trim() || null;
+    if ('department' in updates) update.department = updates.department?.trim() || null;
+    if ('workStatus' in updates) update.work_status = updates.workStatus || 'new';
+    if ('isUrgent' in updates) update.is_urgent = updates.isUrgent || false;
+    if ('timeZone' in updates) update.time_zone = updates.timeZone?.trim() || null;
+    if ('recordingConsent' in updates) update.recording_consent = updates.recordingConsent || false;
+
+    const { data, error } = await supabase
+      .from('clients')
+      .update(update)
+      .eq('id', clientId)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      // Another client took the number between the check and the update
+      if (error.code === '23505') {
+        throw new Error('Phone number already exists');
+      }
+      throw new Error(`Failed to update client: ${error.message}`);
+    }
+
+    return this.convertToEmployee(data);
+  }
+
+  async updateClientRecordingConsent(clientId: string, consent: boolean): Promise<void> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const { error } = await supabase
+      .from('clients')
+      .update({ recording_consent: consent })
+      .eq('id', clientId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to update recording consent: ${error.message}`);
+    }
+  }
+
+  async updateClientPriority(clientId: string, priority: string): Promise<void> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error } = await supabase
+      .from('clients')
+      .update({ priority })
+      .eq('id', clientId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to update client priority: ${error.message}`);
+    }
+  }
+
+  async deleteClient(clientId: string): Promise<void> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    // Its recording rows go with the client, so the files are removed first
+    const { data: recordings, error: recordingsError } = await supabase
+      .from('call_recordings')
+      .select('storage_path')
+      .eq('client_id', clientId)
+      .eq('user_id', user.id);
+
+    if (recordingsError) {
+      throw new Error(`Failed to fetch client recordings: ${recordingsError.message}`);
+    }
+    await this.recordingStorage.remove(recordings.map(recording => recording.storage_path));
+
+    const { error } = await supabase
+      .from('clients')
+      .delete()
+      .eq('id', clientId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to delete client: ${error.message}`);
+    }
+  }
+
+  /**
+   * Folds mergeId into keepId in one transaction: its history, callbacks, recordings
+   * and list memberships move to the kept client, which then takes the given profile
+   * values, and the merged client is deleted. Keys left out of values are not changed.
+   */
+  async mergeClients(keepId: string, mergeId: string, values: ClientMergeValues = {}): Promise<Employee> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const columns: Record<keyof ClientMergeValues, keyof ClientUpdate> = {
+      name: 'name',
+      phoneNumber: 'phone_number',
+      phoneE164: 'phone_e164',
+      whatsappNumber: 'whatsapp_number',
+      whatsappE164: 'whatsapp_e164',
+      email: 'email',
+      position: 'position',
+      department: 'department',
+      workStatus: 'work_status',
+      isUrgent: 'is_urgent',
+      priority: 'priority',
+      timeZone: 'time_zone',
+      recordingConsent: 'recording_consent',
+    };
+    // A key present with no value clears the field, so undefined is sent as null
+    const keptValues = Object.fromEntries(
+      (Object.keys(values) as (keyof ClientMergeValues)[]).map(key => [columns[key], values[key] ?? null])
+    );
+
+    const { data, error } = await supabase.rpc('merge_clients', {
+      keep_client_id: keepId,
+      merge_client_id: mergeId,
+      kept_values: keptValues as Json,
+    });
+
+    if (error) {
+      throw new Error(`Failed to merge clients: ${error.message}`);
+    }
+
+    return this.convertToEmployee(data);
+  }
+
+  async resetAllStatuses(): Promise<void> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { error } = await supabase
+      .from('clients')
+      .update({
+        status: 'pending',
+        call_attempts: 0,
+        last_call_time: null,
+        next_eligible_at: null,
+        // A disposition that is never retried would otherwise keep the client out after the reset
+        last_disposition_code: null,
+        last_disposition_at: null,
+      })
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to reset client statuses: ${error.message}`);
+    }
+  }
+
+  async callClient(
+    clientId: string,
+    options: { ringTimeoutMs: number; retryRules: RetryRules; voicemailDropPath?: string; onEvent?: CallEventListener; signal?: AbortSignal }
+  ): Promise<CallResult> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    // Get current client data
+    const { data: client, error: fetchError } = await supabase
+      .from('clients')
+      .select('phone_number, phone_e164, call_attempts, recording_consent')
+      .eq('id', clientId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch client: ${fetchError.message}`);
+    }
+
+    // Without a playable link the call still goes out, just without leaving a message
+    let voicemailDropUrl: string | undefined;
+    if (options.voicemailDropPath) {
+      try {
+        voicemailDropUrl = await this.recordingStorage.getPlaybackUrl(options.voicemailDropPath);
+      } catch (error) {
+        console.error('Failed to load voicemail message:', error);
+      }
+    }
+
+    const result = await placeCall(
+      this.telephonyProvider,
+      { clientId, phoneNumber: client.phone_e164 || client.phone_number, record: client.recording_consent, voicemailDropUrl },
+      options
+    );
+
+    // Update call info
+    const status = statusFromCallOutcome(result.outcome);
+    await this.updateClientCallInfo(
+      clientId,
+      client.call_attempts + 1,
+      result.endedAt,
+      status,
+      computeNextEligibleAt(status, options.retryRules, result.endedAt)
+    );
+
+    return result;
+  }
+
+  // Campaign Settings Methods
+  async getCampaignSettings(): Promise<CampaignSettings> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      return { ...DEFAULT_CAMPAIGN_SETTINGS };
+    }
+
+    const { data, error } = await supabase
+      .from('campaign_settings')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === 'PGRST205') {
+        console.warn('Campaign settings table not found, using defaults');
+        return { ...DEFAULT_CAMPAIGN_SETTINGS };
+      }
+      throw new Error(`Failed to fetch campaign settings: ${error.message}`);
+    }
+
+    return data ? this.convertToCampaignSettings(data) : { ...DEFAULT_CAMPAIGN_SETTINGS };
+  }
+
+  async saveCampaignSettings(settings: CampaignSettings): Promise<CampaignSettings> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const validationError = validateCampaignSettings(settings);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const { data, error } = await supabase
+      .from('campaign_settings')
+      .upsert({
+        user_id: user.id,
+        ring_timeout_seconds: settings.ringTimeoutSeconds,
+        inter_call_delay_seconds: settings.interCallDelaySeconds,
+        inter_round_delay_seconds: settings.interRoundDelaySeconds,
+        max_rounds: settings.maxRounds ?? null,
+        max_attempts_per_contact: settings.maxAttemptsPerContact ?? null,
+        stop_after_answered: settings.stopAfterAnswered ?? null,
+        stop_after_minutes: settings.stopAfterMinutes ?? null,
+        dialing_strategy: settings.dialingStrategy,
+        skip_not_interested: settings.skipNotInterested,
+        calling_window_start: settings.callingWindowStart,
+        calling_window_end: settings.callingWindowEnd,
+        enforce_calling_window: settings.enforceCallingWindow,
+        max_concurrent_calls: settings.maxConcurrentCalls,
+        predictive_pacing: settings.predictivePacing,
+        wrap_up_seconds: settings.wrapUpSeconds,
+        retry_rules: settings.retryRules as unknown as Json,
+        recording_retention_days: settings.recordingRetentionDays ?? null,
+        voicemail_drop_path: settings.voicemailDropPath ?? null,
+        default_country: settings.defaultCountry,
+      }, { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save campaign settings: ${error.message}`);
+    }
+
+    return this.convertToCampaignSettings(data);
+  }
+
+  // Call Log Methods
+  async getCallLogs(clientId: string): Promise<CallLog[]> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const { data, error } = await supabase
+      .from('call_logs')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('user_id', user.id)
+      .order('started_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch call logs: ${error.message}`);
+    }
+
+    return data.map(log => this.convertToCallLog(log));
+  }
+
+  // Latest auto-dialed attempts, newest first; scoped to the given clients when a list is being called
+  async getRecentAutoCallLogs(limit: number, clientIds?: string[]): Promise<CallLog[]> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    let query = supabase
+      .from('call_logs')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('call_mode', 'auto');
+    if (clientIds) {
+      query = query.in('client_id', clientIds);
+    }
+    const { data, error } = await query
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch recent call logs: ${error.message}`);
+    }
+
+    return data.map(log => this.convertToCallLog(log));
+  }
+
+  async addCallLog(clientId: string, logData: Omit<CallLog, 'id' | 'clientId'>): Promise<CallLog> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const { data, error } = await supabase
+      .from('call_logs')
+      .insert({
+        client_id: clientId,
+        user_id: user.id,
+        started_at: logData.startedAt.toISOString(),
+        ended_at: logData.endedAt?.toISOString() || null,
+        ring_duration_seconds: logData.ringDurationSeconds,
+        talk_duration_seconds: logData.talkDurationSeconds,
+        outcome: logData.outcome,
+        round_number: logData.roundNumber ?? null,
+        call_mode: logData.callMode,
+        provider_call_id: logData.providerCallId || null,
+        voicemail_dropped: logData.voicemailDropped ?? false,
+        notes: logData.notes || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to add call log: ${error.message}`);
+    }
+
+    return this.convertToCallLog(data);
+  }
+
+  // Call Disposition Methods
+  async getCallDispositions(clientId: string): Promise<CallDisposition[]> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const { data, error } = await supabase
+      .from('call_dispositions')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch call dispositions: ${error.message}`);
+    }
+
+    return data.map(disposition => this.convertToCallDisposition(disposition));
+  }
+
+  async addCallDisposition(
+    clientId: string,
+    dispositionData: Omit<CallDisposition, 'id' | 'clientId' | 'createdAt'>
+  ): Promise<CallDisposition> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const { data, error } = await supabase
+      .from('call_dispositions')
+      .insert({
+        call_log_id: dispositionData.callLogId,
+        client_id: clientId,
+        user_id: user.id,
+        outcome_code: dispositionData.outcomeCode || null,
+        summary: dispositionData.summary || null,
+        next_action: dispositionData.nextAction,
+        callback_id: dispositionData.callbackId || null,
+        appointment_id: dispositionData.appointmentId || null,
+        auto_dismissed: dispositionData.autoDismissed,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save call disposition: ${error.message}`);
+    }
+
+    // The client's latest outcome drives filters and the retry policy
+    if (dispositionData.outcomeCode) {
+      const { error: clientError } = await supabase
+        .from('clients')
+        .update({
+          last_disposition_code: dispositionData.outcomeCode,
+          last_disposition_at: data.created_at,
+        })
+        .eq('id', clientId)
+        .eq('user_id', user.id);
+
+      if (clientError) {
+        throw new Error(`Failed to update client disposition: ${clientError.message}`);
+      }
+    }
+
+    return this.convertToCallDisposition(data);
+  }
+
+  // Disposition Code Methods
+  async getDispositionCodes(): Promise<DispositionCode[]> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    // RLS returns the user's personal codes plus the shared catalogue
+    const { data, error } = await supabase
+      .from('disposition_codes')
+      .select('*')
+      .order('sort_order', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch disposition codes: ${error.message}`);
+    }
+
+    const codes = data.map(code => this.convertToDispositionCode(code));
+    const missingDefaults = DEFAULT_DISPOSITION_CODES.filter(
+      defaultCode => !codes.some(code => code.category === defaultCode.category)
+    );
+    if (missingDefaults.length === 0) {
+      return codes;
+    }
+
+    // First use of a category: give the user a personal copy of its defaults to edit
+    const { data: seeded, error: seedError } = await supabase
+      .from('disposition_codes')
+      .insert(missingDefaults.map(code => ({
+        code: code.code,
+        label: code.label,
+        color: code.color,
+        counts_as_reached: code.countsAsReached,
+        retry: code.retry,
+        retry_delay_minutes: code.retryDelayMinutes ?? null,
+        sort_order: code.sortOrder,
+        category: code.category,
+        scope: 'user' as const,
+        user_id: user.id,
+        created_by: user.id,
+      })))
+      .select();
+
+    if (seedError) {
+      throw new Error(`Failed to create default disposition codes: ${seedError.message}`);
+    }
+
+    return [...codes, ...seeded.map(code => this.convertToDispositionCode(code))]
+      .sort((a, b) => a.sortOrder - b.sortOrder);
+  }
+
+  async addDispositionCode(codeData: Omit<DispositionCode, 'id' | 'createdBy'>): Promise<DispositionCode> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    if (codeData.scope === 'global' && !isAppAdmin(user)) {
+      throw new Error('Only administrators can add team disposition codes');
+    }
+
+    const { data, error } = await supabase
+      .from('disposition_codes')
+      .insert({
+        code: codeData.code,
+        label: codeData.label.trim(),
+        color: codeData.color,
+        counts_as_reached: codeData.countsAsReached,
+        retry: codeData.retry,
+        retry_delay_minutes: codeData.retryDelayMinutes ?? null,
+        sort_order: codeData.sortOrder,
+        category: codeData.category,
+        scope: codeData.scope,
+        user_id: codeData.scope === 'user' ? user.id : null,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`The code "${codeData.code}" already exists in this catalogue`);
+      }
+      throw new Error(`Failed to add disposition code: ${error.message}`);
+    }
+
+    return this.convertToDispositionCode(data);
+  }
+
+  // The code and scope are fixed once created; past dispositions refer to the code
+  async updateDispositionCode(
+    codeId: string,
+    updates: Partial<Pick<DispositionCode, 'label' | 'color' | 'countsAsReached' | 'retry' | 'retryDelayMinutes' | 'sortOrder'>>
+  ): Promise<DispositionCode> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    // RLS lets administrators edit team codes and users edit personal codes they created
+    let query = supabase
+      .from('disposition_codes')
+      .update({
+        label: updates.label?.trim(),
+        color: updates.color,
+        counts_as_reached: updates.countsAsReached,
+        retry: updates.retry,
+        retry_delay_minutes: 'retryDelayMinutes' in updates ? updates.retryDelayMinutes ?? null : undefined,
+        sort_order: updates.sortOrder,
+      })
+      .eq('id', codeId);
+    if (!isAppAdmin(user)) {
+      query = query.eq('scope', 'user').eq('created_by', user.id);
+    }
+    const { data, error } = await query.select();
+
+    if (error) {
+      throw new Error(`Failed to update disposition code: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new Error('Only administrators can edit team codes, and only the user who created a personal code can edit it');
+    }
+
+    return this.convertToDispositionCode(data[0]);
+  }
+
+  async deleteDispositionCode(codeId: string): Promise<void> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    let query = supabase
+      .from('disposition_codes')
+      .delete()
+      .eq('id', codeId);
+    if (!isAppAdmin(user)) {
+      query = query.eq('scope', 'user').eq('created_by', user.id);
+    }
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete disposition code: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new Error('Only administrators can remove team codes, and only the user who created a personal code can remove it');
+    }
+  }
+
+  // Call Recording Methods
+  async getCallRecordings(clientId: string): Promise<CallRecording[]> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    // Expired recordings are hidden until the next purge removes them
+    const { data, error } = await supabase
+      .from('call_recordings')
+      .select('*')
+      .eq('client_id', clientId)
+      .eq('user_id', user.id)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch call recordings: ${error.message}`);
+    }
+
+    return data.map(recording => this.convertToCallRecording(recording));
+  }
+
+  // Stores the audio of one call attempt; refused unless the client consented to recording
+  async addCallRecording(
+    clientId: string,
+    callLogId: string,
+    audio: Blob,
+    options: { durationSeconds?: number; retentionDays?: number } = {}
+  ): Promise<CallRecording> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const { data: client, error: clientError } = await supabase
+      .from('clients')
+      .select('recording_consent')
+      .eq('id', clientId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (clientError) {
+      throw new Error(`Failed to fetch client: ${clientError.message}`);
+    }
+    if (!client.recording_consent) {
+      throw new Error('This client has not consented to call recording');
+    }
+
+    const mimeType = audio.type || 'audio/mpeg';
+    const extension = mimeType.split('/')[1]?.split(';')[0] || 'audio';
+    const storagePath = `${user.id}/${clientId}/${callLogId}.${extension}`;
+    await this.recordingStorage.upload(storagePath, audio);
+
+    const { data, error } = await supabase
+      .from('call_recordings')
+      .insert({
+        call_log_id: callLogId,
+        client_id: clientId,
+        user_id: user.id,
+        storage_path: storagePath,
+        mime_type: mimeType,
+        size_bytes: audio.size,
+        duration_seconds: options.durationSeconds ?? null,
+        expires_at: options.retentionDays
+          ? new Date(Date.now() + options.retentionDays * 86400000).toISOString()
+          : null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Don't leave an orphaned file behind
+      await this.recordingStorage.remove([storagePath]).catch(() => undefined);
+      if (error.code === '23505') {
+        throw new Error('This call already has a recording');
+      }
+      throw new Error(`Failed to save call recording: ${error.message}`);
+    }
+
+    return this.convertToCallRecording(data);
+  }
+
+  // Collects the recording from the telephony provider, if it made one
+  async saveProviderRecording(clientId: string, callLog: CallLog, retentionDays?: number): Promise<CallRecording | null> {
+    const provider = this.telephonyProvider;
+    if (!provider.fetchRecording || !callLog.providerCallId) {
+      return null;
+    }
+
+    const audio = await provider.fetchRecording(callLog.providerCallId);
+    if (!audio) {
+      return null;
+    }
+
+    return this.addCallRecording(clientId, callLog.id, audio, {
+      durationSeconds: callLog.talkDurationSeconds,
+      retentionDays,
+    });
+  }
+
+  async getRecordingPlaybackUrl(recording: CallRecording): Promise<string> {
+    return this.recordingStorage.getPlaybackUrl(recording.storagePath);
+  }
+
+  async deleteCallRecording(recording: CallRecording): Promise<void> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    await this.recordingStorage.remove([recording.storagePath]);
+
+    const { error } = await supabase
+      .from('call_recordings')
+      .delete()
+      .eq('id', recording.id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to delete call recording: ${error.message}`);
+    }
+  }
+
+  // Voicemail drop messages live next to the recordings, in the user's own folder
+  async uploadVoicemailDrop(audio: File): Promise<string> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+    if (!audio.type.startsWith('audio/')) {
+      throw new Error(`${audio.name} is not an audio file`);
+    }
+
+    const storagePath = `${user.id}/voicemail-drops/${Date.now()}-${audio.name.replace(/[^\w.-]/g, '_')}`;
+    await this.recordingStorage.upload(storagePath, audio);
+    return storagePath;
+  }
+
+  async removeVoicemailDrop(storagePath: string): Promise<void> {
+    await this.recordingStorage.remove([storagePath]);
+  }
+
+  async getVoicemailDropUrl(storagePath: string): Promise<string> {
+    return this.recordingStorage.getPlaybackUrl(storagePath);
+  }
+
+  // Removes recordings past their retention date, files first; returns how many were removed
+  async purgeExpiredRecordings(): Promise<number> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const { data, error } = await supabase
+      .from('call_recordings')
+      .select('id, storage_path')
+      .eq('user_id', user.id)
+      .lte('expires_at', new Date().toISOString());
+
+    if (error) {
+      throw new Error(`Failed to fetch expired recordings: ${error.message}`);
+    }
+    if (data.length === 0) {
+      return 0;
+    }
+
+    await this.recordingStorage.remove(data.map(recording => recording.storage_path));
+
+    const { error: deleteError } = await supabase
+      .from('call_recordings')
+      .delete()
+      .in('id', data.map(recording => recording.id))
+      .eq('user_id', user.id);
+
+    if (deleteError) {
+      throw new Error(`Failed to delete expired recordings: ${deleteError.message}`);
+    }
+
+    return data.length;
+  }
+
+  // Call Session Methods
+  async getActiveCallSession(): Promise<CallSession | null> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const { data, error } = await supabase
+      .from('call_sessions')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch call session: ${error.message}`);
+    }
+
+    return data ? this.convertToCallSession(data) : null;
+  }
+
+  async startCallSession(
+    sessionData: Pick<CallSession, 'queue' | 'settings' | 'startedAt' | 'callListId'>
+  ): Promise<CallSession> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    // Only one session can be active; an older one left behind is abandoned
+    const { error: closeError } = await supabase
+      .from('call_sessions')
+      .update({ status: 'stopped', ended_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .eq('status', 'active');
+
+    if (closeError) {
+      throw new Error(`Failed to close previous call session: ${closeError.message}`);
+    }
+
+    const { data, error } = await supabase
+      .from('call_sessions')
+      .insert({
+        user_id: user.id,
+        status: 'active',
+        current_round: 1,
+        queue: sessionData.queue,
+        position: 0,
+        answered_count: 0,
+        settings: sessionData.settings as unknown as Json,
+        call_list_id: sessionData.callListId || null,
+        started_at: sessionData.startedAt.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to start call session: ${error.message}`);
+    }
+
+    return this.convertToCallSession(data);
+  }
+
+  async updateCallSession(
+    sessionId: string,
+    progress: Pick<CallSession, 'currentRound' | 'queue' | 'position' | 'answeredCount'>
+  ): Promise<void> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const { error } = await supabase
+      .from('call_sessions')
+      .update({
+        current_round: progress.currentRound,
+        queue: progress.queue,
+        position: progress.position,
+        answered_count: progress.answeredCount,
+      })
+      .eq('id', sessionId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to save call session: ${error.message}`);
+    }
+  }
+
+  async endCallSession(sessionId: string, status: Exclude<CallSession['status'], 'active'>): Promise<void> {
     const user = await auth.getCurrentUser();
     if (!user) {
       throw new Error('User not authenticated');
@@ -68,26 +1462,19 @@ export class SupabaseService {
       throw new Error('Please connect to Supabase first');
     }
 
-    const { data, error } = await supabase
-      .from('clients')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: true });
+    const { error } = await supabase
+      .from('call_sessions')
+      .update({ status, ended_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .eq('user_id', user.id);
 
     if (error) {
-      throw new Error(`Failed to fetch clients: ${error.message}`);
+      throw new Error(`Failed to end call session: ${error.message}`);
     }
-
-    return data.map(client => this.convertToEmployee(client));
   }
 
-  async addClient(clientData: {
-    name: string;
-    phoneNumber: string;
-    whatsappNumber?: string;
-    workStatus?: 'new' | 'in_progress' | 'completed' | 'repeat_client';
-    isUrgent?: boolean;
-  }): Promise<Employee> {
+  // Call List Methods
+  async getCallLists(): Promise<CallList[]> {
     const user = await auth.getCurrentUser();
     if (!user) {
       throw new Error('User not authenticated');
@@ -97,171 +1484,347 @@ export class SupabaseService {
       throw new Error('Please connect to Supabase first');
     }
 
-    // Check for duplicate phone number
-    const { data: existing } = await supabase
-      .from('clients')
-      .select('id')
+    const { data: lists, error } = await supabase
+      .from('call_lists')
+      .select('*')
       .eq('user_id', user.id)
-      .eq('phone_number', clientData.phoneNumber)
-      .limit(1);
+      .order('created_at', { ascending: true });
 
-    if (existing && existing.length > 0) {
-      throw new Error('Phone number already exists');
+    if (error) {
+      throw new Error(`Failed to fetch call lists: ${error.message}`);
     }
 
-    const newClient: ClientInsert = {
-      name: clientData.name,
-      phone_number: clientData.phoneNumber,
-      whatsapp_number: clientData.whatsappNumber || null,
-      email: 'Not provided',
-      position: 'Not specified',
-      department: 'Not specified',
-      status: 'pending',
-      call_attempts: 0,
-      work_status: clientData.workStatus || 'new',
-      is_urgent: clientData.isUrgent || false,
-      user_id: user.id,
-    };
+    // Memberships of all lists together easily pass one page; list and client break ties in added_at
+    const members = await this.fetchAllPages('call list members', (db, from, to) => db
+      .from('call_list_members')
+      .select('list_id, client_id')
+      .eq('user_id', user.id)
+      .order('added_at', { ascending: true })
+      .order('list_id')
+      .order('client_id')
+      .range(from, to));
+
+    const membersByList = new Map<string, string[]>();
+    members.forEach(member => {
+      const clientIds = membersByList.get(member.list_id) || [];
+      clientIds.push(member.client_id);
+      membersByList.set(member.list_id, clientIds);
+    });
+
+    return lists.map(list => this.convertToCallList(list, membersByList.get(list.id) || []));
+  }
+
+  async createCallList(name: string, description?: string): Promise<CallList> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
 
     const { data, error } = await supabase
-      .from('clients')
-      .insert(newClient)
+      .from('call_lists')
+      .insert({
+        user_id: user.id,
+        name: name.trim(),
+        description: description?.trim() || null,
+      })
       .select()
       .single();
 
     if (error) {
-      throw new Error(`Failed to add client: ${error.message}`);
+      if (error.code === '23505') {
+        throw new Error(`A list named "${name.trim()}" already exists`);
+      }
+      throw new Error(`Failed to create call list: ${error.message}`);
     }
 
-    return this.convertToEmployee(data);
+    return this.convertToCallList(data, []);
   }
 
-  async updateClientStatus(clientId: string, status: Employee['status']): Promise<void> {
+  async deleteCallList(listId: string): Promise<void> {
     const user = await auth.getCurrentUser();
     if (!user) {
       throw new Error('User not authenticated');
     }
 
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
     const { error } = await supabase
-      .from('clients')
-      .update({ status })
-      .eq('id', clientId)
+      .from('call_lists')
+      .delete()
+      .eq('id', listId)
       .eq('user_id', user.id);
 
     if (error) {
-      throw new Error(`Failed to update client status: ${error.message}`);
+      throw new Error(`Failed to delete call list: ${error.message}`);
     }
   }
 
-  async updateClientCallInfo(clientId: string, callAttempts: number, lastCallTime: Date, status: Employee['status']): Promise<void> {
+  async addClientsToCallList(listId: string, clientIds: string[]): Promise<void> {
     const user = await auth.getCurrentUser();
     if (!user) {
       throw new Error('User not authenticated');
     }
 
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    if (clientIds.length === 0) {
+      return;
+    }
+
+    // Clients already on the list keep their original membership row
     const { error } = await supabase
-      .from('clients')
-      .update({
-        call_attempts: callAttempts,
-        last_call_time: lastCallTime.toISOString(),
-        status,
-      })
-      .eq('id', clientId)
-      .eq('user_id', user.id);
+      .from('call_list_members')
+      .upsert(
+        clientIds.map(clientId => ({ list_id: listId, client_id: clientId, user_id: user.id })),
+        { onConflict: 'list_id,client_id', ignoreDuplicates: true }
+      );
 
     if (error) {
-      throw new Error(`Failed to update client call info: ${error.message}`);
+      throw new Error(`Failed to add clients to call list: ${error.message}`);
     }
   }
 
-  async updateClientPriority(clientId: string, priority: 'high' | 'follow-up' | 'not-interested'): Promise<void> {
+  async removeClientFromCallList(listId: string, clientId: string): Promise<void> {
     const user = await auth.getCurrentUser();
     if (!user) {
       throw new Error('User not authenticated');
     }
 
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
     const { error } = await supabase
-      .from('clients')
-      .update({ priority })
-      .eq('id', clientId)
+      .from('call_list_members')
+      .delete()
+      .eq('list_id', listId)
+      .eq('client_id', clientId)
       .eq('user_id', user.id);
 
     if (error) {
-      throw new Error(`Failed to update client priority: ${error.message}`);
+      throw new Error(`Failed to remove client from call list: ${error.message}`);
     }
   }
 
-  async deleteClient(clientId: string): Promise<void> {
+  // Callback Methods
+  async getScheduledCallbacks(): Promise<Callback[]> {
     const user = await auth.getCurrentUser();
     if (!user) {
       throw new Error('User not authenticated');
     }
 
-    const { error } = await supabase
-      .from('clients')
-      .delete()
-      .eq('id', clientId)
-      .eq('user_id', user.id);
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const { data, error } = await supabase
+      .from('callbacks')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('status', 'scheduled')
+      .order('due_at', { ascending: true });
 
     if (error) {
-      throw new Error(`Failed to delete client: ${error.message}`);
+      throw new Error(`Failed to fetch callbacks: ${error.message}`);
     }
+
+    return data.map(callback => this.convertToCallback(callback));
   }
 
-  async resetAllStatuses(): Promise<void> {
+  async addCallback(
+    clientId: string,
+    callbackData: Pick<Callback, 'dueAt' | 'reason' | 'assignedTo' | 'callLogId'>
+  ): Promise<Callback> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const { data, error } = await supabase
+      .from('callbacks')
+      .insert({
+        client_id: clientId,
+        user_id: user.id,
+        call_log_id: callbackData.callLogId || null,
+        due_at: callbackData.dueAt.toISOString(),
+        reason: callbackData.reason || null,
+        assigned_to: callbackData.assignedTo || user.email || null,
+        status: 'scheduled',
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to schedule callback: ${error.message}`);
+    }
+
+    return this.convertToCallback(data);
+  }
+
+  async updateCallbackStatus(callbackId: string, status: Exclude<Callback['status'], 'scheduled'>): Promise<void> {
     const user = await auth.getCurrentUser();
     if (!user) {
       throw new Error('User not authenticated');
     }
 
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
     const { error } = await supabase
-      .from('clients')
+      .from('callbacks')
       .update({
-        status: 'pending',
-        call_attempts: 0,
-        last_call_time: null,
+        status,
+        completed_at: status === 'completed' ? new Date().toISOString() : null,
       })
+      .eq('id', callbackId)
       .eq('user_id', user.id);
 
     if (error) {
-      throw new Error(`Failed to reset client statuses: ${error.message}`);
+      throw new Error(`Failed to update callback: ${error.message}`);
     }
   }
 
-  async callClient(clientId: string): Promise<{ success: boolean; answered: boolean }> {
-    // Simulate call with random response time (2-8 seconds) and 70% answer rate
-    const callDuration = 2000 + Math.random() * 6000; // 2-8 seconds
-    await new Promise(resolve => setTimeout(resolve, callDuration));
-    
-    // 70% chance of answering for realistic simulation
-    const answered = Math.random() > 0.3;
-    
+  // Do-Not-Call Methods
+  async isCurrentUserAdmin(): Promise<boolean> {
+    return isAppAdmin(await auth.getCurrentUser());
+  }
+
+  async getDoNotCallEntries(): Promise<DoNotCallEntry[]> {
     const user = await auth.getCurrentUser();
     if (!user) {
       throw new Error('User not authenticated');
     }
 
-    // Get current client data
-    const { data: client, error: fetchError } = await supabase
-      .from('clients')
-      .select('call_attempts')
-      .eq('id', clientId)
-      .eq('user_id', user.id)
-      .single();
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
 
-    if (fetchError) {
-      throw new Error(`Failed to fetch client: ${fetchError.message}`);
+    // RLS returns the user's personal entries plus the global list, which can run past one page
+    const entries = await this.fetchAllPages('do-not-call list', (db, from, to) => db
+      .from('do_not_call_entries')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, to));
+
+    return entries.map(entry => this.convertToDoNotCallEntry(entry));
+  }
+
+  // Adds every number not already on the chosen list; existing entries are left untouched
+  async importDoNotCallNumbers(
+    phoneNumbers: string[],
+    options: {
+      scope?: DoNotCallEntry['scope'];
+      reason?: string;
+      source?: DoNotCallEntry['source'];
+      defaultCountry?: string;
+    } = {}
+  ): Promise<{ added: DoNotCallEntry[]; skipped: number }> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
     }
 
-    // Update call info
-    await this.updateClientCallInfo(
-      clientId,
-      client.call_attempts + 1,
-      new Date(),
-      answered ? 'answered' : 'missed'
-    );
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const scope = options.scope || 'user';
+    if (scope === 'global' && !isAppAdmin(user)) {
+      throw new Error('Only administrators can add numbers to the global do-not-call list');
+    }
+    const existing = await this.fetchAllPages('do-not-call list', (db, from, to) => {
+      let existingQuery = db
+        .from('do_not_call_entries')
+        .select('id, phone_key')
+        .eq('scope', scope);
+      if (scope === 'user') {
+        existingQuery = existingQuery.eq('user_id', user.id);
+      }
+      return existingQuery.order('id').range(from, to);
+    });
+
+    const seen = new Set(existing.map(entry => entry.phone_key));
+    const rows: DoNotCallInsert[] = [];
+    for (const phoneNumber of phoneNumbers) {
+      const phoneKey = toPhoneKey(phoneNumber, options.defaultCountry);
+      if (!phoneKey || seen.has(phoneKey)) {
+        continue;
+      }
+      seen.add(phoneKey);
+      rows.push({
+        phone_number: phoneNumber.trim(),
+        phone_key: phoneKey,
+        scope,
+        user_id: scope === 'user' ? user.id : null,
+        reason: options.reason || null,
+        source: options.source || 'manual',
+        added_by: user.id,
+        added_by_email: user.email || null,
+      });
+    }
+
+    if (rows.length === 0) {
+      return { added: [], skipped: phoneNumbers.length };
+    }
+
+    // Inserted in batches so a long list does not go out as one oversized request
+    const added: DoNotCallEntry[] = [];
+    const batchSize = 500;
+    for (let start = 0; start < rows.length; start += batchSize) {
+      const { data, error } = await supabase
+        .from('do_not_call_entries')
+        .insert(rows.slice(start, start + batchSize))
+        .select();
+
+      if (error) {
+        throw new Error(`Failed to add to do-not-call list after ${added.length} numbers: ${error.message}`);
+      }
+      added.push(...data.map(entry => this.convertToDoNotCallEntry(entry)));
+    }
 
-    return { success: true, answered };
+    return { added, skipped: phoneNumbers.length - rows.length };
+  }
+
+  async removeDoNotCallEntry(entryId: string): Promise<void> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    // RLS lets administrators remove global entries and users remove personal entries they added
+    let query = supabase
+      .from('do_not_call_entries')
+      .delete()
+      .eq('id', entryId);
+    if (!isAppAdmin(user)) {
+      query = query.eq('scope', 'user').eq('added_by', user.id);
+    }
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      throw new Error(`Failed to remove do-not-call entry: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new Error('Only administrators can remove global entries, and only the user who added a personal entry can remove it');
+    }
   }
 
   // Work History Methods
@@ -282,16 +1845,7 @@ export class SupabaseService {
       throw new Error(`Failed to fetch work history: ${error.message}`);
     }
 
-    return data.map(work => ({
-      id: work.id,
-      clientId: work.client_id,
-      workType: work.work_type,
-      workDescription: work.work_description || undefined,
-      startDate: work.start_date ? new Date(work.start_date) : undefined,
-      completionDate: work.completion_date ? new Date(work.completion_date) : undefined,
-      status: work.status,
-      amount: work.amount || undefined,
-    }));
+    return data.map(work => this.convertToWorkHistory(work));
   }
 
   async addWorkHistory(clientId: string, workData: Omit<WorkHistory, 'id' | 'clientId'>): Promise<WorkHistory> {
@@ -319,16 +1873,7 @@ export class SupabaseService {
       throw new Error(`Failed to add work history: ${error.message}`);
     }
 
-    return {
-      id: data.id,
-      clientId: data.client_id,
-      workType: data.work_type,
-      workDescription: data.work_description || undefined,
-      startDate: data.start_date ? new Date(data.start_date) : undefined,
-      completionDate: data.completion_date ? new Date(data.completion_date) : undefined,
-      status: data.status,
-      amount: data.amount || undefined,
-    };
+    return this.convertToWorkHistory(data);
   }
 
   // Appointments Methods
@@ -349,14 +1894,7 @@ export class SupabaseService {
       throw new Error(`Failed to fetch appointments: ${error.message}`);
     }
 
-    return data.map(apt => ({
-      id: apt.id,
-      clientId: apt.client_id,
-      appointmentDate: new Date(apt.appointment_date),
-      appointmentType: apt.appointment_type,
-      status: apt.status,
-      notes: apt.notes || undefined,
-    }));
+    return data.map(apt => this.convertToAppointment(apt));
   }
 
   async addAppointment(clientId: string, appointmentData: Omit<Appointment, 'id' | 'clientId'>): Promise<Appointment> {
@@ -382,14 +1920,7 @@ export class SupabaseService {
       throw new Error(`Failed to add appointment: ${error.message}`);
     }
 
-    return {
-      id: data.id,
-      clientId: data.client_id,
-      appointmentDate: new Date(data.appointment_date),
-      appointmentType: data.appointment_type,
-      status: data.status,
-      notes: data.notes || undefined,
-    };
+    return this.convertToAppointment(data);
   }
 
   async getMonthlyAppointments(): Promise<number> {
@@ -455,13 +1986,7 @@ export class SupabaseService {
       throw new Error(`Failed to fetch feedback: ${error.message}`);
     }
 
-    return data.map(fb => ({
-      id: fb.id,
-      clientId: fb.client_id,
-      rating: fb.rating,
-      feedbackText: fb.feedback_text || undefined,
-      feedbackDate: new Date(fb.feedback_date),
-    }));
+    return data.map(fb => this.convertToFeedback(fb));
   }
 
   async addFeedback(clientId: string, feedbackData: Omit<ClientFeedback, 'id' | 'clientId'>): Promise<ClientFeedback> {
@@ -486,12 +2011,76 @@ export class SupabaseService {
       throw new Error(`Failed to add feedback: ${error.message}`);
     }
 
-    return {
-      id: data.id,
-      clientId: data.client_id,
-      rating: data.rating,
-      feedbackText: data.feedback_text || undefined,
-      feedbackDate: new Date(data.feedback_date),
+    return this.convertToFeedback(data);
+  }
+
+  // Export Methods
+  // Call logs and history for many clients at once; ids are queried in chunks to keep request URLs short
+  async getClientRecords(clientIds: string[]): Promise<{
+    callLogs: CallLog[];
+    workHistory: WorkHistory[];
+    appointments: Appointment[];
+    feedback: ClientFeedback[];
+  }> {
+    const user = await auth.getCurrentUser();
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const records = {
+      callLogs: [] as CallLog[],
+      workHistory: [] as WorkHistory[],
+      appointments: [] as Appointment[],
+      feedback: [] as ClientFeedback[],
     };
+    const chunkSize = 100;
+    for (let start = 0; start < clientIds.length; start += chunkSize) {
+      const chunk = clientIds.slice(start, start + chunkSize);
+      // Ordered by id as well so pages stay stable when the first column ties
+      const [callLogs, workHistory, appointments, feedback] = await Promise.all([
+        this.fetchAllPages('client records', (db, from, to) => db.from('call_logs').select('*').eq('user_id', user.id).in('client_id', chunk)
+          .order('started_at', { ascending: false }).order('id').range(from, to)),
+        this.fetchAllPages('client records', (db, from, to) => db.from('work_history').select('*').eq('user_id', user.id).in('client_id', chunk)
+          .order('created_at', { ascending: false }).order('id').range(from, to)),
+        this.fetchAllPages('client records', (db, from, to) => db.from('appointments').select('*').eq('user_id', user.id).in('client_id', chunk)
+          .order('appointment_date', { ascending: true }).order('id').range(from, to)),
+        this.fetchAllPages('client records', (db, from, to) => db.from('client_feedback').select('*').eq('user_id', user.id).in('client_id', chunk)
+          .order('feedback_date', { ascending: false }).order('id').range(from, to)),
+      ]);
+
+      records.callLogs.push(...callLogs.map(log => this.convertToCallLog(log)));
+      records.workHistory.push(...workHistory.map(work => this.convertToWorkHistory(work)));
+      records.appointments.push(...appointments.map(apt => this.convertToAppointment(apt)));
+      records.feedback.push(...feedback.map(fb => this.convertToFeedback(fb)));
+    }
+
+    return records;
+  }
+
+  // PostgREST returns at most 1000 rows per request, so keep asking until a short page comes back
+  private async fetchAllPages<Row>(
+    description: string,
+    fetchPage: (db: NonNullable<typeof supabase>, from: number, to: number) => PromiseLike<{ data: Row[] | null; error: { message: string } | null }>
+  ): Promise<Row[]> {
+    if (!supabase) {
+      throw new Error('Please connect to Supabase first');
+    }
+
+    const pageSize = 1000;
+    const rows: Row[] = [];
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await fetchPage(supabase, from, from + pageSize - 1);
+      if (error) {
+        throw new Error(`Failed to fetch ${description}: ${error.message}`);
+      }
+      rows.push(...(data || []));
+      if (!data || data.length < pageSize) {
+        return rows;
+      }
+    }
   }
 }
\ No newline at end of file
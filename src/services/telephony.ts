@@ -0,0 +1,443 @@
+import {
+  CallEvent,
+  CallEventListener,
+  CallEventType,
+  CallResult,
+  DialRequest,
+  TelephonyProvider,
+} from '../types/Telephony';
+
+const createCallId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// How long a simulated voicemail drop plays before the call completes
+const SIMULATED_DROP_MS = 2000;
+
+// Default provider: the original coin-flip simulator (2-8 second ring, 70% pickup rate,
+// one pickup in five by an answering machine)
+export class RandomSimulatorProvider implements TelephonyProvider {
+  readonly name = 'random-simulator';
+  private timers = new Map<string, ReturnType<typeof setTimeout>[]>();
+  private listeners = new Map<string, CallEventListener>();
+
+  async dial(_request: DialRequest, onEvent: CallEventListener): Promise<string> {
+    const callId = createCallId('sim');
+    const emit = (type: CallEventType) => onEvent({ callId, type, timestamp: new Date() });
+
+    const ringDuration = 2000 + Math.random() * 6000; // 2-8 seconds
+    const pickedUp = Math.random() > 0.3;
+    const machine = pickedUp && Math.random() < 0.2;
+    const answered = pickedUp && !machine;
+    const talkDuration = 1000 + Math.random() * 2000; // 1-3 seconds
+
+    const timers = [
+      setTimeout(() => emit('ringing'), 0),
+      setTimeout(() => emit(answered ? 'answered' : machine ? 'machine' : 'no-answer'), ringDuration),
+    ];
+    this.listeners.set(callId, onEvent);
+    if (answered) {
+      timers.push(setTimeout(() => {
+        emit('completed');
+        this.timers.delete(callId);
+      }, ringDuration + talkDuration));
+    }
+    this.timers.set(callId, timers);
+
+    emit('dialing');
+    return callId;
+  }
+
+  async hangUp(callId: string): Promise<void> {
+    this.timers.get(callId)?.forEach(clearTimeout);
+    this.timers.delete(callId);
+    this.listeners.delete(callId);
+  }
+
+  async dropVoicemail(callId: string): Promise<void> {
+    const onEvent = this.listeners.get(callId);
+    if (!onEvent) {
+      throw new Error(`Call ${callId} is no longer connected`);
+    }
+    this.timers.get(callId)?.forEach(clearTimeout);
+    this.timers.set(callId, [setTimeout(() => {
+      onEvent({ callId, type: 'completed', timestamp: new Date(), detail: 'voicemail left' });
+      this.hangUp(callId);
+    }, SIMULATED_DROP_MS)]);
+  }
+}
+
+export interface ScriptedCallStep {
+  type: CallEventType;
+  afterMs: number;
+}
+
+export interface CallScript {
+  steps: ScriptedCallStep[];
+}
+
+// Deterministic provider for tests, passed straight to placeCall: every number follows a fixed script of events
+export class ScriptedSimulatorProvider implements TelephonyProvider {
+  readonly name = 'scripted-simulator';
+  readonly dialed: DialRequest[] = [];
+  readonly voicemailDrops: string[] = []; // call ids a message was left on
+  private listeners = new Map<string, CallEventListener>();
+  private scripts: Record<string, CallScript[]>;
+  private fallback: CallScript;
+  private timers = new Map<string, ReturnType<typeof setTimeout>[]>();
+  private sequence = 0;
+
+  constructor(scripts: Record<string, CallScript | CallScript[]> = {}, fallback?: CallScript) {
+    // Several scripts for one number are played in order, one per dial, the last one repeating
+    this.scripts = Object.fromEntries(
+      Object.entries(scripts).map(([phoneNumber, script]) => [
+        phoneNumber,
+        Array.isArray(script) ? [...script] : [script],
+      ])
+    );
+    this.fallback = fallback || {
+      steps: [
+        { type: 'ringing', afterMs: 0 },
+        { type: 'no-answer', afterMs: 1000 },
+      ],
+    };
+  }
+
+  private nextScript(phoneNumber: string): CallScript {
+    const queue = this.scripts[phoneNumber];
+    if (!queue || queue.length === 0) {
+      return this.fallback;
+    }
+    return queue.length > 1 ? queue.shift()! : queue[0];
+  }
+
+  async dial(request: DialRequest, onEvent: CallEventListener): Promise<string> {
+    this.sequence += 1;
+    const callId = `scripted_${this.sequence}`;
+    this.dialed.push(request);
+
+    const script = this.nextScript(request.phoneNumber);
+    const timers = script.steps.map(step =>
+      setTimeout(() => onEvent({ callId, type: step.type, timestamp: new Date() }), step.afterMs)
+    );
+    this.timers.set(callId, timers);
+    this.listeners.set(callId, onEvent);
+
+    onEvent({ callId, type: 'dialing', timestamp: new Date() });
+    return callId;
+  }
+
+  async hangUp(callId: string): Promise<void> {
+    this.timers.get(callId)?.forEach(clearTimeout);
+    this.timers.delete(callId);
+    this.listeners.delete(callId);
+  }
+
+  // The rest of the script is dropped; the call completes once the message has played
+  async dropVoicemail(callId: string): Promise<void> {
+    const onEvent = this.listeners.get(callId);
+    if (!onEvent) {
+      throw new Error(`Call ${callId} is no longer connected`);
+    }
+    this.voicemailDrops.push(callId);
+    this.timers.get(callId)?.forEach(clearTimeout);
+    this.timers.set(callId, [setTimeout(() => {
+      onEvent({ callId, type: 'completed', timestamp: new Date(), detail: 'voicemail left' });
+      this.hangUp(callId);
+    }, SIMULATED_DROP_MS)]);
+  }
+}
+
+const MOCK_CARRIER_EVENT_TYPES: CallEventType[] = ['dialing', 'ringing', 'answered', 'machine', 'busy', 'no-answer', 'failed', 'completed'];
+const MOCK_CARRIER_TERMINAL: CallEventType[] = ['busy', 'no-answer', 'failed', 'completed'];
+
+/**
+ * Talks to the local mock carrier (scripts/mock-telephony-server.js): dials over
+ * HTTP and follows call progress on its /events WebSocket. Call ids are chosen
+ * here so no event can arrive before its listener is registered.
+ */
+export class MockCarrierProvider implements TelephonyProvider {
+  readonly name = 'mock-carrier';
+  private baseUrl: string;
+  private socket: WebSocket | null = null;
+  private connecting: Promise<WebSocket> | null = null;
+  private listeners = new Map<string, CallEventListener>();
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private connect(): Promise<WebSocket> {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      return Promise.resolve(this.socket);
+    }
+    if (!this.connecting) {
+      this.connecting = new Promise<WebSocket>((resolve, reject) => {
+        const socket = new WebSocket(`${this.baseUrl.replace(/^http/, 'ws')}/events`);
+        socket.onopen = () => {
+          this.socket = socket;
+          this.connecting = null;
+          resolve(socket);
+        };
+        socket.onerror = () => {
+          this.connecting = null;
+          reject(new Error(`Cannot reach the mock telephony server at ${this.baseUrl}`));
+        };
+        socket.onclose = () => {
+          if (this.socket === socket) {
+            this.socket = null;
+          }
+          // Calls in flight can no longer finish; report them as failed rather than leave them ringing
+          this.listeners.forEach((listener, callId) =>
+            listener({ callId, type: 'failed', timestamp: new Date(), detail: 'lost connection to mock carrier' })
+          );
+          this.listeners.clear();
+        };
+        socket.onmessage = (message) => this.handleMessage(message.data);
+      });
+    }
+    return this.connecting;
+  }
+
+  private handleMessage(data: unknown) {
+    let payload: { callId?: string; type?: CallEventType; timestamp?: string; detail?: string };
+    try {
+      payload = JSON.parse(String(data));
+    } catch {
+      console.error('Ignoring malformed mock carrier event:', data);
+      return;
+    }
+    if (!payload.callId || !payload.type || !MOCK_CARRIER_EVENT_TYPES.includes(payload.type)) return;
+
+    const listener = this.listeners.get(payload.callId);
+    if (!listener) return; // another tab's call, or one we already hung up
+
+    if (MOCK_CARRIER_TERMINAL.includes(payload.type)) {
+      this.listeners.delete(payload.callId);
+    }
+    listener({
+      callId: payload.callId,
+      type: payload.type,
+      timestamp: payload.timestamp ? new Date(payload.timestamp) : new Date(),
+      detail: payload.detail,
+    });
+  }
+
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    try {
+      return await fetch(`${this.baseUrl}${path}`, init);
+    } catch {
+      throw new Error(`Cannot reach the mock telephony server at ${this.baseUrl}`);
+    }
+  }
+
+  async dial(request: DialRequest, onEvent: CallEventListener): Promise<string> {
+    await this.connect();
+    const callId = createCallId('mock');
+    this.listeners.set(callId, onEvent);
+
+    const response = await this.request('/calls', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ callId, ...request }),
+    });
+    if (!response.ok) {
+      this.listeners.delete(callId);
+      const body = await response.json().catch(() => ({}));
+      throw new Error(`Mock carrier rejected the call: ${body.error || response.statusText}`);
+    }
+    return callId;
+  }
+
+  async hangUp(callId: string): Promise<void> {
+    this.listeners.delete(callId);
+    const response = await this.request(`/calls/${encodeURIComponent(callId)}`, { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to hang up call ${callId}: ${response.statusText}`);
+    }
+  }
+
+  async dropVoicemail(callId: string, audioUrl: string): Promise<void> {
+    const response = await this.request(`/calls/${encodeURIComponent(callId)}/voicemail`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ audioUrl }),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(`Failed to leave voicemail on call ${callId}: ${body.error || response.statusText}`);
+    }
+  }
+
+  async fetchRecording(callId: string): Promise<Blob | null> {
+    const response = await this.request(`/calls/${encodeURIComponent(callId)}/recording`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch recording for call ${callId}: ${response.statusText}`);
+    }
+    return response.blob();
+  }
+}
+
+// Set VITE_MOCK_TELEPHONY_URL (e.g. http://localhost:4010) to dial through the local mock carrier
+export const createDefaultTelephonyProvider = (): TelephonyProvider => {
+  const mockCarrierUrl = import.meta.env.VITE_MOCK_TELEPHONY_URL;
+  return mockCarrierUrl ? new MockCarrierProvider(mockCarrierUrl) : new RandomSimulatorProvider();
+};
+
+const TERMINAL_BEFORE_ANSWER: CallEventType[] = ['busy', 'no-answer', 'failed'];
+
+// Connected calls are hung up after this long in case the provider never reports the end
+export const DEFAULT_MAX_CALL_MS = 60 * 60 * 1000;
+// How long a voicemail drop may take to play before the call is hung up
+export const VOICEMAIL_DROP_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Dials through the provider and resolves once the call is over.
+ * Ring-timeout policy: if the call is not answered within ringTimeoutMs it is
+ * hung up and reported as no-answer. Answered calls resolve when they complete.
+ * When an answering machine picks up, the request's voicemail message is left if the
+ * provider can drop one, otherwise the call is hung up; either way it is a machine outcome.
+ * Aborting the signal hangs up and settles with what the call had reached so far.
+ * A connected call that is not reported over within maxCallMs (DEFAULT_MAX_CALL_MS), or a
+ * voicemail drop that does not finish within VOICEMAIL_DROP_TIMEOUT_MS, is hung up too.
+ */
+export const placeCall = (
+  provider: TelephonyProvider,
+  request: DialRequest,
+  options: { ringTimeoutMs: number; maxCallMs?: number; onEvent?: CallEventListener; signal?: AbortSignal }
+): Promise<CallResult> => {
+  return new Promise<CallResult>((resolve, reject) => {
+    const startedAt = new Date();
+    let callId: string | null = null;
+    let answeredAt: Date | undefined;
+    let machineDetectedAt: Date | undefined;
+    let voicemailDropped = false;
+    let settled = false;
+    let callTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (outcome: CallResult['outcome']) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(ringTimer);
+      clearTimeout(callTimer);
+      options.signal?.removeEventListener('abort', handleAbort);
+      resolve({
+        callId: callId || '',
+        outcome,
+        startedAt,
+        answeredAt,
+        machineDetectedAt,
+        voicemailDropped: machineDetectedAt ? voicemailDropped : undefined,
+        endedAt: new Date(),
+      });
+    };
+
+    const hangUp = () => {
+      if (callId) {
+        provider.hangUp(callId).catch(error => console.error('Failed to hang up call:', error));
+      }
+    };
+
+    const handleMachine = (event: CallEvent) => {
+      // Some carriers report the pickup before recognising the machine; it was never a person
+      answeredAt = undefined;
+      machineDetectedAt = event.timestamp;
+      clearTimeout(ringTimer);
+      if (!request.voicemailDropUrl || !provider.dropVoicemail) {
+        hangUp();
+        finish('machine');
+        return;
+      }
+      // Counts as left once the message has played through, i.e. the call completes normally
+      voicemailDropped = true;
+      clearTimeout(callTimer);
+      callTimer = setTimeout(() => {
+        console.log(`⏰ Voicemail drop for client ${request.clientId} did not finish`);
+        voicemailDropped = false;
+        hangUp();
+        finish('machine');
+      }, VOICEMAIL_DROP_TIMEOUT_MS);
+      provider.dropVoicemail(event.callId, request.voicemailDropUrl)
+        .catch(error => {
+          console.error('Failed to leave voicemail:', error);
+          voicemailDropped = false;
+          hangUp();
+          finish('machine');
+        });
+    };
+
+    const ringTimer = setTimeout(() => {
+      if (settled || answeredAt || machineDetectedAt) return;
+      console.log(`⏰ Ring timeout for client ${request.clientId}`);
+      hangUp();
+      finish('no-answer');
+    }, options.ringTimeoutMs);
+
+    const handleAbort = () => {
+      if (settled) return;
+      console.log(`✋ Hanging up the call to client ${request.clientId}`);
+      hangUp();
+      if (machineDetectedAt) {
+        voicemailDropped = false;
+        finish('machine');
+      } else {
+        finish(answeredAt ? 'answered' : 'no-answer');
+      }
+    };
+
+    const handleEvent = (event: CallEvent) => {
+      if (settled) return;
+      callId = event.callId;
+      options.onEvent?.(event);
+
+      if (event.type === 'answered') {
+        answeredAt = event.timestamp;
+        clearTimeout(ringTimer);
+        clearTimeout(callTimer);
+        callTimer = setTimeout(() => {
+          console.log(`⏰ Call to client ${request.clientId} reached the maximum duration`);
+          hangUp();
+          finish('answered');
+        }, options.maxCallMs ?? DEFAULT_MAX_CALL_MS);
+      } else if (event.type === 'machine') {
+        handleMachine(event);
+      } else if (event.type === 'completed') {
+        finish(machineDetectedAt ? 'machine' : answeredAt ? 'answered' : 'failed');
+      } else if (TERMINAL_BEFORE_ANSWER.includes(event.type)) {
+        // A failure after pickup (e.g. dropped line) still counts as reached
+        if (machineDetectedAt) {
+          voicemailDropped = false;
+          finish('machine');
+        } else {
+          finish(answeredAt && event.type === 'failed' ? 'answered' : event.type as CallResult['outcome']);
+        }
+      }
+    };
+
+    if (options.signal?.aborted) {
+      settled = true;
+      clearTimeout(ringTimer);
+      reject(new Error('Call cancelled before dialing'));
+      return;
+    }
+    options.signal?.addEventListener('abort', handleAbort);
+
+    provider.dial(request, handleEvent)
+      .then(id => {
+        callId = id;
+        // Aborted while the dial request was in flight: the call exists now, so end it
+        if (settled && options.signal?.aborted) {
+          hangUp();
+        }
+      })
+      .catch(error => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(ringTimer);
+        options.signal?.removeEventListener('abort', handleAbort);
+        reject(error);
+      });
+  });
+};
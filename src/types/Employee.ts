@@ -1,18 +1,58 @@
+export type CallOutcomeStatus =
+  | 'answered'
+  | 'missed'
+  | 'busy'
+  | 'voicemail'
+  | 'machine' // picked up by an answering machine, detected by the provider
+  | 'wrong-number'
+  | 'disconnected'
+  | 'declined'
+  | 'callback-requested';
+
+export type EmployeeStatus = 'pending' | 'calling' | CallOutcomeStatus;
+
+// Outcomes auto calling may dial again; wrong and disconnected numbers never are
+export type RetryableOutcome = 'missed' | 'busy' | 'voicemail' | 'machine' | 'declined' | 'callback-requested';
+
+export interface RetryRule {
+  retry: boolean;
+  delayMinutes: number; // wait after the attempt before the client is eligible again
+  maxAttempts?: number; // no more retries once the client has had this many attempts; unlimited when not set
+}
+
+export type RetryRules = Record<RetryableOutcome, RetryRule>;
+
+export type ContactFilterType =
+  | 'all'
+  | 'default'
+  | 'custom'
+  | 'completed'
+  | 'urgent'
+  | Exclude<EmployeeStatus, 'calling'>
+  | `disposition:${string}`; // clients whose latest disposition has this code
+
 export interface Employee {
   id: string;
   name: string;
-  phoneNumber: string;
+  phoneNumber: string; // as displayed
+  phoneE164?: string; // canonical form used to compare and dial; unset for numbers that could not be parsed
   whatsappNumber?: string;
-  position: string;
-  department: string;
-  email: string;
-  status: 'pending' | 'calling' | 'answered' | 'missed';
+  whatsappE164?: string;
+  position?: string;
+  department?: string;
+  email?: string;
+  status: EmployeeStatus;
   callAttempts: number;
   lastCallTime?: Date;
   isDefault?: boolean; // Flag to identify default vs user-added employees
-  priority?: 'high' | 'follow-up' | 'not-interested'; // New priority field
-  workStatus?: 'new' | 'in_progress' | 'completed' | 'repeat_client';
+  priority?: string; // code from the priority catalogue
+  workStatus?: string; // code from the work status catalogue
   isUrgent?: boolean;
+  timeZone?: string; // IANA zone; inferred from the phone number when not set
+  lastDispositionCode?: string;
+  lastDispositionAt?: Date;
+  nextEligibleAt?: Date; // set after an attempt whose retry rule has a wait
+  recordingConsent?: boolean; // calls are only recorded when the client agreed
 }
 
 export interface CallSystemStats {
@@ -20,12 +60,69 @@ export interface CallSystemStats {
   answered: number;
   missed: number;
   pending: number;
+  busy: number;
+  voicemail: number;
+  machine: number;
+  voicemailDrops: number; // campaign messages left on answering machines this session
+  wrongNumber: number;
+  disconnected: number;
+  declined: number;
+  callbackRequested: number;
   currentRound: number;
   monthlyAppointments: number;
   completedWork: number;
   urgentClients: number;
 }
 
+export type DialingStrategy =
+  | 'list-order'
+  | 'urgent-first'
+  | 'high-priority-first'
+  | 'least-recently-called'
+  | 'fewest-attempts'
+  | 'weighted';
+
+export interface CampaignSettings {
+  ringTimeoutSeconds: number;
+  interCallDelaySeconds: number;
+  interRoundDelaySeconds: number;
+  maxRounds?: number; // unlimited when not set
+  maxAttemptsPerContact?: number; // unlimited when not set
+  stopAfterAnswered?: number;
+  stopAfterMinutes?: number;
+  dialingStrategy: DialingStrategy;
+  skipNotInterested: boolean;
+  callingWindowStart: string; // HH:MM in the client's local time
+  callingWindowEnd: string;
+  enforceCallingWindow: boolean;
+  maxConcurrentCalls: number; // auto calls ringing at the same time; the ceiling with predictive pacing
+  predictivePacing: boolean; // adapt lines in flight and dial delay to the observed answer rate
+  wrapUpSeconds: number; // before the disposition form dismisses itself; 0 waits for the agent
+  retryRules: RetryRules;
+  recordingRetentionDays?: number; // recordings are kept forever when not set
+  voicemailDropPath?: string; // pre-recorded message left on answering machines; none when not set
+  defaultCountry: string; // ISO 3166 code numbers without a country code are read in
+}
+
+// Where predictive pacing stands, from the rolling window of recent auto calls
+export interface PacingSnapshot {
+  sampleSize: number;
+  answerRate: number; // 0-1
+  averageTalkSeconds: number;
+  averageAnswerSeconds: number; // ring time before pickup on answered calls
+  pacingFactor: number; // calls dialed per free agent
+  linesInFlight: number;
+  interCallDelaySeconds: number;
+  isLearning: boolean; // too few calls yet, so pacing stays conservative
+}
+
+// A contact auto calling skipped because it is outside calling hours where they are
+export interface DeferredContact {
+  employeeId: string;
+  timeZone: string;
+  callableAt: Date;
+}
+
 export interface ClientFeedback {
   id: string;
   clientId: string;
@@ -69,4 +166,201 @@ export interface ClientReview {
   reviewText?: string;
   reviewDate: Date;
   serviceType?: string;
-}
\ No newline at end of file
+}
+
+export interface CallLog {
+  id: string;
+  clientId: string;
+  startedAt: Date;
+  endedAt?: Date;
+  ringDurationSeconds: number;
+  talkDurationSeconds: number;
+  outcome: CallOutcomeStatus;
+  roundNumber?: number;
+  callMode: 'manual' | 'auto';
+  providerCallId?: string;
+  voicemailDropped?: boolean;
+  notes?: string;
+}
+
+export type DispositionColor =
+  | 'gray'
+  | 'red'
+  | 'orange'
+  | 'yellow'
+  | 'green'
+  | 'teal'
+  | 'blue'
+  | 'indigo'
+  | 'purple'
+  | 'pink';
+
+// What a catalogue entry describes: a call outcome, a client priority or a stage of the job
+export type CatalogueCategory = 'outcome' | 'priority' | 'work_status';
+
+// An entry in the disposition catalogue; a personal code overrides a shared one with the same code
+// in the same category
+export interface DispositionCode {
+  id: string;
+  category: CatalogueCategory;
+  code: string;
+  label: string;
+  color: DispositionColor;
+  countsAsReached: boolean; // for a work status: the work is done
+  retry: boolean; // whether auto calling dials the client again; a priority that is not retried is "not interested"
+  retryDelayMinutes?: number; // counted from the disposition; no wait when not set
+  sortOrder: number;
+  scope: 'user' | 'global';
+  createdBy: string;
+}
+
+export type DispositionNextAction = 'none' | 'callback' | 'appointment' | 'send-information' | 'close';
+
+// What the agent recorded about an answered call
+export interface CallDisposition {
+  id: string;
+  callLogId: string;
+  clientId: string;
+  outcomeCode?: string;
+  summary?: string;
+  nextAction: DispositionNextAction;
+  callbackId?: string;
+  appointmentId?: string;
+  autoDismissed: boolean; // saved as-is when the wrap-up time ran out
+  createdAt: Date;
+}
+
+// An answered call still waiting for its disposition
+export interface PendingDisposition {
+  callLogId: string;
+  clientId: string;
+  callMode: CallLog['callMode'];
+  answeredAt: Date;
+  // Booked by an earlier submit that failed later on, so a retry does not book them twice
+  callbackId?: string;
+  appointmentId?: string;
+}
+
+// Disposition form contents; the callback or appointment is booked on submit
+export interface DispositionDraft {
+  outcomeCode?: string;
+  summary?: string;
+  nextAction: DispositionNextAction;
+  callbackDueAt?: Date;
+  appointmentDate?: Date;
+  appointmentType?: string;
+  autoDismissed: boolean;
+}
+
+export interface DoNotCallEntry {
+  id: string;
+  phoneNumber: string;
+  phoneKey: string; // E.164 digits without the +, see toPhoneKey
+  scope: 'user' | 'global'; // personal list, or the shared list every user is checked against
+  reason?: string;
+  source: 'manual' | 'not-interested' | 'csv-import';
+  addedBy: string;
+  addedByEmail?: string;
+  createdAt: Date;
+}
+
+export interface Callback {
+  id: string;
+  clientId: string;
+  callLogId?: string; // the call the client asked to be called back on
+  dueAt: Date;
+  reason?: string;
+  assignedTo?: string;
+  status: 'scheduled' | 'completed' | 'cancelled';
+  completedAt?: Date;
+  createdAt: Date;
+}
+
+// Persisted auto-call progress, so an interrupted campaign can pick up where it stopped
+export interface CallSession {
+  id: string;
+  status: 'active' | 'completed' | 'stopped';
+  currentRound: number;
+  queue: string[]; // client ids for the current round
+  position: number; // index into queue of the next client to dial
+  answeredCount: number;
+  settings: CampaignSettings;
+  callListId?: string; // unset when the session dials every client
+  startedAt: Date;
+  updatedAt: Date;
+}
+
+// A named campaign list; clients may belong to several lists at once
+export interface CallList {
+  id: string;
+  name: string;
+  description?: string;
+  clientIds: string[];
+  createdAt: Date;
+}
+
+// Audio of one call attempt; the file lives in recording storage under storagePath
+export interface CallRecording {
+  id: string;
+  callLogId: string;
+  clientId: string;
+  storagePath: string;
+  mimeType: string;
+  sizeBytes: number;
+  durationSeconds?: number;
+  expiresAt?: Date; // removed after this under the retention setting
+  createdAt: Date;
+}
+
+// One contact from an import file, already mapped onto client fields
+export interface NewClient {
+  name: string;
+  phoneNumber: string;
+  phoneE164: string;
+  whatsappNumber?: string;
+  whatsappE164?: string;
+  email?: string;
+  position?: string;
+  department?: string;
+  workStatus?: string;
+  isUrgent?: boolean;
+}
+
+export interface ClientImportResult {
+  added: Employee[];
+  skipped: number; // phone number already belongs to a client
+  failed: { contact: NewClient; error: string }[];
+}
+
+// Profile fields a merge can take from either client; the number fields travel with their E.164 form
+export type ClientMergeField =
+  | 'name'
+  | 'phoneNumber'
+  | 'whatsappNumber'
+  | 'email'
+  | 'position'
+  | 'department'
+  | 'workStatus'
+  | 'isUrgent'
+  | 'priority'
+  | 'timeZone'
+  | 'recordingConsent';
+
+export type ClientMergeValues = Partial<Pick<Employee, ClientMergeField | 'phoneE164' | 'whatsappE164'>>;
+
+// Profile fields that can be edited after a client is created; the number fields travel with their E.164 form
+export type ClientProfileUpdate = Partial<Pick<
+  Employee,
+  | 'name'
+  | 'phoneNumber'
+  | 'phoneE164'
+  | 'whatsappNumber'
+  | 'whatsappE164'
+  | 'email'
+  | 'position'
+  | 'department'
+  | 'workStatus'
+  | 'isUrgent'
+  | 'timeZone'
+  | 'recordingConsent'
+>>;
@@ -0,0 +1,48 @@
+export type CallEventType =
+  | 'dialing'
+  | 'ringing'
+  | 'answered'
+  | 'machine' // answering machine detected instead of a person
+  | 'busy'
+  | 'no-answer'
+  | 'failed'
+  | 'completed';
+
+export interface CallEvent {
+  callId: string;
+  type: CallEventType;
+  timestamp: Date;
+  detail?: string;
+}
+
+export type CallEventListener = (event: CallEvent) => void;
+
+export interface DialRequest {
+  clientId: string;
+  phoneNumber: string;
+  record?: boolean; // only set when the client consented to recording
+  voicemailDropUrl?: string; // message to leave if an answering machine picks up
+}
+
+// Anything that can place a call: the built-in simulators or a real carrier adapter
+export interface TelephonyProvider {
+  readonly name: string;
+  dial(request: DialRequest, onEvent: CallEventListener): Promise<string>;
+  hangUp(callId: string): Promise<void>;
+  // Providers that record calls hand the audio over once the call is over
+  fetchRecording?(callId: string): Promise<Blob | null>;
+  // Plays the message to the answering machine after the beep; the call completes once it has played
+  dropVoicemail?(callId: string, audioUrl: string): Promise<void>;
+}
+
+export type CallResultOutcome = 'answered' | 'machine' | 'busy' | 'no-answer' | 'failed';
+
+export interface CallResult {
+  callId: string;
+  outcome: CallResultOutcome;
+  startedAt: Date;
+  answeredAt?: Date; // a person picked up
+  machineDetectedAt?: Date;
+  voicemailDropped?: boolean;
+  endedAt: Date;
+}
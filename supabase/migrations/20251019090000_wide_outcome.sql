@@ -0,0 +1,27 @@
+/*
+  # Extend client call outcomes
+
+  1. Changes
+    - `clients.status` now also accepts: busy, voicemail, wrong-number,
+      disconnected, declined, callback-requested
+
+  2. Notes
+    - Existing rows keep their current status
+*/
+
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_status_check;
+
+ALTER TABLE clients
+  ADD CONSTRAINT clients_status_check
+  CHECK (status IN (
+    'pending',
+    'calling',
+    'answered',
+    'missed',
+    'busy',
+    'voicemail',
+    'wrong-number',
+    'disconnected',
+    'declined',
+    'callback-requested'
+  ));
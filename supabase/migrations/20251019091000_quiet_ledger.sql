@@ -0,0 +1,82 @@
+/*
+  # Create call_logs table
+
+  1. New Tables
+    - `call_logs`
+      - `id` (uuid, primary key)
+      - `client_id` (uuid, foreign key to clients)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `started_at` (timestamptz, required)
+      - `ended_at` (timestamptz, optional)
+      - `ring_duration_seconds` (numeric, default 0)
+      - `talk_duration_seconds` (numeric, default 0)
+      - `outcome` (text, one of the client call outcomes)
+      - `round_number` (integer, optional - set for auto calls)
+      - `call_mode` (enum: manual, auto)
+      - `provider_call_id` (text, optional - id assigned by the telephony provider)
+      - `notes` (text, optional)
+      - `created_at` (timestamptz, default now())
+
+  2. Security
+    - Enable RLS on `call_logs` table
+    - Add policies for authenticated users to manage their own data
+*/
+
+CREATE TABLE IF NOT EXISTS call_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL,
+  ended_at timestamptz,
+  ring_duration_seconds numeric NOT NULL DEFAULT 0,
+  talk_duration_seconds numeric NOT NULL DEFAULT 0,
+  outcome text NOT NULL CHECK (outcome IN (
+    'answered',
+    'missed',
+    'busy',
+    'voicemail',
+    'wrong-number',
+    'disconnected',
+    'declined',
+    'callback-requested'
+  )),
+  round_number integer,
+  call_mode text NOT NULL DEFAULT 'manual' CHECK (call_mode IN ('manual', 'auto')),
+  provider_call_id text,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS call_logs_client_id_idx ON call_logs(client_id);
+CREATE INDEX IF NOT EXISTS call_logs_user_id_idx ON call_logs(user_id);
+CREATE INDEX IF NOT EXISTS call_logs_started_at_idx ON call_logs(started_at);
+
+-- Enable RLS
+ALTER TABLE call_logs ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own call logs"
+  ON call_logs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own call logs"
+  ON call_logs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own call logs"
+  ON call_logs
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own call logs"
+  ON call_logs
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,73 @@
+/*
+  # Create campaign_settings table
+
+  1. New Tables
+    - `campaign_settings`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users, one row per user)
+      - `ring_timeout_seconds` (integer, default 10)
+      - `inter_call_delay_seconds` (numeric, default 1.5)
+      - `inter_round_delay_seconds` (numeric, default 2)
+      - `max_rounds` (integer, optional - unlimited when null)
+      - `max_attempts_per_contact` (integer, optional - unlimited when null)
+      - `stop_after_answered` (integer, optional)
+      - `stop_after_minutes` (integer, optional)
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+
+  2. Security
+    - Enable RLS on `campaign_settings` table
+    - Add policies for authenticated users to manage their own data
+*/
+
+CREATE TABLE IF NOT EXISTS campaign_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  ring_timeout_seconds integer NOT NULL DEFAULT 10 CHECK (ring_timeout_seconds > 0),
+  inter_call_delay_seconds numeric NOT NULL DEFAULT 1.5 CHECK (inter_call_delay_seconds >= 0),
+  inter_round_delay_seconds numeric NOT NULL DEFAULT 2 CHECK (inter_round_delay_seconds >= 0),
+  max_rounds integer CHECK (max_rounds > 0),
+  max_attempts_per_contact integer CHECK (max_attempts_per_contact > 0),
+  stop_after_answered integer CHECK (stop_after_answered > 0),
+  stop_after_minutes integer CHECK (stop_after_minutes > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- One settings row per user
+CREATE UNIQUE INDEX IF NOT EXISTS campaign_settings_user_unique
+ON campaign_settings(user_id);
+
+-- Enable RLS
+ALTER TABLE campaign_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own campaign settings"
+  ON campaign_settings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own campaign settings"
+  ON campaign_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own campaign settings"
+  ON campaign_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own campaign settings"
+  ON campaign_settings
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_campaign_settings_updated_at
+  BEFORE UPDATE ON campaign_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
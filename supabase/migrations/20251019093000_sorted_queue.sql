@@ -0,0 +1,22 @@
+/*
+  # Add dialing strategy to campaign settings
+
+  1. Changes
+    - `campaign_settings.dialing_strategy` (enum: list-order, urgent-first,
+      high-priority-first, least-recently-called, fewest-attempts, weighted)
+    - `campaign_settings.skip_not_interested` (boolean, default true)
+*/
+
+ALTER TABLE campaign_settings
+  ADD COLUMN IF NOT EXISTS dialing_strategy text NOT NULL DEFAULT 'list-order'
+  CHECK (dialing_strategy IN (
+    'list-order',
+    'urgent-first',
+    'high-priority-first',
+    'least-recently-called',
+    'fewest-attempts',
+    'weighted'
+  ));
+
+ALTER TABLE campaign_settings
+  ADD COLUMN IF NOT EXISTS skip_not_interested boolean NOT NULL DEFAULT true;
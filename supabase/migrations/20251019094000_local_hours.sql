@@ -0,0 +1,27 @@
+/*
+  # Calling hours and client time zones
+
+  1. Changes
+    - `clients.time_zone` (text, optional IANA zone such as Europe/London;
+      inferred from the phone number's country code when null)
+    - `campaign_settings.calling_window_start` (text HH:MM, default 09:00)
+    - `campaign_settings.calling_window_end` (text HH:MM, default 20:00)
+    - `campaign_settings.enforce_calling_window` (boolean, default true)
+
+  2. Notes
+    - The calling window is evaluated in each client's local time
+*/
+
+ALTER TABLE clients
+  ADD COLUMN IF NOT EXISTS time_zone text;
+
+ALTER TABLE campaign_settings
+  ADD COLUMN IF NOT EXISTS calling_window_start text NOT NULL DEFAULT '09:00'
+  CHECK (calling_window_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$');
+
+ALTER TABLE campaign_settings
+  ADD COLUMN IF NOT EXISTS calling_window_end text NOT NULL DEFAULT '20:00'
+  CHECK (calling_window_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$');
+
+ALTER TABLE campaign_settings
+  ADD COLUMN IF NOT EXISTS enforce_calling_window boolean NOT NULL DEFAULT true;
@@ -0,0 +1,68 @@
+/*
+  # Create do_not_call_entries table
+
+  1. New Tables
+    - `do_not_call_entries`
+      - `id` (uuid, primary key)
+      - `phone_number` (text, as entered or imported)
+      - `phone_key` (text, digits only - used to match client numbers)
+      - `scope` (enum: user, global)
+      - `user_id` (uuid, owner of a personal entry; null for global entries)
+      - `reason` (text, optional)
+      - `source` (enum: manual, not-interested, csv-import)
+      - `added_by` (uuid, foreign key to auth.users - who added the entry)
+      - `added_by_email` (text, optional - shown in the audit trail)
+      - `created_at` (timestamptz, default now())
+
+  2. Security
+    - Enable RLS on `do_not_call_entries` table
+    - Authenticated users can read their own entries and the whole global list
+    - Users can add personal entries for themselves and global entries in their own name
+    - Only the user who added an entry can remove it; entries are never edited
+*/
+
+CREATE TABLE IF NOT EXISTS do_not_call_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone_number text NOT NULL,
+  phone_key text NOT NULL,
+  scope text NOT NULL DEFAULT 'user' CHECK (scope IN ('user', 'global')),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason text,
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'not-interested', 'csv-import')),
+  added_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  added_by_email text,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((scope = 'user' AND user_id IS NOT NULL) OR (scope = 'global' AND user_id IS NULL))
+);
+
+-- One entry per number in each list
+CREATE UNIQUE INDEX IF NOT EXISTS do_not_call_entries_user_phone_key_idx
+  ON do_not_call_entries(user_id, phone_key) WHERE scope = 'user';
+CREATE UNIQUE INDEX IF NOT EXISTS do_not_call_entries_global_phone_key_idx
+  ON do_not_call_entries(phone_key) WHERE scope = 'global';
+CREATE INDEX IF NOT EXISTS do_not_call_entries_phone_key_idx ON do_not_call_entries(phone_key);
+
+-- Enable RLS
+ALTER TABLE do_not_call_entries ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own and global do-not-call entries"
+  ON do_not_call_entries
+  FOR SELECT
+  TO authenticated
+  USING (scope = 'global' OR auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own do-not-call entries"
+  ON do_not_call_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = added_by
+    AND ((scope = 'user' AND auth.uid() = user_id) OR (scope = 'global' AND user_id IS NULL))
+  );
+
+CREATE POLICY "Users can delete do-not-call entries they added"
+  ON do_not_call_entries
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = added_by);
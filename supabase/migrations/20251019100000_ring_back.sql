@@ -0,0 +1,74 @@
+/*
+  # Create callbacks table
+
+  1. New Tables
+    - `callbacks`
+      - `id` (uuid, primary key)
+      - `client_id` (uuid, foreign key to clients)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `call_log_id` (uuid, optional - the call the callback was requested on)
+      - `due_at` (timestamptz, required)
+      - `reason` (text, optional)
+      - `assigned_to` (text, optional - who should make the call)
+      - `status` (enum: scheduled, completed, cancelled)
+      - `completed_at` (timestamptz, optional)
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+
+  2. Security
+    - Enable RLS on `callbacks` table
+    - Add policies for authenticated users to manage their own data
+*/
+
+CREATE TABLE IF NOT EXISTS callbacks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  call_log_id uuid REFERENCES call_logs(id) ON DELETE SET NULL,
+  due_at timestamptz NOT NULL,
+  reason text,
+  assigned_to text,
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'completed', 'cancelled')),
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS callbacks_client_id_idx ON callbacks(client_id);
+CREATE INDEX IF NOT EXISTS callbacks_user_id_idx ON callbacks(user_id);
+CREATE INDEX IF NOT EXISTS callbacks_due_at_idx ON callbacks(due_at);
+
+-- Enable RLS
+ALTER TABLE callbacks ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own callbacks"
+  ON callbacks
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own callbacks"
+  ON callbacks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own callbacks"
+  ON callbacks
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own callbacks"
+  ON callbacks
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_callbacks_updated_at
+  BEFORE UPDATE ON callbacks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
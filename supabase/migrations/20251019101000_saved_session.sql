@@ -0,0 +1,80 @@
+/*
+  # Create call_sessions table
+
+  1. New Tables
+    - `call_sessions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `status` (enum: active, completed, stopped)
+      - `current_round` (integer, default 1)
+      - `queue` (jsonb, client ids to dial this round, in order)
+      - `position` (integer, index into queue of the next client to dial)
+      - `answered_count` (integer, calls answered this session)
+      - `settings` (jsonb, campaign settings the session was started with)
+      - `started_at` (timestamptz, required)
+      - `ended_at` (timestamptz, optional)
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+
+  2. Security
+    - Enable RLS on `call_sessions` table
+    - Add policies for authenticated users to manage their own data
+
+  3. Notes
+    - A session still `active` when the app loads was interrupted and can be resumed
+    - Each user has at most one active session
+*/
+
+CREATE TABLE IF NOT EXISTS call_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'stopped')),
+  current_round integer NOT NULL DEFAULT 1 CHECK (current_round >= 1),
+  queue jsonb NOT NULL DEFAULT '[]'::jsonb,
+  position integer NOT NULL DEFAULT 0 CHECK (position >= 0),
+  answered_count integer NOT NULL DEFAULT 0,
+  settings jsonb NOT NULL,
+  started_at timestamptz NOT NULL,
+  ended_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS call_sessions_user_id_idx ON call_sessions(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS call_sessions_one_active_per_user_idx
+  ON call_sessions(user_id) WHERE status = 'active';
+
+-- Enable RLS
+ALTER TABLE call_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own call sessions"
+  ON call_sessions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own call sessions"
+  ON call_sessions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own call sessions"
+  ON call_sessions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own call sessions"
+  ON call_sessions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_call_sessions_updated_at
+  BEFORE UPDATE ON call_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
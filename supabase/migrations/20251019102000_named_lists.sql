@@ -0,0 +1,112 @@
+/*
+  # Create call lists (campaigns)
+
+  1. New Tables
+    - `call_lists`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `name` (text, required, unique per user)
+      - `description` (text, optional)
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+    - `call_list_members`
+      - `list_id` (uuid, foreign key to call_lists)
+      - `client_id` (uuid, foreign key to clients)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `added_at` (timestamptz, default now())
+      - primary key (list_id, client_id)
+
+  2. Changes
+    - `call_sessions.call_list_id` (uuid, optional - the list a session dials; null means all clients)
+
+  3. Security
+    - Enable RLS on both tables
+    - Add policies for authenticated users to manage their own data
+*/
+
+CREATE TABLE IF NOT EXISTS call_lists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS call_list_members (
+  list_id uuid NOT NULL REFERENCES call_lists(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  added_at timestamptz DEFAULT now(),
+  PRIMARY KEY (list_id, client_id)
+);
+
+ALTER TABLE call_sessions
+  ADD COLUMN IF NOT EXISTS call_list_id uuid REFERENCES call_lists(id) ON DELETE SET NULL;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS call_lists_user_id_idx ON call_lists(user_id);
+CREATE INDEX IF NOT EXISTS call_list_members_client_id_idx ON call_list_members(client_id);
+CREATE INDEX IF NOT EXISTS call_list_members_user_id_idx ON call_list_members(user_id);
+
+-- Enable RLS
+ALTER TABLE call_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE call_list_members ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for call_lists
+CREATE POLICY "Users can read own call lists"
+  ON call_lists
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own call lists"
+  ON call_lists
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own call lists"
+  ON call_lists
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own call lists"
+  ON call_lists
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create policies for call_list_members
+CREATE POLICY "Users can read own call list members"
+  ON call_list_members
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own call list members"
+  ON call_list_members
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own call list members"
+  ON call_list_members
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own call list members"
+  ON call_list_members
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_call_lists_updated_at
+  BEFORE UPDATE ON call_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
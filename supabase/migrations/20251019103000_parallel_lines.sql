@@ -0,0 +1,11 @@
+/*
+  # Add parallel dialing to campaign settings
+
+  1. Changes
+    - `campaign_settings.max_concurrent_calls` (integer 1-10, default 1 -
+      how many auto calls may ring at the same time)
+*/
+
+ALTER TABLE campaign_settings
+  ADD COLUMN IF NOT EXISTS max_concurrent_calls integer NOT NULL DEFAULT 1
+  CHECK (max_concurrent_calls BETWEEN 1 AND 10);
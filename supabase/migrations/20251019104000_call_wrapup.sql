@@ -0,0 +1,77 @@
+/*
+  # Create call dispositions
+
+  1. New Tables
+    - `call_dispositions`
+      - `id` (uuid, primary key)
+      - `call_log_id` (uuid, foreign key to call_logs - one disposition per call)
+      - `client_id` (uuid, foreign key to clients)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `outcome_code` (text, optional)
+      - `summary` (text, optional)
+      - `next_action` (enum: none, callback, appointment, send-information, close)
+      - `callback_id` (uuid, optional - callback booked from the disposition)
+      - `appointment_id` (uuid, optional - appointment booked from the disposition)
+      - `auto_dismissed` (boolean - saved when the wrap-up time ran out)
+      - `created_at` (timestamptz, default now())
+
+  2. Changes
+    - `campaign_settings.wrap_up_seconds` (integer, default 60 - how long the
+      disposition form waits before it is dismissed; 0 waits for the agent)
+
+  3. Security
+    - Enable RLS on `call_dispositions` table
+    - Add policies for authenticated users to manage their own data
+*/
+
+CREATE TABLE IF NOT EXISTS call_dispositions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_log_id uuid NOT NULL UNIQUE REFERENCES call_logs(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  outcome_code text,
+  summary text,
+  next_action text NOT NULL DEFAULT 'none'
+    CHECK (next_action IN ('none', 'callback', 'appointment', 'send-information', 'close')),
+  callback_id uuid REFERENCES callbacks(id) ON DELETE SET NULL,
+  appointment_id uuid REFERENCES appointments(id) ON DELETE SET NULL,
+  auto_dismissed boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE campaign_settings
+  ADD COLUMN IF NOT EXISTS wrap_up_seconds integer NOT NULL DEFAULT 60
+  CHECK (wrap_up_seconds >= 0);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS call_dispositions_client_id_idx ON call_dispositions(client_id);
+CREATE INDEX IF NOT EXISTS call_dispositions_user_id_idx ON call_dispositions(user_id);
+
+-- Enable RLS
+ALTER TABLE call_dispositions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own call dispositions"
+  ON call_dispositions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own call dispositions"
+  ON call_dispositions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own call dispositions"
+  ON call_dispositions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own call dispositions"
+  ON call_dispositions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
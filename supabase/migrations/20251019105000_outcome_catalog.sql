@@ -0,0 +1,96 @@
+/*
+  # Create disposition_codes table
+
+  1. New Tables
+    - `disposition_codes`
+      - `id` (uuid, primary key)
+      - `code` (text, stable identifier stored on dispositions)
+      - `label` (text, shown to agents)
+      - `color` (enum: gray, red, orange, yellow, green, teal, blue, indigo, purple, pink)
+      - `counts_as_reached` (boolean, default false)
+      - `retry` (boolean, default true - whether auto calling dials the client again)
+      - `retry_delay_minutes` (integer, optional - wait before the client is dialed again)
+      - `sort_order` (integer, default 0)
+      - `scope` (enum: user, global)
+      - `user_id` (uuid, owner of a personal code; null for codes shared by the team)
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+
+  2. Changes
+    - `clients.last_disposition_code` (text, optional)
+    - `clients.last_disposition_at` (timestamptz, optional)
+
+  3. Security
+    - Enable RLS on `disposition_codes` table
+    - Authenticated users can read their own codes and the shared catalogue
+    - Users can add personal codes for themselves and shared codes in their own name
+    - Only the user who created a code can edit or remove it
+
+  4. Notes
+    - Dispositions keep the code text, so removing a code leaves past dispositions intact
+*/
+
+CREATE TABLE IF NOT EXISTS disposition_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL,
+  label text NOT NULL,
+  color text NOT NULL DEFAULT 'gray'
+    CHECK (color IN ('gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink')),
+  counts_as_reached boolean NOT NULL DEFAULT false,
+  retry boolean NOT NULL DEFAULT true,
+  retry_delay_minutes integer CHECK (retry_delay_minutes >= 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  scope text NOT NULL DEFAULT 'user' CHECK (scope IN ('user', 'global')),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK ((scope = 'user' AND user_id IS NOT NULL) OR (scope = 'global' AND user_id IS NULL))
+);
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS last_disposition_code text;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS last_disposition_at timestamptz;
+
+-- One code per identifier in each catalogue
+CREATE UNIQUE INDEX IF NOT EXISTS disposition_codes_user_code_idx
+  ON disposition_codes(user_id, code) WHERE scope = 'user';
+CREATE UNIQUE INDEX IF NOT EXISTS disposition_codes_global_code_idx
+  ON disposition_codes(code) WHERE scope = 'global';
+
+-- Enable RLS
+ALTER TABLE disposition_codes ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own and global disposition codes"
+  ON disposition_codes
+  FOR SELECT
+  TO authenticated
+  USING (scope = 'global' OR auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own disposition codes"
+  ON disposition_codes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND ((scope = 'user' AND auth.uid() = user_id) OR (scope = 'global' AND user_id IS NULL))
+  );
+
+CREATE POLICY "Users can update disposition codes they created"
+  ON disposition_codes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = created_by)
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can delete disposition codes they created"
+  ON disposition_codes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = created_by);
+
+CREATE TRIGGER update_disposition_codes_updated_at
+  BEFORE UPDATE ON disposition_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,19 @@
+/*
+  # Add per-outcome retry rules
+
+  1. Changes
+    - `campaign_settings.retry_rules` (jsonb, default {} - per call outcome whether to retry,
+      the wait after an attempt and the attempt limit; missing outcomes use the app defaults)
+    - `clients.next_eligible_at` (timestamptz, optional - when auto calling may dial the
+      client again, computed after each attempt)
+
+  2. Notes
+    - Clients without `next_eligible_at` are eligible straight away
+*/
+
+ALTER TABLE campaign_settings
+  ADD COLUMN IF NOT EXISTS retry_rules jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS next_eligible_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS clients_next_eligible_at_idx ON clients(next_eligible_at);
@@ -0,0 +1,101 @@
+/*
+  # Create call_recordings table and storage bucket
+
+  1. New Tables
+    - `call_recordings`
+      - `id` (uuid, primary key)
+      - `call_log_id` (uuid, foreign key to call_logs, one recording per attempt)
+      - `client_id` (uuid, foreign key to clients)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `storage_path` (text, object path in the `call-recordings` bucket)
+      - `mime_type` (text)
+      - `size_bytes` (bigint)
+      - `duration_seconds` (numeric, optional)
+      - `expires_at` (timestamptz, optional - removed after this under the user's retention setting)
+      - `created_at` (timestamptz, default now())
+
+  2. Changes
+    - `clients.recording_consent` (boolean, default false - calls are only recorded with consent)
+    - `campaign_settings.recording_retention_days` (integer, optional - keep recordings forever when not set)
+
+  3. Storage
+    - Private `call-recordings` bucket; objects live under a folder named after the owner's user id
+
+  4. Security
+    - Enable RLS on `call_recordings` table
+    - Users can only read, add and remove their own recordings and recording files
+*/
+
+CREATE TABLE IF NOT EXISTS call_recordings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  call_log_id uuid NOT NULL UNIQUE REFERENCES call_logs(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path text NOT NULL,
+  mime_type text NOT NULL DEFAULT 'audio/mpeg',
+  size_bytes bigint NOT NULL DEFAULT 0 CHECK (size_bytes >= 0),
+  duration_seconds numeric CHECK (duration_seconds >= 0),
+  expires_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS recording_consent boolean NOT NULL DEFAULT false;
+
+ALTER TABLE campaign_settings
+  ADD COLUMN IF NOT EXISTS recording_retention_days integer CHECK (recording_retention_days >= 1);
+
+CREATE INDEX IF NOT EXISTS call_recordings_client_id_idx ON call_recordings(client_id);
+CREATE INDEX IF NOT EXISTS call_recordings_user_id_idx ON call_recordings(user_id);
+CREATE INDEX IF NOT EXISTS call_recordings_expires_at_idx ON call_recordings(expires_at);
+
+-- Enable RLS
+ALTER TABLE call_recordings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can read own call recordings"
+  ON call_recordings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own call recordings"
+  ON call_recordings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own call recordings"
+  ON call_recordings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own call recordings"
+  ON call_recordings
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Recording files
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('call-recordings', 'call-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read own recording files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'call-recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload own recording files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'call-recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own recording files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'call-recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,14 @@
+/*
+  # Add predictive pacing
+
+  1. Changes
+    - `campaign_settings.predictive_pacing` (boolean, default false - when on, auto calling
+      adjusts how many calls are in flight and the delay between dials from the observed
+      answer rate and talk time, with `max_concurrent_calls` as the ceiling)
+
+  2. Notes
+    - Pacing learns from recent auto call logs, so no new tables are needed
+*/
+
+ALTER TABLE campaign_settings
+  ADD COLUMN IF NOT EXISTS predictive_pacing boolean NOT NULL DEFAULT false;
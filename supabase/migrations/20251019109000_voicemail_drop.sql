@@ -0,0 +1,53 @@
+/*
+  # Add answering-machine detection and voicemail drop
+
+  1. Changes
+    - `clients.status` and `call_logs.outcome` now also accept `machine` (the call was
+      picked up by an answering machine rather than a person)
+    - `call_logs.voicemail_dropped` (boolean, default false - the campaign message was
+      left on the machine)
+    - `campaign_settings.voicemail_drop_path` (text, optional - where the pre-recorded
+      message lives in the `call-recordings` bucket; no message is left when not set)
+
+  2. Notes
+    - The message file sits in the user's own folder of the bucket, so the existing
+      storage policies cover it
+*/
+
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_status_check;
+
+ALTER TABLE clients
+  ADD CONSTRAINT clients_status_check
+  CHECK (status IN (
+    'pending',
+    'calling',
+    'answered',
+    'missed',
+    'busy',
+    'voicemail',
+    'machine',
+    'wrong-number',
+    'disconnected',
+    'declined',
+    'callback-requested'
+  ));
+
+ALTER TABLE call_logs DROP CONSTRAINT IF EXISTS call_logs_outcome_check;
+
+ALTER TABLE call_logs
+  ADD CONSTRAINT call_logs_outcome_check
+  CHECK (outcome IN (
+    'answered',
+    'missed',
+    'busy',
+    'voicemail',
+    'machine',
+    'wrong-number',
+    'disconnected',
+    'declined',
+    'callback-requested'
+  ));
+
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS voicemail_dropped boolean NOT NULL DEFAULT false;
+
+ALTER TABLE campaign_settings ADD COLUMN IF NOT EXISTS voicemail_drop_path text;
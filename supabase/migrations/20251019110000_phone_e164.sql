@@ -0,0 +1,64 @@
+/*
+  # Store phone numbers in canonical E.164 form
+
+  1. Changes
+    - `clients.phone_e164` and `clients.whatsapp_e164` (text, optional - the number in
+      E.164 form, e.g. `+15551234567`, next to the number as it is displayed)
+    - `campaign_settings.default_country` (text, default `US` - ISO 3166 country used
+      to read numbers entered without a country code)
+    - The unique phone index moves from `phone_number` to `phone_e164`, so the same
+      number written two ways can no longer be stored twice
+
+  2. Notes
+    - Existing numbers are backfilled with the rules the app used so far: numbers that
+      start with `+` or `00` keep their country code and ten-digit numbers are read as US
+      numbers. Numbers that fit neither are left without a canonical form until edited
+    - When clients already share a number in E.164 form the unique index cannot be
+      built: the old index on `phone_number` is kept and a warning is raised, so the
+      duplicates can be merged and the index block run again
+*/
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS phone_e164 text;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS whatsapp_e164 text;
+
+ALTER TABLE campaign_settings ADD COLUMN IF NOT EXISTS default_country text NOT NULL DEFAULT 'US';
+
+ALTER TABLE campaign_settings DROP CONSTRAINT IF EXISTS campaign_settings_default_country_check;
+
+ALTER TABLE campaign_settings
+  ADD CONSTRAINT campaign_settings_default_country_check
+  CHECK (default_country ~ '^[A-Z]{2}$');
+
+CREATE OR REPLACE FUNCTION pg_temp.legacy_e164(phone text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN phone IS NULL THEN NULL
+    WHEN btrim(phone) LIKE '+%' THEN '+' || regexp_replace(phone, '\D', '', 'g')
+    WHEN btrim(phone) LIKE '00%' THEN '+' || substr(regexp_replace(phone, '\D', '', 'g'), 3)
+    WHEN length(regexp_replace(phone, '\D', '', 'g')) = 10 THEN '+1' || regexp_replace(phone, '\D', '', 'g')
+    WHEN length(regexp_replace(phone, '\D', '', 'g')) = 11 AND regexp_replace(phone, '\D', '', 'g') LIKE '1%'
+      THEN '+' || regexp_replace(phone, '\D', '', 'g')
+    ELSE NULL
+  END
+$$;
+
+UPDATE clients
+SET
+  phone_e164 = pg_temp.legacy_e164(phone_number),
+  whatsapp_e164 = pg_temp.legacy_e164(whatsapp_number)
+WHERE phone_e164 IS NULL;
+
+-- The old index stays until the new one can be built, so numbers are never left unguarded
+DO $$
+BEGIN
+  CREATE UNIQUE INDEX IF NOT EXISTS clients_user_phone_e164_unique
+    ON clients(user_id, phone_e164)
+    WHERE phone_e164 IS NOT NULL;
+  DROP INDEX IF EXISTS clients_user_phone_unique;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE WARNING 'Some clients share a phone number in E.164 form; clients_user_phone_unique is kept. Merge the duplicates and run this block again to move the unique index to phone_e164';
+END $$;
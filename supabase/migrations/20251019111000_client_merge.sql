@@ -0,0 +1,107 @@
+/*
+  # Merge duplicate clients
+
+  1. Changes
+    - `merge_clients(keep_client_id, merge_client_id, kept_values)` function: moves
+      everything recorded against one client onto another and deletes the merged one
+      - work history, appointments, feedback, notes, call logs, callbacks, dispositions
+        and recordings are re-parented to the kept client
+      - call list memberships move too; lists that already hold the kept client keep
+        a single membership
+      - saved call sessions dial the kept client wherever the merged one was queued
+      - call attempts are added up and the latest call time is kept
+      - `kept_values` (jsonb) sets the kept client's profile fields; keys left out keep
+        their current value and keys set to null clear the field
+
+  2. Notes
+    - The function runs as the calling user, so row level security still applies and
+      both clients must belong to them
+    - Everything happens in one transaction: a failed merge leaves both clients as
+      they were
+    - The merged client is deleted before the profile is updated, so the kept client
+      can take over its phone number without tripping the unique index
+*/
+
+CREATE OR REPLACE FUNCTION merge_clients(
+  keep_client_id uuid,
+  merge_client_id uuid,
+  kept_values jsonb DEFAULT '{}'::jsonb
+)
+RETURNS clients
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  merged clients%ROWTYPE;
+  kept clients%ROWTYPE;
+BEGIN
+  IF keep_client_id = merge_client_id THEN
+    RAISE EXCEPTION 'A client cannot be merged into itself';
+  END IF;
+
+  PERFORM 1 FROM clients WHERE id = keep_client_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client to keep was not found';
+  END IF;
+
+  SELECT * INTO merged FROM clients WHERE id = merge_client_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client to merge was not found';
+  END IF;
+
+  UPDATE work_history SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE appointments SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE client_feedback SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE client_notes SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE call_logs SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE callbacks SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE call_dispositions SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE call_recordings SET client_id = keep_client_id WHERE client_id = merge_client_id;
+
+  INSERT INTO call_list_members (list_id, client_id, user_id, added_at)
+  SELECT list_id, keep_client_id, user_id, added_at
+  FROM call_list_members
+  WHERE client_id = merge_client_id
+  ON CONFLICT (list_id, client_id) DO NOTHING;
+
+  UPDATE call_sessions
+  SET
+    queue = (
+      SELECT jsonb_agg(
+        CASE WHEN entry.value = to_jsonb(merge_client_id::text) THEN to_jsonb(keep_client_id::text) ELSE entry.value END
+        ORDER BY entry.ordinality
+      )
+      FROM jsonb_array_elements(queue) WITH ORDINALITY AS entry(value, ordinality)
+    ),
+    updated_at = now()
+  WHERE user_id = auth.uid() AND queue ? merge_client_id::text;
+
+  -- Its original list memberships go with it; the copies above remain
+  DELETE FROM clients WHERE id = merge_client_id;
+
+  UPDATE clients
+  SET
+    name = CASE WHEN kept_values ? 'name' THEN kept_values->>'name' ELSE name END,
+    phone_number = CASE WHEN kept_values ? 'phone_number' THEN kept_values->>'phone_number' ELSE phone_number END,
+    phone_e164 = CASE WHEN kept_values ? 'phone_e164' THEN kept_values->>'phone_e164' ELSE phone_e164 END,
+    whatsapp_number = CASE WHEN kept_values ? 'whatsapp_number' THEN kept_values->>'whatsapp_number' ELSE whatsapp_number END,
+    whatsapp_e164 = CASE WHEN kept_values ? 'whatsapp_e164' THEN kept_values->>'whatsapp_e164' ELSE whatsapp_e164 END,
+    email = CASE WHEN kept_values ? 'email' THEN kept_values->>'email' ELSE email END,
+    position = CASE WHEN kept_values ? 'position' THEN kept_values->>'position' ELSE position END,
+    department = CASE WHEN kept_values ? 'department' THEN kept_values->>'department' ELSE department END,
+    work_status = CASE WHEN kept_values ? 'work_status' THEN kept_values->>'work_status' ELSE work_status END,
+    is_urgent = CASE WHEN kept_values ? 'is_urgent' THEN (kept_values->>'is_urgent')::boolean ELSE is_urgent END,
+    priority = CASE WHEN kept_values ? 'priority' THEN kept_values->>'priority' ELSE priority END,
+    time_zone = CASE WHEN kept_values ? 'time_zone' THEN kept_values->>'time_zone' ELSE time_zone END,
+    recording_consent = CASE WHEN kept_values ? 'recording_consent' THEN (kept_values->>'recording_consent')::boolean ELSE recording_consent END,
+    call_attempts = call_attempts + merged.call_attempts,
+    last_call_time = GREATEST(last_call_time, merged.last_call_time),
+    updated_at = now()
+  WHERE id = keep_client_id
+  RETURNING * INTO kept;
+
+  RETURN kept;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_clients(uuid, uuid, jsonb) TO authenticated;
@@ -0,0 +1,50 @@
+/*
+  # Restrict the global do-not-call list to administrators
+
+  1. Changes
+    - `is_app_admin()` function: true when the caller's JWT carries `role = 'admin'`
+      in its app metadata
+    - Only administrators can add entries to the global do-not-call list; personal
+      entries are unchanged
+    - Global entries can be removed by any administrator, personal entries only by
+      the user who added them
+
+  2. Notes
+    - App metadata can only be written with the service role, so users cannot grant
+      themselves the admin role
+    - Existing global entries are kept
+*/
+
+CREATE OR REPLACE FUNCTION is_app_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'admin';
+$$;
+
+GRANT EXECUTE ON FUNCTION is_app_admin() TO authenticated;
+
+DROP POLICY IF EXISTS "Users can insert own do-not-call entries" ON do_not_call_entries;
+DROP POLICY IF EXISTS "Users can delete do-not-call entries they added" ON do_not_call_entries;
+
+CREATE POLICY "Users can insert own do-not-call entries"
+  ON do_not_call_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = added_by
+    AND (
+      (scope = 'user' AND auth.uid() = user_id)
+      OR (scope = 'global' AND user_id IS NULL AND is_app_admin())
+    )
+  );
+
+CREATE POLICY "Users can delete do-not-call entries they added"
+  ON do_not_call_entries
+  FOR DELETE
+  TO authenticated
+  USING (
+    (scope = 'user' AND auth.uid() = added_by)
+    OR (scope = 'global' AND is_app_admin())
+  );
@@ -0,0 +1,50 @@
+/*
+  # Restrict team disposition codes to administrators
+
+  1. Changes
+    - Only administrators (`is_app_admin()`) can add, edit or remove codes in the
+      team catalogue (scope 'global')
+    - Personal codes are unchanged: users add codes for themselves and only the
+      user who created a code can edit or remove it
+
+  2. Notes
+    - Existing team codes are kept; administrators can edit them whoever created them
+*/
+
+DROP POLICY IF EXISTS "Users can insert own disposition codes" ON disposition_codes;
+DROP POLICY IF EXISTS "Users can update disposition codes they created" ON disposition_codes;
+DROP POLICY IF EXISTS "Users can delete disposition codes they created" ON disposition_codes;
+
+CREATE POLICY "Users can insert own disposition codes"
+  ON disposition_codes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by
+    AND (
+      (scope = 'user' AND auth.uid() = user_id)
+      OR (scope = 'global' AND user_id IS NULL AND is_app_admin())
+    )
+  );
+
+CREATE POLICY "Users can update disposition codes they created"
+  ON disposition_codes
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (scope = 'user' AND auth.uid() = created_by)
+    OR (scope = 'global' AND is_app_admin())
+  )
+  WITH CHECK (
+    (scope = 'user' AND auth.uid() = created_by AND auth.uid() = user_id)
+    OR (scope = 'global' AND user_id IS NULL AND is_app_admin())
+  );
+
+CREATE POLICY "Users can delete disposition codes they created"
+  ON disposition_codes
+  FOR DELETE
+  TO authenticated
+  USING (
+    (scope = 'user' AND auth.uid() = created_by)
+    OR (scope = 'global' AND is_app_admin())
+  );
@@ -0,0 +1,23 @@
+/*
+  # Make client email, position and department optional
+
+  1. Changes
+    - `clients.email`, `clients.position` and `clients.department` accept null and no
+      longer default to placeholder text
+    - Existing placeholders ('Not provided' for email, 'Not specified' for position and
+      department) and blank values are cleared to null
+
+  2. Notes
+    - The merge function already writes null for fields the kept values clear
+*/
+
+ALTER TABLE clients ALTER COLUMN email DROP NOT NULL;
+ALTER TABLE clients ALTER COLUMN email DROP DEFAULT;
+ALTER TABLE clients ALTER COLUMN position DROP NOT NULL;
+ALTER TABLE clients ALTER COLUMN position DROP DEFAULT;
+ALTER TABLE clients ALTER COLUMN department DROP NOT NULL;
+ALTER TABLE clients ALTER COLUMN department DROP DEFAULT;
+
+UPDATE clients SET email = NULL WHERE email = 'Not provided' OR btrim(email) = '';
+UPDATE clients SET position = NULL WHERE position = 'Not specified' OR btrim(position) = '';
+UPDATE clients SET department = NULL WHERE department = 'Not specified' OR btrim(department) = '';
@@ -0,0 +1,116 @@
+/*
+  # Keep saved call session queues free of duplicates after a merge
+
+  1. Changes
+    - `merge_clients` no longer leaves the kept client queued twice when a saved call
+      session held both clients: only the first entry stays
+    - The session position moves back by the entries dropped before it, so a resumed
+      session carries on with the same next client
+
+  2. Notes
+    - Everything else the function does is unchanged
+*/
+
+CREATE OR REPLACE FUNCTION merge_clients(
+  keep_client_id uuid,
+  merge_client_id uuid,
+  kept_values jsonb DEFAULT '{}'::jsonb
+)
+RETURNS clients
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  merged clients%ROWTYPE;
+  kept clients%ROWTYPE;
+  saved_session record;
+  entry record;
+  queued_id text;
+  new_queue jsonb;
+  new_position integer;
+BEGIN
+  IF keep_client_id = merge_client_id THEN
+    RAISE EXCEPTION 'A client cannot be merged into itself';
+  END IF;
+
+  PERFORM 1 FROM clients WHERE id = keep_client_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client to keep was not found';
+  END IF;
+
+  SELECT * INTO merged FROM clients WHERE id = merge_client_id AND user_id = auth.uid() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client to merge was not found';
+  END IF;
+
+  UPDATE work_history SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE appointments SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE client_feedback SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE client_notes SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE call_logs SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE callbacks SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE call_dispositions SET client_id = keep_client_id WHERE client_id = merge_client_id;
+  UPDATE call_recordings SET client_id = keep_client_id WHERE client_id = merge_client_id;
+
+  INSERT INTO call_list_members (list_id, client_id, user_id, added_at)
+  SELECT list_id, keep_client_id, user_id, added_at
+  FROM call_list_members
+  WHERE client_id = merge_client_id
+  ON CONFLICT (list_id, client_id) DO NOTHING;
+
+  -- The merged client is dialed as the kept one; a queue holding both keeps only the first
+  -- entry, and the position moves back by the entries dropped before it
+  FOR saved_session IN
+    SELECT id, queue, position FROM call_sessions
+    WHERE user_id = auth.uid() AND queue ? merge_client_id::text
+    FOR UPDATE
+  LOOP
+    new_queue := '[]'::jsonb;
+    new_position := saved_session.position;
+    FOR entry IN
+      SELECT value, ordinality FROM jsonb_array_elements_text(saved_session.queue) WITH ORDINALITY AS e(value, ordinality)
+    LOOP
+      queued_id := CASE WHEN entry.value = merge_client_id::text THEN keep_client_id::text ELSE entry.value END;
+      IF queued_id = keep_client_id::text AND new_queue ? queued_id THEN
+        IF entry.ordinality <= saved_session.position THEN
+          new_position := new_position - 1;
+        END IF;
+      ELSE
+        new_queue := new_queue || to_jsonb(queued_id);
+      END IF;
+    END LOOP;
+
+    UPDATE call_sessions
+    SET queue = new_queue, position = new_position, updated_at = now()
+    WHERE id = saved_session.id;
+  END LOOP;
+
+  -- Its original list memberships go with it; the copies above remain
+  DELETE FROM clients WHERE id = merge_client_id;
+
+  UPDATE clients
+  SET
+    name = CASE WHEN kept_values ? 'name' THEN kept_values->>'name' ELSE name END,
+    phone_number = CASE WHEN kept_values ? 'phone_number' THEN kept_values->>'phone_number' ELSE phone_number END,
+    phone_e164 = CASE WHEN kept_values ? 'phone_e164' THEN kept_values->>'phone_e164' ELSE phone_e164 END,
+    whatsapp_number = CASE WHEN kept_values ? 'whatsapp_number' THEN kept_values->>'whatsapp_number' ELSE whatsapp_number END,
+    whatsapp_e164 = CASE WHEN kept_values ? 'whatsapp_e164' THEN kept_values->>'whatsapp_e164' ELSE whatsapp_e164 END,
+    email = CASE WHEN kept_values ? 'email' THEN kept_values->>'email' ELSE email END,
+    position = CASE WHEN kept_values ? 'position' THEN kept_values->>'position' ELSE position END,
+    department = CASE WHEN kept_values ? 'department' THEN kept_values->>'department' ELSE department END,
+    work_status = CASE WHEN kept_values ? 'work_status' THEN kept_values->>'work_status' ELSE work_status END,
+    is_urgent = CASE WHEN kept_values ? 'is_urgent' THEN (kept_values->>'is_urgent')::boolean ELSE is_urgent END,
+    priority = CASE WHEN kept_values ? 'priority' THEN kept_values->>'priority' ELSE priority END,
+    time_zone = CASE WHEN kept_values ? 'time_zone' THEN kept_values->>'time_zone' ELSE time_zone END,
+    recording_consent = CASE WHEN kept_values ? 'recording_consent' THEN (kept_values->>'recording_consent')::boolean ELSE recording_consent END,
+    call_attempts = call_attempts + merged.call_attempts,
+    last_call_time = GREATEST(last_call_time, merged.last_call_time),
+    updated_at = now()
+  WHERE id = keep_client_id
+  RETURNING * INTO kept;
+
+  RETURN kept;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_clients(uuid, uuid, jsonb) TO authenticated;
@@ -0,0 +1,34 @@
+/*
+  # Keep client priorities and work statuses in the disposition catalogue
+
+  1. Changes
+    - `disposition_codes.category` (enum: outcome, priority, work_status, default outcome):
+      call outcomes, the priorities set on a client card and the stages of the job now
+      share one editable catalogue
+    - A code is unique per category, so a priority can share its code with an outcome
+      (both catalogues ship a `not-interested`)
+    - `clients.priority` and `clients.work_status` hold codes from the catalogue instead of
+      a fixed list, so their check constraints are dropped
+
+  2. Notes
+    - Existing codes become outcomes
+    - Users get a personal copy of the default priorities and work statuses the next time
+      the app loads the catalogue, so existing client values keep their meaning
+    - A priority that is never retried is what "skip not interested" skips, and a work
+      status that counts as reached marks the work as done
+*/
+
+ALTER TABLE disposition_codes ADD COLUMN IF NOT EXISTS category text NOT NULL DEFAULT 'outcome'
+  CHECK (category IN ('outcome', 'priority', 'work_status'));
+
+DROP INDEX IF EXISTS disposition_codes_user_code_idx;
+DROP INDEX IF EXISTS disposition_codes_global_code_idx;
+
+-- One code per identifier in each catalogue and category
+CREATE UNIQUE INDEX IF NOT EXISTS disposition_codes_user_code_idx
+  ON disposition_codes(user_id, category, code) WHERE scope = 'user';
+CREATE UNIQUE INDEX IF NOT EXISTS disposition_codes_global_code_idx
+  ON disposition_codes(category, code) WHERE scope = 'global';
+
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_priority_check;
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_work_status_check;